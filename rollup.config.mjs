@@ -26,7 +26,7 @@ export default [
         rootDir: 'src',
       }),
     ],
-    external: ['astro', 'node:async_hooks'],
+    external: ['astro', 'node:async_hooks', 'node:crypto', 'node:fs/promises', 'node:os', 'node:path'],
   },
   {
     input: 'src/middleware.ts',
@@ -51,7 +51,7 @@ export default [
         rootDir: 'src',
       }),
     ],
-    external: ['astro', 'node:async_hooks'],
+    external: ['astro', 'node:async_hooks', 'node:crypto', 'node:fs/promises', 'node:os', 'node:path'],
   },
   {
     input: 'dist/index.d.ts',
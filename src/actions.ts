@@ -0,0 +1,97 @@
+// packages/astro-tokenkit/src/actions.ts
+
+/// <reference types="astro/client" />
+
+import { ActionError, defineAction } from 'astro:actions';
+import type { ActionAPIContext, ActionClient, ActionErrorCode } from 'astro:actions';
+import type { z } from 'astro/zod';
+import { runWithContext } from './client/context';
+import { getTokenManager } from './config';
+import { satisfiesClaims, toClaimRequirement } from './auth/authorization';
+import { APIError, NetworkError, TimeoutError } from './types';
+import type { ClaimRequirement, Session } from './types';
+
+type ActionAccept = NonNullable<Parameters<typeof defineAction>[0]['accept']>;
+
+/** Input schema defineAction() falls back to: FormData for form actions, none otherwise */
+type DefaultInputSchema<TAccept> = TAccept extends 'form' ? z.ZodType<FormData> : undefined;
+
+/**
+ * Options for defineAuthAction(): defineAction() options with a handler that
+ * also receives the TokenKit session
+ */
+export type AuthActionOptions<
+    TOutput,
+    TAccept extends ActionAccept | undefined = undefined,
+    TInputSchema extends z.ZodType | undefined = DefaultInputSchema<TAccept>,
+> = {
+    accept?: TAccept;
+    input?: TInputSchema;
+    handler: (
+        input: TInputSchema extends z.ZodType ? z.infer<TInputSchema> : any,
+        context: ActionAPIContext,
+        session: Session,
+    ) => TOutput | Promise<TOutput>;
+    /** Auth provider whose session is required (default: the default provider) */
+    provider?: string;
+    /** Permission or claim requirement checked before the handler (FORBIDDEN when missing) */
+    requireClaims?: string | ClaimRequirement;
+};
+
+/**
+ * Translate TokenKit errors into ActionErrors with a matching code.
+ * Other errors are returned unchanged.
+ */
+export function toActionError(error: unknown): unknown {
+    if (error instanceof ActionError) return error;
+
+    let code: ActionErrorCode | undefined;
+    if (error instanceof TimeoutError) {
+        code = 'GATEWAY_TIMEOUT';
+    } else if (error instanceof NetworkError) {
+        code = 'BAD_GATEWAY';
+    } else if (error instanceof APIError) {
+        code = error.status ? ActionError.statusToCode(error.status) : 'INTERNAL_SERVER_ERROR';
+    }
+
+    return code ? new ActionError({ code, message: (error as APIError).message }) : error;
+}
+
+/**
+ * defineAction() for actions that need a signed-in user. Binds the action
+ * context for the api client, rotates tokens through the TokenManager, and
+ * rejects calls without a session with UNAUTHORIZED.
+ */
+export function defineAuthAction<
+    TOutput,
+    TAccept extends ActionAccept | undefined = undefined,
+    TInputSchema extends z.ZodType | undefined = DefaultInputSchema<TAccept>,
+>(options: AuthActionOptions<TOutput, TAccept, TInputSchema>): ActionClient<TOutput, TAccept, TInputSchema> & string;
+export function defineAuthAction(options: AuthActionOptions<unknown, ActionAccept | undefined, z.ZodType | undefined>) {
+    const { handler, provider, requireClaims, ...definition } = options;
+
+    return defineAction({
+        ...definition,
+        handler: (input: unknown, context: ActionAPIContext) => runWithContext(context, async () => {
+            const tokenManager = getTokenManager(provider);
+            if (!tokenManager) {
+                throw new ActionError({ code: 'INTERNAL_SERVER_ERROR', message: 'TokenKit auth is not configured' });
+            }
+
+            try {
+                const session = await tokenManager.ensure(context);
+                if (!session) {
+                    throw new ActionError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+                }
+
+                if (requireClaims && !satisfiesClaims(tokenManager.getClaims(session), toClaimRequirement(requireClaims))) {
+                    throw new ActionError({ code: 'FORBIDDEN', message: 'Insufficient permissions' });
+                }
+
+                return await handler(input, context, session);
+            } catch (error) {
+                throw toActionError(error);
+            }
+        }),
+    });
+}
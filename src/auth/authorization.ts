@@ -0,0 +1,103 @@
+// packages/astro-tokenkit/src/auth/authorization.ts
+
+import type { ClaimRequirement, ClaimsMapping, SessionClaims } from '../types';
+
+/**
+ * Common claim paths for roles (Keycloak realm roles included)
+ */
+const ROLE_CLAIMS = [
+    'roles',
+    'role',
+    'realm_access.roles',
+];
+
+/**
+ * Common claim paths for permissions (OAuth2 scope included)
+ */
+const PERMISSION_CLAIMS = [
+    'permissions',
+    'scope',
+    'scp',
+];
+
+/**
+ * Namespaced claims (e.g. Auth0 'https://example.com/roles')
+ */
+const NAMESPACED_ROLES = /^https?:\/\/.+\/roles$/;
+const NAMESPACED_PERMISSIONS = /^https?:\/\/.+\/permissions$/;
+
+/**
+ * Read a claim by dot-separated path. Keys containing dots (namespaced
+ * claims) are matched before descending.
+ */
+export function getClaim(payload: Record<string, any> | undefined | null, path: string): unknown {
+    if (!payload || typeof payload !== 'object') return undefined;
+    if (path in payload) return payload[path];
+
+    const parts = path.split('.');
+    for (let i = parts.length - 1; i > 0; i--) {
+        const key = parts.slice(0, i).join('.');
+        if (key in payload) {
+            return getClaim(payload[key], parts.slice(i).join('.'));
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Collect string values from claims holding arrays or space-separated strings
+ */
+function collectValues(payload: Record<string, any> | undefined, paths: string[], namespaced?: RegExp): string[] {
+    const keys = [...paths];
+    if (namespaced && payload) {
+        keys.push(...Object.keys(payload).filter((key) => namespaced.test(key)));
+    }
+
+    const values = new Set<string>();
+    for (const key of keys) {
+        const value = getClaim(payload, key);
+        const entries = typeof value === 'string' ? value.split(/\s+/) : Array.isArray(value) ? value : [];
+        for (const entry of entries) {
+            if (typeof entry === 'string' && entry) values.add(entry);
+        }
+    }
+    return [...values];
+}
+
+function toPaths(value: string | string[]): string[] {
+    return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Extract roles and permissions from a session payload
+ */
+export function extractClaims(payload: Record<string, any> | undefined, mapping: ClaimsMapping = {}): SessionClaims {
+    return {
+        roles: mapping.roles
+            ? collectValues(payload, toPaths(mapping.roles))
+            : collectValues(payload, ROLE_CLAIMS, NAMESPACED_ROLES),
+        permissions: mapping.permissions
+            ? collectValues(payload, toPaths(mapping.permissions))
+            : collectValues(payload, PERMISSION_CLAIMS, NAMESPACED_PERMISSIONS),
+    };
+}
+
+/**
+ * Normalize a permission shorthand into a requirement
+ */
+export function toClaimRequirement(requirement: string | ClaimRequirement): ClaimRequirement {
+    return typeof requirement === 'string' ? { permissions: [requirement] } : requirement;
+}
+
+/**
+ * Check claims against a requirement: any of the roles and all of the permissions
+ */
+export function satisfiesClaims(claims: SessionClaims, requirement: ClaimRequirement): boolean {
+    if (requirement.roles?.length && !requirement.roles.some((role) => claims.roles.includes(role))) {
+        return false;
+    }
+    if (requirement.permissions?.length && !requirement.permissions.every((permission) => claims.permissions.includes(permission))) {
+        return false;
+    }
+    return true;
+}
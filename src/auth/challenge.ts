@@ -0,0 +1,180 @@
+// packages/astro-tokenkit/src/auth/challenge.ts
+
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { LoginChallenge, LoginChallengeConfig, LoginChallengeStore, PendingLoginChallenge, TokenBundle } from '../types';
+import { parseTime } from '../utils/time';
+
+/**
+ * Default time a challenge can be completed (seconds)
+ */
+const DEFAULT_CHALLENGE_TTL = 5 * 60;
+
+/**
+ * Default verification attempts before a challenge expires
+ */
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+/**
+ * Common field names flagging a challenge response
+ */
+const CHALLENGE_REQUIRED_FIELDS = [
+    'mfa_required',
+    'mfaRequired',
+    'challenge_required',
+    'challengeRequired',
+];
+
+/**
+ * Common field names for the challenge id
+ */
+const CHALLENGE_ID_FIELDS = [
+    'challenge_id',
+    'challengeId',
+    'mfa_token',
+    'mfaToken',
+];
+
+/**
+ * Common field names for the challenge method
+ */
+const CHALLENGE_METHOD_FIELDS = [
+    'challenge_type',
+    'challengeType',
+    'mfa_type',
+    'mfaType',
+    'method',
+];
+
+/**
+ * In-memory pending challenge store. Suitable for a single server process.
+ */
+export class MemoryLoginChallengeStore implements LoginChallengeStore {
+    private challenges = new Map<string, PendingLoginChallenge>();
+
+    constructor(private readonly maxEntries = 10000) {}
+
+    get(challengeId: string): PendingLoginChallenge | undefined {
+        const challenge = this.challenges.get(challengeId);
+        if (challenge && challenge.expiresAt <= Math.floor(Date.now() / 1000)) {
+            this.challenges.delete(challengeId);
+            return undefined;
+        }
+        return challenge;
+    }
+
+    set(challengeId: string, challenge: PendingLoginChallenge): void {
+        const now = Math.floor(Date.now() / 1000);
+        if (this.challenges.size >= this.maxEntries) {
+            for (const [id, pending] of this.challenges) {
+                if (pending.expiresAt <= now) this.challenges.delete(id);
+            }
+        }
+        while (this.challenges.size >= this.maxEntries) {
+            const oldest = this.challenges.keys().next().value;
+            if (oldest === undefined) break;
+            this.challenges.delete(oldest);
+        }
+        this.challenges.set(challengeId, challenge);
+    }
+
+    delete(challengeId: string): void {
+        this.challenges.delete(challengeId);
+    }
+
+    increment(challengeId: string): PendingLoginChallenge | undefined {
+        const challenge = this.get(challengeId);
+        if (!challenge) return undefined;
+
+        const counted = { ...challenge, attempts: (challenge.attempts ?? 0) + 1 };
+        this.challenges.set(challengeId, counted);
+        return counted;
+    }
+}
+
+/**
+ * Process-wide default store, shared by every TokenManager
+ */
+const CHALLENGE_STORE_KEY = Symbol.for('astro-tokenkit.login-challenges');
+const globalStorage = globalThis as any;
+
+export function getDefaultChallengeStore(): LoginChallengeStore {
+    if (!globalStorage[CHALLENGE_STORE_KEY]) {
+        globalStorage[CHALLENGE_STORE_KEY] = new MemoryLoginChallengeStore();
+    }
+    return globalStorage[CHALLENGE_STORE_KEY];
+}
+
+/**
+ * Clear the default challenge store (mainly for testing)
+ */
+export function clearDefaultChallengeStore(): void {
+    globalStorage[CHALLENGE_STORE_KEY] = undefined;
+}
+
+/**
+ * Detect a challenge response, returning its id and method
+ */
+export function detectLoginChallenge(body: any, config: LoginChallengeConfig): { challengeId: string; method?: string } | null {
+    if (!body || typeof body !== 'object') return null;
+
+    const required = config.detect
+        ? config.detect(body)
+        : CHALLENGE_REQUIRED_FIELDS.some((field) => !!body[field]);
+    if (!required) return null;
+
+    const idFields = config.challengeIdField ? [config.challengeIdField] : CHALLENGE_ID_FIELDS;
+    const challengeId = idFields.map((field) => body[field]).find((value) => value !== undefined && value !== null && value !== '');
+    if (challengeId === undefined) {
+        throw new Error(`Could not detect challenge id field. Tried: ${idFields.join(', ')}.`);
+    }
+
+    const method = CHALLENGE_METHOD_FIELDS.map((field) => body[field]).find((value) => typeof value === 'string');
+    return { challengeId: String(challengeId), method };
+}
+
+/**
+ * Narrow a login result to a LoginChallenge
+ */
+export function isLoginChallenge(data: TokenBundle | LoginChallenge | null | undefined): data is LoginChallenge {
+    return !!data && (data as LoginChallenge).type === 'challenge';
+}
+
+/**
+ * Seconds a challenge can be completed
+ */
+export function getChallengeTTL(config: LoginChallengeConfig): number {
+    return config.ttl !== undefined ? parseTime(config.ttl) : DEFAULT_CHALLENGE_TTL;
+}
+
+/**
+ * Verification attempts allowed per challenge
+ */
+export function getChallengeMaxAttempts(config: LoginChallengeConfig): number {
+    return config.maxAttempts !== undefined && config.maxAttempts > 0 ? config.maxAttempts : DEFAULT_MAX_ATTEMPTS;
+}
+
+/**
+ * Cookie binding a pending challenge to the browser that started it
+ */
+export function getChallengeCookieName(prefix?: string): string {
+    return prefix ? `${prefix}_login_challenge` : 'login_challenge';
+}
+
+export function createChallengeBinding(): { binding: string; bindingHash: string } {
+    const binding = randomBytes(32).toString('base64url');
+    return { binding, bindingHash: hashBinding(binding) };
+}
+
+/**
+ * Check a challenge cookie value against the stored hash in constant time
+ */
+export function bindingMatches(binding: string | undefined, bindingHash: string): boolean {
+    if (!binding) return false;
+    const actual = Buffer.from(hashBinding(binding));
+    const expected = Buffer.from(bindingHash);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function hashBinding(binding: string): string {
+    return createHash('sha256').update(binding).digest('base64url');
+}
@@ -0,0 +1,193 @@
+// packages/astro-tokenkit/src/auth/client-credentials.ts
+
+import type { AppToken, AuthConfig } from '../types';
+import { AuthError } from '../types';
+import { SingleFlight } from './manager';
+import { autoDetectFields } from './detector';
+import { applyDiscovery, discover } from './discovery';
+import { isExpired, shouldRefresh } from './policy';
+import { applyClientAuthentication, formatScope } from './oauth';
+import { safeFetch } from '../utils/fetch';
+import { logger } from '../utils/logger';
+
+/**
+ * Process-wide app token cache keyed by token endpoint, client and scope.
+ * Stored on globalThis so every client with the same credentials shares it.
+ */
+const APP_TOKENS_KEY = Symbol.for('astro-tokenkit.app-tokens');
+const globalStorage = globalThis as any;
+
+if (!globalStorage[APP_TOKENS_KEY]) {
+    globalStorage[APP_TOKENS_KEY] = {
+        tokens: new Map<string, AppToken>(),
+        singleFlight: new SingleFlight<AppToken>(),
+    };
+}
+
+const appTokens = globalStorage[APP_TOKENS_KEY] as {
+    tokens: Map<string, AppToken>;
+    singleFlight: SingleFlight<AppToken>;
+};
+
+/**
+ * Clear cached app tokens (mainly for testing)
+ */
+export function clearAppTokenCache(): void {
+    appTokens.tokens.clear();
+    appTokens.singleFlight = new SingleFlight<AppToken>();
+}
+
+/**
+ * Obtains and caches application tokens through the OAuth 2.0
+ * client-credentials grant. No Astro context or cookies are involved.
+ */
+export class ClientCredentialsManager {
+    private discovered = false;
+
+    constructor(
+        private config: AuthConfig,
+        private baseURL: string
+    ) {}
+
+    /**
+     * Get a valid app token, fetching a new one when it is missing,
+     * expired or due for a proactive refresh under the refresh policy.
+     */
+    async getToken(): Promise<AppToken> {
+        await this.discover();
+
+        const key = this.getCacheKey();
+        const now = Math.floor(Date.now() / 1000);
+        const current = appTokens.tokens.get(key);
+
+        if (current && !isExpired(current.expiresAt, now, this.config.policy)) {
+            if (!shouldRefresh(current.expiresAt, now, current.issuedAt, this.config.policy)) {
+                return current;
+            }
+
+            try {
+                return await this.fetchToken(key);
+            } catch (error: any) {
+                logger.debug('[TokenKit][client_credentials] proactive refresh failed, using current token:', !!this.config.debug, error.message);
+                return current;
+            }
+        }
+
+        return this.fetchToken(key);
+    }
+
+    /**
+     * Drop the cached token (e.g. after the API rejected it with 401)
+     */
+    invalidate(): void {
+        const key = this.getCacheKey();
+        appTokens.tokens.delete(key);
+        appTokens.singleFlight.forget(key);
+    }
+
+    private async fetchToken(key: string): Promise<AppToken> {
+        const token = await appTokens.singleFlight.execute(key, () => this.requestToken());
+        if (!token) {
+            throw new AuthError('Client credentials grant returned no token', 401);
+        }
+
+        appTokens.tokens.set(key, token);
+        return token;
+    }
+
+    private async requestToken(): Promise<AppToken> {
+        const { clientId, clientSecret } = this.config;
+        if (!clientId) {
+            throw new AuthError('auth.clientId is required for the client_credentials grant', 500);
+        }
+
+        const url = this.getTokenURL();
+        const scope = formatScope(this.config.scope);
+        const useBasic = this.config.clientAuth === 'basic';
+        const data: Record<string, string> = {
+            grant_type: 'client_credentials',
+            ...(scope ? { scope } : {}),
+        };
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Accept': 'application/json',
+            ...this.config.headers,
+        };
+        applyClientAuthentication(data, headers, { clientId, clientSecret, clientAuth: this.config.clientAuth });
+
+        const timeout = this.config.timeout ?? 30000;
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+        logger.debug('[TokenKit][client_credentials] requesting app token', !!this.config.debug, {
+            url,
+            clientAuth: useBasic ? 'basic' : 'body',
+            hasScope: !!scope,
+        });
+
+        let response: Response;
+        try {
+            response = await safeFetch(url, {
+                method: 'POST',
+                headers,
+                body: new URLSearchParams(data).toString(),
+                signal: controller.signal,
+            }, this.config);
+        } catch (error: any) {
+            throw new AuthError(`Client credentials request failed: ${error.message}`, undefined, undefined, undefined, error);
+        } finally {
+            clearTimeout(timeoutId);
+        }
+
+        if (!response.ok) {
+            throw new AuthError(`Client credentials grant failed: ${response.status} ${response.statusText}`, response.status, response);
+        }
+
+        const body = await response.json().catch(() => ({}));
+
+        let bundle;
+        try {
+            bundle = this.config.parseLogin
+                ? this.config.parseLogin(body)
+                : autoDetectFields(body, this.config.fields, { requireRefreshToken: false });
+        } catch (error: any) {
+            throw new AuthError(`Invalid client credentials response: ${error.message}`, response.status, response);
+        }
+
+        return {
+            accessToken: bundle.accessToken,
+            tokenType: bundle.tokenType,
+            expiresAt: bundle.accessExpiresAt,
+            issuedAt: Math.floor(Date.now() / 1000),
+            scope: typeof body?.scope === 'string' ? body.scope : scope,
+        };
+    }
+
+    private async discover(): Promise<void> {
+        if (this.discovered || !this.config.issuer) return;
+
+        const document = await discover(this.config.issuer, this.config);
+        this.config = applyDiscovery(this.config, document);
+        this.discovered = true;
+    }
+
+    private getTokenURL(): string {
+        const endpoint = this.config.login;
+        if (!endpoint) {
+            throw new AuthError(`auth.login (token endpoint) is not configured${this.config.issuer ? ' and was not discovered' : ''}`, 500);
+        }
+
+        if (/^https?:\/\//i.test(endpoint)) return endpoint;
+        const base = this.baseURL.endsWith('/') ? this.baseURL : this.baseURL + '/';
+        return base + (endpoint.startsWith('/') ? endpoint.slice(1) : endpoint);
+    }
+
+    private getCacheKey(): string {
+        return [
+            this.config.issuer ?? this.baseURL,
+            this.config.login ?? '',
+            this.config.clientId ?? '',
+            formatScope(this.config.scope) ?? '',
+        ].join('|');
+    }
+}
@@ -0,0 +1,165 @@
+// packages/astro-tokenkit/src/auth/csrf.ts
+
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import type { CookieConfig, CsrfConfig, TokenKitConfig, TokenKitContext } from '../types';
+import { getContextStore } from '../client/context';
+import { getConfig } from '../config';
+import { getCookieOptions } from './storage';
+import { matchesRoute } from '../utils/routes';
+
+export const DEFAULT_CSRF_COOKIE = 'csrf_token';
+export const DEFAULT_CSRF_HEADER = 'x-csrf-token';
+export const DEFAULT_CSRF_FIELD = '_csrf';
+
+/**
+ * Session key holding the synchronizer token
+ */
+const CSRF_SESSION_KEY = 'tokenkit_csrf';
+
+/**
+ * Methods that never change state and are not checked
+ */
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'TRACE']);
+
+/**
+ * Token of the current request, set by the middleware
+ */
+const requestTokens = new WeakMap<object, string>();
+
+/**
+ * CSRF config as an object, or null when disabled
+ */
+export function getCsrfConfig(config: TokenKitConfig): CsrfConfig | null {
+    if (!config.csrf) return null;
+    return config.csrf === true ? {} : config.csrf;
+}
+
+function createToken(): string {
+    return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Read the request's token, issuing a new one when there is none.
+ * The double-submit cookie takes its attributes from the auth cookie config.
+ */
+export async function ensureCsrfToken(ctx: TokenKitContext, csrf: CsrfConfig, cookies: CookieConfig = {}): Promise<string> {
+    let token: string | undefined;
+
+    if (csrf.strategy === 'synchronizer') {
+        if (!ctx.session?.get || !ctx.session?.set) {
+            throw new Error('[TokenKit] csrf.strategy "synchronizer" requires Astro sessions (ctx.session).');
+        }
+        token = await ctx.session.get(CSRF_SESSION_KEY);
+        if (typeof token !== 'string' || !token) {
+            token = createToken();
+            await ctx.session.set(CSRF_SESSION_KEY, token);
+        }
+    } else {
+        const cookieName = csrf.cookieName ?? DEFAULT_CSRF_COOKIE;
+        token = ctx.cookies.get(cookieName)?.value;
+        if (!token) {
+            token = createToken();
+            const options = getCookieOptions(cookies);
+            // Readable by scripts so fetch() calls can echo it in the header
+            ctx.cookies.set(cookieName, token, {
+                ...options,
+                path: '/',
+                httpOnly: false,
+                secure: cookies.secure ?? (options.secure || ctx.url?.protocol === 'https:'),
+            });
+        }
+    }
+
+    requestTokens.set(ctx, token);
+    return token;
+}
+
+/**
+ * Whether a request must carry a valid token
+ */
+export function requiresCsrfCheck(method: string, pathname: string, csrf: CsrfConfig): boolean {
+    if (SAFE_METHODS.has(method.toUpperCase())) return false;
+    if (csrf.exclude && matchesRoute(pathname, csrf.exclude)) return false;
+    return matchesRoute(pathname, csrf.include ?? ['/**']);
+}
+
+/**
+ * Check Origin (or Referer) and the submitted token. Returns the reason a
+ * request is rejected, or null when it passes.
+ */
+export async function verifyCsrfRequest(ctx: TokenKitContext, expected: string, csrf: CsrfConfig): Promise<string | null> {
+    const request: Request = ctx.request;
+    const url: URL = ctx.url ?? new URL(request.url);
+
+    if (csrf.checkOrigin !== false) {
+        const source = request.headers.get('origin') ?? getOrigin(request.headers.get('referer'));
+        const trusted = new Set([url.origin, ...(csrf.trustedOrigins ?? [])]);
+        if (source && !trusted.has(source)) {
+            return `untrusted origin ${source}`;
+        }
+    }
+
+    const submitted = request.headers.get(csrf.headerName ?? DEFAULT_CSRF_HEADER)
+        ?? await readFormToken(request, csrf.fieldName ?? DEFAULT_CSRF_FIELD);
+    if (!submitted) {
+        return 'missing token';
+    }
+
+    const actual = Buffer.from(submitted);
+    const wanted = Buffer.from(expected);
+    if (actual.length !== wanted.length || !timingSafeEqual(actual, wanted)) {
+        return 'invalid token';
+    }
+
+    return null;
+}
+
+function getOrigin(referer: string | null): string | null {
+    if (!referer) return null;
+    try {
+        return new URL(referer).origin;
+    } catch {
+        return 'null';
+    }
+}
+
+/**
+ * Read the token field of a form body without consuming the request
+ */
+async function readFormToken(request: Request, fieldName: string): Promise<string | null> {
+    const contentType = request.headers.get('content-type') ?? '';
+    if (!contentType.includes('application/x-www-form-urlencoded') && !contentType.includes('multipart/form-data')) {
+        return null;
+    }
+
+    try {
+        const value = (await request.clone().formData()).get(fieldName);
+        return typeof value === 'string' ? value : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * CSRF token of the current request, for forms and fetch() headers.
+ * Returns null when CSRF protection is disabled or the middleware did not run.
+ */
+export function getCsrfToken(ctx: TokenKitContext = getContextStore()): string | null {
+    return requestTokens.get(ctx) ?? null;
+}
+
+/**
+ * Hidden form input carrying the CSRF token of the current request.
+ * Render it with `<Fragment set:html={csrfField()} />`.
+ */
+export function csrfField(ctx?: TokenKitContext): string {
+    const token = getCsrfToken(ctx);
+    if (!token) return '';
+
+    const fieldName = getCsrfConfig(getConfig())?.fieldName ?? DEFAULT_CSRF_FIELD;
+    return `<input type="hidden" name="${escapeAttribute(fieldName)}" value="${escapeAttribute(token)}">`;
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -14,6 +14,14 @@ const ACCESS_TOKEN_FIELDS = [
     'idToken',
 ];
 
+/**
+ * Common field names for OpenID Connect ID tokens
+ */
+const ID_TOKEN_FIELDS = [
+    'id_token',
+    'idToken',
+];
+
 /**
  * Common field names for refresh tokens
  */
@@ -60,10 +68,25 @@ const SESSION_PAYLOAD_FIELDS = [
     'data',
 ];
 
+/**
+ * Absolute timestamps above this are taken to be in milliseconds
+ */
+const MILLISECOND_TIMESTAMP_THRESHOLD = 1e12;
+
+/**
+ * Auto-detection options
+ */
+export interface AutoDetectOptions {
+    /** Whether a missing refresh token is an error (default: true) */
+    requireRefreshToken?: boolean;
+    /** Whether a missing expiration is an error (default: true). When false, accessExpiresAt is 0. */
+    requireExpiry?: boolean;
+}
+
 /**
  * Auto-detect token fields from response body
  */
-export function autoDetectFields(body: any, fieldMapping?: FieldMapping): TokenBundle {
+export function autoDetectFields<TUser extends Record<string, any> = Record<string, any>>(body: any, fieldMapping?: FieldMapping, options: AutoDetectOptions = {}): TokenBundle<TUser> {
     // Helper to find field
     const findField = (candidates: string[], mapping?: string): any => {
         if (mapping && body[mapping] !== undefined) {
@@ -88,7 +111,7 @@ export function autoDetectFields(body: any, fieldMapping?: FieldMapping): TokenB
 
     // Detect refresh token
     const refreshToken = findField(REFRESH_TOKEN_FIELDS, fieldMapping?.refreshToken);
-    if (!refreshToken) {
+    if (!refreshToken && options.requireRefreshToken !== false) {
         throw new Error(
             `Could not detect refresh token field. Tried: ${REFRESH_TOKEN_FIELDS.join(', ')}. ` +
             `Provide custom parseLogin/parseRefresh or field mapping.`
@@ -98,12 +121,10 @@ export function autoDetectFields(body: any, fieldMapping?: FieldMapping): TokenB
     // Detect expiration
     let accessExpiresAt: number | undefined;
 
-    // Try expires_at first (timestamp)
+    // Try expires_at first (timestamp in seconds, milliseconds, or ISO-8601)
     const expiresAtValue = findField(EXPIRES_AT_FIELDS, fieldMapping?.expiresAt);
     if (expiresAtValue !== undefined) {
-        accessExpiresAt = typeof expiresAtValue === 'number'
-            ? expiresAtValue
-            : parseInt(expiresAtValue, 10);
+        accessExpiresAt = parseTimestamp(expiresAtValue);
     }
 
     // Try expires_in (seconds from now)
@@ -113,32 +134,78 @@ export function autoDetectFields(body: any, fieldMapping?: FieldMapping): TokenB
             const expiresIn = typeof expiresInValue === 'number'
                 ? expiresInValue
                 : parseInt(expiresInValue, 10);
-            accessExpiresAt = Math.floor(Date.now() / 1000) + expiresIn;
+            if (Number.isFinite(expiresIn)) {
+                accessExpiresAt = Math.floor(Date.now() / 1000) + expiresIn;
+            }
         }
     }
 
+    // Fall back to the exp claim of a JWT access token
     if (accessExpiresAt === undefined) {
+        accessExpiresAt = getJWTExpiry(accessToken);
+    }
+
+    if (accessExpiresAt === undefined && options.requireExpiry !== false) {
         throw new Error(
-            `Could not detect expiration field. Tried: ${[...EXPIRES_AT_FIELDS, ...EXPIRES_IN_FIELDS].join(', ')}. ` +
+            `Could not detect expiration field. Tried: ${[...EXPIRES_AT_FIELDS, ...EXPIRES_IN_FIELDS].join(', ')} and the access token exp claim. ` +
             `Provide custom parseLogin/parseRefresh or field mapping.`
         );
     }
 
+    // Refresh tokens that are JWTs carry their own expiry
+    const refreshExpiresAt = refreshToken ? getJWTExpiry(refreshToken) : undefined;
+
     // Detect session payload (optional)
     const sessionPayload = findField(SESSION_PAYLOAD_FIELDS, fieldMapping?.sessionPayload);
 
     // Detect token type (optional)
     const tokenType = findField(TOKEN_TYPE_FIELDS, fieldMapping?.tokenType);
 
+    // Detect ID token (optional, only when it is not already the access token)
+    const idToken = findField(ID_TOKEN_FIELDS, fieldMapping?.idToken);
+
     return {
         accessToken,
-        refreshToken,
-        accessExpiresAt,
+        refreshToken: refreshToken || '',
+        accessExpiresAt: accessExpiresAt ?? 0,
+        ...(refreshExpiresAt !== undefined ? { refreshExpiresAt } : {}),
         tokenType: tokenType || undefined,
         sessionPayload: sessionPayload || undefined,
+        idToken: idToken && idToken !== accessToken ? idToken : undefined,
     };
 }
 
+/**
+ * Parse an absolute expiry into Unix seconds. Accepts seconds, milliseconds,
+ * numeric strings, and ISO-8601 date strings.
+ */
+function parseTimestamp(value: unknown): number | undefined {
+    if (typeof value === 'string') {
+        const trimmed = value.trim();
+        if (!trimmed) return undefined;
+        if (!/^\d+(\.\d+)?$/.test(trimmed)) {
+            const parsed = Date.parse(trimmed);
+            return Number.isNaN(parsed) ? undefined : Math.floor(parsed / 1000);
+        }
+        value = Number(trimmed);
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return undefined;
+    }
+
+    return Math.floor(value > MILLISECOND_TIMESTAMP_THRESHOLD ? value / 1000 : value);
+}
+
+/**
+ * Read the exp claim of a JWT, if the token is one
+ */
+export function getJWTExpiry(token: unknown): number | undefined {
+    if (typeof token !== 'string') return undefined;
+    const exp = parseJWTPayload(token)?.exp;
+    return typeof exp === 'number' && Number.isFinite(exp) ? exp : undefined;
+}
+
 /**
  * Parse JWT payload without verification (for reading only)
  */
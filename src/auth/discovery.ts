@@ -0,0 +1,132 @@
+// packages/astro-tokenkit/src/auth/discovery.ts
+
+import type { AuthConfig, OIDCDiscoveryDocument } from '../types';
+import { AuthError } from '../types';
+import { safeFetch } from '../utils/fetch';
+
+/**
+ * Process-wide discovery cache, keyed by normalized issuer.
+ * Stored on globalThis so separately bundled entrypoints share it.
+ */
+const DISCOVERY_KEY = Symbol.for('astro-tokenkit.discovery');
+const globalStorage = globalThis as any;
+
+if (!globalStorage[DISCOVERY_KEY]) {
+    globalStorage[DISCOVERY_KEY] = new Map<string, Promise<OIDCDiscoveryDocument>>();
+}
+
+const cache = globalStorage[DISCOVERY_KEY] as Map<string, Promise<OIDCDiscoveryDocument>>;
+
+function normalizeIssuer(issuer: string): string {
+    return issuer.replace(/\/+$/, '');
+}
+
+/**
+ * Get the OpenID Connect discovery URL for an issuer
+ */
+export function getDiscoveryURL(issuer: string): string {
+    return `${normalizeIssuer(issuer)}/.well-known/openid-configuration`;
+}
+
+/**
+ * Validate an issuer URL, throwing a descriptive error when it is unusable
+ */
+export function assertValidIssuer(issuer: string): void {
+    let url: URL;
+    try {
+        url = new URL(issuer);
+    } catch {
+        throw new Error(`[TokenKit] Invalid auth.issuer "${issuer}". Use an absolute URL such as https://id.example.com/realms/app.`);
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new Error(`[TokenKit] Invalid auth.issuer "${issuer}". Only http(s) issuers are supported.`);
+    }
+}
+
+/**
+ * Fetch (or reuse) the discovery document for an issuer.
+ * Failed lookups are not cached so the next call retries.
+ */
+export function discover(issuer: string, config: AuthConfig): Promise<OIDCDiscoveryDocument> {
+    const key = normalizeIssuer(issuer);
+    const existing = cache.get(key);
+    if (existing) return existing;
+
+    const promise = fetchDiscoveryDocument(issuer, config).catch((error) => {
+        cache.delete(key);
+        throw error;
+    });
+
+    cache.set(key, promise);
+    return promise;
+}
+
+/**
+ * Clear cached discovery documents (mainly for testing)
+ */
+export function clearDiscoveryCache(): void {
+    cache.clear();
+}
+
+async function fetchDiscoveryDocument(issuer: string, config: AuthConfig): Promise<OIDCDiscoveryDocument> {
+    const url = getDiscoveryURL(issuer);
+    const timeout = config.timeout ?? 30000;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    let response: Response;
+    try {
+        response = await safeFetch(url, {
+            method: 'GET',
+            headers: { Accept: 'application/json' },
+            signal: controller.signal,
+        }, config);
+    } catch (error: any) {
+        throw new AuthError(`OpenID Connect discovery failed for ${issuer}: ${error.message}`, undefined, undefined, undefined, error);
+    } finally {
+        clearTimeout(timeoutId);
+    }
+
+    if (!response.ok) {
+        throw new AuthError(`OpenID Connect discovery failed for ${issuer}: ${response.status} ${response.statusText} from ${url}`, response.status, response);
+    }
+
+    const document = await response.json().catch(() => null);
+    if (!document || typeof document !== 'object') {
+        throw new AuthError(`OpenID Connect discovery failed for ${issuer}: ${url} did not return a JSON document`, response.status, response);
+    }
+
+    // OpenID Connect Discovery 1.0, section 4.3: the issuer must match exactly
+    if (typeof document.issuer === 'string' && normalizeIssuer(document.issuer) !== normalizeIssuer(issuer)) {
+        throw new AuthError(`OpenID Connect discovery failed for ${issuer}: document issuer "${document.issuer}" does not match`, response.status, response);
+    }
+
+    if (typeof document.token_endpoint !== 'string') {
+        throw new AuthError(`OpenID Connect discovery failed for ${issuer}: document has no token_endpoint`, response.status, response);
+    }
+
+    return document as OIDCDiscoveryDocument;
+}
+
+/**
+ * Fill endpoints that were not configured explicitly from a discovery document.
+ * Explicit configuration always wins. end_session_endpoint is a browser
+ * redirect rather than a back-channel endpoint, so logout revokes the tokens
+ * at revocation_endpoint instead.
+ */
+export function applyDiscovery(config: AuthConfig, document: OIDCDiscoveryDocument): AuthConfig {
+    return {
+        ...config,
+        login: config.login ?? document.token_endpoint,
+        refresh: config.refresh ?? document.token_endpoint,
+        revoke: config.revoke ?? (!config.logout && document.revocation_endpoint ? true : undefined),
+        oauth: config.oauth
+            ? {
+                ...config.oauth,
+                authorize: config.oauth.authorize ?? document.authorization_endpoint,
+                token: config.oauth.token ?? document.token_endpoint,
+            }
+            : undefined,
+    };
+}
@@ -0,0 +1,86 @@
+// packages/astro-tokenkit/src/auth/encryption.ts
+
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'node:crypto';
+import type { CookieEncryptionConfig, TokenStorageRecord } from '../types';
+
+/**
+ * Prefix of sealed values, bumped if the format ever changes
+ */
+const SEAL_VERSION = 'v1';
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * Derived AES-256 keys by secret, so HKDF runs once per secret
+ */
+const derivedKeys = new Map<string, Buffer>();
+
+function deriveKey(secret: string): Buffer {
+    let key = derivedKeys.get(secret);
+    if (!key) {
+        key = Buffer.from(hkdfSync('sha256', secret, '', 'astro-tokenkit cookie encryption', 32));
+        derivedKeys.set(secret, key);
+    }
+    return key;
+}
+
+/**
+ * Resolve the configured secrets, newest first
+ */
+export function getEncryptionSecrets(config: CookieEncryptionConfig): string[] {
+    const secrets = Array.isArray(config.secrets) ? config.secrets : [config.secrets];
+    if (secrets.length === 0) {
+        throw new Error('[TokenKit] storage.encryption.secrets must contain at least one secret.');
+    }
+    if (secrets.some((secret) => typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH)) {
+        throw new Error(`[TokenKit] storage.encryption secrets must be at least ${MIN_SECRET_LENGTH} characters long.`);
+    }
+    return secrets;
+}
+
+/**
+ * Seal a token record with AES-256-GCM under the first secret. The cookie
+ * name is authenticated too, so a sealed value cannot be moved to another cookie.
+ */
+export function sealRecord(record: TokenStorageRecord, secrets: string[], name: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', deriveKey(secrets[0]), iv);
+    cipher.setAAD(Buffer.from(name));
+
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(record), 'utf8'), cipher.final()]);
+    const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+    return `${SEAL_VERSION}.${payload.toString('base64url')}`;
+}
+
+/**
+ * Open a sealed token record, trying every secret. Returns null for
+ * malformed, tampered, or foreign values.
+ */
+export function unsealRecord(value: string, secrets: string[], name: string): TokenStorageRecord | null {
+    const [version, encoded] = value.split('.');
+    if (version !== SEAL_VERSION || !encoded) return null;
+
+    const payload = Buffer.from(encoded, 'base64url');
+    if (payload.length <= IV_LENGTH + TAG_LENGTH) return null;
+
+    const iv = payload.subarray(0, IV_LENGTH);
+    const tag = payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+    const ciphertext = payload.subarray(IV_LENGTH + TAG_LENGTH);
+
+    for (const secret of secrets) {
+        try {
+            const decipher = createDecipheriv('aes-256-gcm', deriveKey(secret), iv);
+            decipher.setAAD(Buffer.from(name));
+            decipher.setAuthTag(tag);
+            const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+            const record = JSON.parse(plaintext);
+            return record && typeof record === 'object' ? record as TokenStorageRecord : null;
+        } catch {
+            // Wrong secret or tampered value; try the next secret
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,107 @@
+// packages/astro-tokenkit/src/auth/exchange.ts
+
+import { createHash } from 'node:crypto';
+import type { AuthConfig, ExchangedToken, TokenExchangeOptions } from '../types';
+import { AuthError } from '../types';
+import { autoDetectFields } from './detector';
+import { applyClientAuthentication, formatScope } from './oauth';
+import { safeFetch } from '../utils/fetch';
+
+/**
+ * RFC 8693 grant type and default subject token type
+ */
+export const TOKEN_EXCHANGE_GRANT = 'urn:ietf:params:oauth:grant-type:token-exchange';
+export const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
+
+/**
+ * Resolve the scope for an exchange, falling back to exchange.scopes[audience]
+ */
+export function resolveExchangeScope(options: TokenExchangeOptions, config: AuthConfig): string | undefined {
+    return formatScope(options.scope ?? config.exchange?.scopes?.[options.audience]);
+}
+
+/**
+ * Cache key for an exchanged token. The subject token is hashed so raw
+ * session tokens are not kept as long-lived map keys.
+ */
+export function getExchangeCacheKey(subjectToken: string, options: TokenExchangeOptions, config: AuthConfig): string {
+    const subject = createHash('sha256').update(subjectToken).digest('base64url');
+    return [subject, options.audience, options.resource ?? '', resolveExchangeScope(options, config) ?? ''].join('|');
+}
+
+/**
+ * Exchange a subject token for an audience-specific token at the token endpoint
+ */
+export async function requestTokenExchange(
+    url: string,
+    subjectToken: string,
+    options: TokenExchangeOptions,
+    config: AuthConfig,
+    extraHeaders?: Record<string, string>
+): Promise<ExchangedToken> {
+    const exchange = config.exchange ?? {};
+    const scope = resolveExchangeScope(options, config);
+
+    const data: Record<string, string> = {
+        ...exchange.data,
+        grant_type: TOKEN_EXCHANGE_GRANT,
+        subject_token: subjectToken,
+        subject_token_type: exchange.subjectTokenType ?? ACCESS_TOKEN_TYPE,
+        audience: options.audience,
+        ...(options.resource ? { resource: options.resource } : {}),
+        ...(scope ? { scope } : {}),
+        ...(exchange.requestedTokenType ? { requested_token_type: exchange.requestedTokenType } : {}),
+    };
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+        ...config.headers,
+        ...extraHeaders,
+    };
+    applyClientAuthentication(data, headers, {
+        clientId: exchange.clientId ?? config.oauth?.clientId ?? config.clientId,
+        clientSecret: exchange.clientSecret ?? config.oauth?.clientSecret ?? config.clientSecret,
+        clientAuth: exchange.clientAuth,
+    });
+
+    const timeout = config.timeout ?? 30000;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    let response: Response;
+    try {
+        response = await safeFetch(url, {
+            method: 'POST',
+            headers,
+            body: new URLSearchParams(data).toString(),
+            signal: controller.signal,
+        }, config);
+    } catch (error: any) {
+        throw new AuthError(`Token exchange for ${options.audience} failed: ${error.message}`, undefined, undefined, undefined, error);
+    } finally {
+        clearTimeout(timeoutId);
+    }
+
+    if (!response.ok) {
+        throw new AuthError(`Token exchange for ${options.audience} failed: ${response.status} ${response.statusText}`, response.status, response);
+    }
+
+    const body = await response.json().catch(() => ({}));
+
+    let bundle;
+    try {
+        bundle = autoDetectFields(body, undefined, { requireRefreshToken: false });
+    } catch (error: any) {
+        throw new AuthError(`Invalid token exchange response: ${error.message}`, response.status, response);
+    }
+
+    return {
+        accessToken: bundle.accessToken,
+        tokenType: bundle.tokenType,
+        expiresAt: bundle.accessExpiresAt,
+        issuedAt: Math.floor(Date.now() / 1000),
+        scope: typeof body?.scope === 'string' ? body.scope : scope,
+        audience: options.audience,
+        issuedTokenType: typeof body?.issued_token_type === 'string' ? body.issued_token_type : undefined,
+    };
+}
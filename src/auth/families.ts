@@ -0,0 +1,113 @@
+// packages/astro-tokenkit/src/auth/families.ts
+
+import { createHash, randomUUID } from 'node:crypto';
+import type { RefreshTokenFamilyStore, RefreshTokenRecord, TokenBundle } from '../types';
+
+/**
+ * Records are kept this long when the refresh token lifetime is unknown
+ * (matches the default refresh cookie lifetime)
+ */
+const DEFAULT_RECORD_TTL = 7 * 24 * 60 * 60;
+
+/**
+ * In-memory refresh token family store. Suitable for a single server
+ * process; use a shared store (e.g. Redis) when running several instances.
+ */
+export class MemoryRefreshTokenFamilyStore implements RefreshTokenFamilyStore {
+    private records = new Map<string, RefreshTokenRecord>();
+    /** Revoked family ids and when the revocation can be forgotten */
+    private revokedFamilies = new Map<string, number>();
+
+    constructor(private readonly maxEntries = 10000) {}
+
+    get(tokenId: string): RefreshTokenRecord | undefined {
+        const record = this.records.get(tokenId);
+        if (record && record.expiresAt <= Math.floor(Date.now() / 1000)) {
+            this.records.delete(tokenId);
+            return undefined;
+        }
+        return record;
+    }
+
+    set(tokenId: string, record: RefreshTokenRecord): void {
+        this.prune();
+        this.records.delete(tokenId);
+        this.records.set(tokenId, record);
+    }
+
+    revokeFamily(familyId: string): void {
+        this.revokedFamilies.set(familyId, Math.floor(Date.now() / 1000) + DEFAULT_RECORD_TTL);
+    }
+
+    isFamilyRevoked(familyId: string): boolean {
+        const expiresAt = this.revokedFamilies.get(familyId);
+        if (expiresAt === undefined) return false;
+        if (expiresAt <= Math.floor(Date.now() / 1000)) {
+            this.revokedFamilies.delete(familyId);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Drop expired records, then the oldest ones when over capacity
+     */
+    private prune(): void {
+        const now = Math.floor(Date.now() / 1000);
+        if (this.records.size < this.maxEntries) return;
+
+        for (const [tokenId, record] of this.records) {
+            if (record.expiresAt <= now) this.records.delete(tokenId);
+        }
+        for (const [familyId, expiresAt] of this.revokedFamilies) {
+            if (expiresAt <= now) this.revokedFamilies.delete(familyId);
+        }
+        while (this.records.size >= this.maxEntries) {
+            const oldest = this.records.keys().next().value;
+            if (oldest === undefined) break;
+            this.records.delete(oldest);
+        }
+    }
+}
+
+/**
+ * Process-wide default store, shared by every TokenManager so the
+ * lineage survives setConfig() re-creating managers.
+ */
+const FAMILY_STORE_KEY = Symbol.for('astro-tokenkit.refresh-families');
+const globalStorage = globalThis as any;
+
+export function getDefaultFamilyStore(): RefreshTokenFamilyStore {
+    if (!globalStorage[FAMILY_STORE_KEY]) {
+        globalStorage[FAMILY_STORE_KEY] = new MemoryRefreshTokenFamilyStore();
+    }
+    return globalStorage[FAMILY_STORE_KEY];
+}
+
+/**
+ * Clear the default family store (mainly for testing)
+ */
+export function clearDefaultFamilyStore(): void {
+    globalStorage[FAMILY_STORE_KEY] = undefined;
+}
+
+/**
+ * Identify a refresh token without storing the token itself
+ */
+export function getRefreshTokenId(refreshToken: string): string {
+    return createHash('sha256').update(refreshToken).digest('base64url');
+}
+
+/**
+ * Create an identifier for a new token family
+ */
+export function createFamilyId(): string {
+    return randomUUID();
+}
+
+/**
+ * Unix timestamp until which a refresh token record must be kept
+ */
+export function getRecordExpiry(bundle: TokenBundle, now: number): number {
+    return bundle.refreshExpiresAt ?? now + DEFAULT_RECORD_TTL;
+}
@@ -0,0 +1,91 @@
+// packages/astro-tokenkit/src/auth/introspection.ts
+
+import type { AuthConfig, IntrospectionResult, TokenIntrospectionConfig } from '../types';
+import { AuthError } from '../types';
+import { applyClientAuthentication } from './oauth';
+import { safeFetch } from '../utils/fetch';
+import { parseTime } from '../utils/time';
+
+/**
+ * Results without exp (and without cacheTTL) are cached this long (seconds)
+ */
+const DEFAULT_CACHE_TTL = 5 * 60;
+
+/**
+ * Normalize auth.introspect (which may be `true` or an endpoint path) into a configuration object
+ */
+export function normalizeIntrospectionConfig(introspect: AuthConfig['introspect']): TokenIntrospectionConfig | null {
+    if (!introspect) return null;
+    if (introspect === true) return {};
+    return typeof introspect === 'string' ? { endpoint: introspect } : introspect;
+}
+
+/**
+ * Unix timestamp until which an introspection result may be reused
+ */
+export function getIntrospectionExpiry(result: IntrospectionResult, introspection: TokenIntrospectionConfig, now: number): number {
+    const exp = typeof result.exp === 'number' ? result.exp : undefined;
+    if (introspection.cacheTTL !== undefined) {
+        return Math.min(now + parseTime(introspection.cacheTTL), exp ?? Infinity);
+    }
+    return exp ?? now + DEFAULT_CACHE_TTL;
+}
+
+/**
+ * Introspect an access token at the introspection endpoint.
+ * Throws an AuthError when the endpoint cannot be reached, does not answer
+ * 2xx, or returns a body without a boolean `active` member.
+ */
+export async function introspectToken(
+    url: string,
+    token: string,
+    config: AuthConfig,
+    introspection: TokenIntrospectionConfig,
+    extraHeaders?: Record<string, string>
+): Promise<IntrospectionResult> {
+    const data: Record<string, string> = {
+        ...introspection.data,
+        token,
+        token_type_hint: 'access_token',
+    };
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+        ...config.headers,
+        ...extraHeaders,
+    };
+    applyClientAuthentication(data, headers, {
+        clientId: introspection.clientId ?? config.oauth?.clientId ?? config.clientId,
+        clientSecret: introspection.clientSecret ?? config.oauth?.clientSecret ?? config.clientSecret,
+        clientAuth: introspection.clientAuth,
+    });
+
+    const timeout = config.timeout ?? 30000;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    let response: Response;
+    try {
+        response = await safeFetch(url, {
+            method: 'POST',
+            headers,
+            body: new URLSearchParams(data).toString(),
+            signal: controller.signal,
+        }, config);
+    } catch (error: any) {
+        throw new AuthError(`Token introspection failed: ${error.message}`, undefined, undefined, undefined, error);
+    } finally {
+        clearTimeout(timeoutId);
+    }
+
+    if (!response.ok) {
+        throw new AuthError(`Token introspection failed: ${response.status} ${response.statusText}`, response.status, response);
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!body || typeof body !== 'object' || typeof body.active !== 'boolean') {
+        throw new AuthError('Invalid introspection response: missing boolean "active" member', response.status, response);
+    }
+
+    return body as IntrospectionResult;
+}
@@ -0,0 +1,279 @@
+// packages/astro-tokenkit/src/auth/lock.ts
+
+import { createHash, randomUUID } from 'node:crypto';
+import { link, mkdir, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { RefreshLockConfig, RefreshLockProvider, TokenBundle } from '../types';
+import { AuthError } from '../types';
+import { parseTime } from '../utils/time';
+
+/**
+ * Default time a rotated bundle is handed to waiting instances (seconds)
+ */
+const DEFAULT_RESULT_TTL = 30;
+
+/**
+ * Default delay between lock and result checks (ms)
+ */
+const DEFAULT_POLL_INTERVAL = 100;
+
+/**
+ * Extra lock lifetime on top of the auth timeout, so a lock outlives the
+ * refresh request it protects but not a crashed holder
+ */
+const LOCK_TTL_MARGIN = 5000;
+
+/**
+ * In-process refresh lock. Reference implementation of RefreshLockProvider;
+ * it does not coordinate separate processes.
+ */
+export class MemoryRefreshLock implements RefreshLockProvider {
+    private locks = new Map<string, number>();
+    private results = new Map<string, { bundle: TokenBundle; expiresAt: number }>();
+
+    acquire(key: string, ttlMs: number): boolean {
+        const now = Date.now();
+        const lockedUntil = this.locks.get(key);
+        if (lockedUntil !== undefined && lockedUntil > now) return false;
+
+        this.locks.set(key, now + ttlMs);
+        return true;
+    }
+
+    release(key: string): void {
+        this.locks.delete(key);
+    }
+
+    getResult(key: string): TokenBundle | undefined {
+        const result = this.results.get(key);
+        if (!result) return undefined;
+        if (result.expiresAt <= Date.now()) {
+            this.results.delete(key);
+            return undefined;
+        }
+        return result.bundle;
+    }
+
+    setResult(key: string, bundle: TokenBundle, ttlMs: number): void {
+        const now = Date.now();
+        for (const [resultKey, result] of this.results) {
+            if (result.expiresAt <= now) this.results.delete(resultKey);
+        }
+        this.results.set(key, { bundle, expiresAt: now + ttlMs });
+    }
+}
+
+/**
+ * Filesystem refresh lock for instances sharing a directory (same host or a
+ * shared volume). Lock and result files are named by hash and written with
+ * mode 0o600, since results contain tokens.
+ */
+export class FileSystemRefreshLock implements RefreshLockProvider {
+    private readonly directory: string;
+    private owned = new Map<string, string>();
+
+    constructor(options: { directory?: string } = {}) {
+        this.directory = options.directory ?? join(tmpdir(), 'astro-tokenkit-locks');
+    }
+
+    async acquire(key: string, ttlMs: number): Promise<boolean> {
+        await mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+        // The lock is written in full and then linked into place, so contenders never read a partial lock
+        const path = this.getPath(key, 'lock');
+        const owner = randomUUID();
+        const temporary = `${path}.${owner}.tmp`;
+        await writeFile(temporary, JSON.stringify({ owner, expiresAt: Date.now() + ttlMs }), { mode: 0o600 });
+
+        try {
+            for (let attempt = 0; attempt < 2; attempt++) {
+                if (await this.linkLock(temporary, path)) {
+                    // A contender taking over a stale lock at the same time may have moved ours
+                    const current = await this.readLock(path);
+                    if (current?.owner !== owner) return false;
+
+                    this.owned.set(key, owner);
+                    return true;
+                }
+
+                const current = await this.readLock(path);
+                if (current === undefined) continue;
+                // Unreadable locks count as held; only a parsed, expired lock is taken over
+                if (current === null || current.expiresAt > Date.now()) return false;
+                if (!await this.removeStaleLock(path, current.owner)) return false;
+            }
+            return false;
+        } finally {
+            await this.remove(temporary);
+        }
+    }
+
+    async release(key: string): Promise<void> {
+        const owner = this.owned.get(key);
+        this.owned.delete(key);
+        if (!owner) return;
+
+        const path = this.getPath(key, 'lock');
+        const current = await this.readJSON<{ owner?: string }>(path);
+        if (current?.owner === owner) {
+            await this.remove(path);
+        }
+    }
+
+    async getResult(key: string): Promise<TokenBundle | undefined> {
+        const path = this.getPath(key, 'result');
+        const result = await this.readJSON<{ bundle?: TokenBundle; expiresAt?: number }>(path);
+        if (!result?.bundle || typeof result.expiresAt !== 'number') return undefined;
+
+        if (result.expiresAt <= Date.now()) {
+            await this.remove(path);
+            return undefined;
+        }
+        return result.bundle;
+    }
+
+    async setResult(key: string, bundle: TokenBundle, ttlMs: number): Promise<void> {
+        await mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+        // Write then rename so readers never see a partial file
+        const path = this.getPath(key, 'result');
+        const temporary = `${path}.${randomUUID()}.tmp`;
+        await writeFile(temporary, JSON.stringify({ bundle, expiresAt: Date.now() + ttlMs }), { mode: 0o600 });
+        await rename(temporary, path);
+    }
+
+    private getPath(key: string, kind: 'lock' | 'result'): string {
+        const name = createHash('sha256').update(key).digest('hex');
+        return join(this.directory, `${name}.${kind}`);
+    }
+
+    /**
+     * Hard-link a complete lock file into place; false when a lock exists
+     */
+    private async linkLock(temporary: string, path: string): Promise<boolean> {
+        try {
+            await link(temporary, path);
+            return true;
+        } catch (error: any) {
+            if (error.code !== 'EEXIST') throw error;
+            return false;
+        }
+    }
+
+    /**
+     * Lock file contents: undefined when there is no lock, null when it cannot be parsed
+     */
+    private async readLock(path: string): Promise<{ owner: string; expiresAt: number } | null | undefined> {
+        let text: string;
+        try {
+            text = await readFile(path, 'utf8');
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return undefined;
+            throw error;
+        }
+
+        try {
+            const lock = JSON.parse(text);
+            return typeof lock?.owner === 'string' && typeof lock.expiresAt === 'number' ? lock : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Remove an expired lock of staleOwner. The lock is first moved aside, so
+     * a fresh lock linked by another contender in the meantime is put back.
+     */
+    private async removeStaleLock(path: string, staleOwner: string): Promise<boolean> {
+        const aside = `${path}.${randomUUID()}.stale`;
+        try {
+            await rename(path, aside);
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return true;
+            throw error;
+        }
+
+        const moved = await this.readLock(aside);
+        if (moved?.owner === staleOwner) {
+            await this.remove(aside);
+            return true;
+        }
+
+        await this.linkLock(aside, path);
+        await this.remove(aside);
+        return false;
+    }
+
+    private async readJSON<T>(path: string): Promise<T | null> {
+        try {
+            return JSON.parse(await readFile(path, 'utf8')) as T;
+        } catch {
+            return null;
+        }
+    }
+
+    private async remove(path: string): Promise<void> {
+        try {
+            await unlink(path);
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') throw error;
+        }
+    }
+}
+
+/**
+ * Result of a refresh run under the lock
+ */
+export interface LockedRefreshResult {
+    bundle: TokenBundle | null;
+    /** True when the bundle was rotated by another instance */
+    shared: boolean;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a refresh while holding the lock for this refresh token. Instances
+ * that lose the race wait for the holder and reuse the bundle it publishes.
+ */
+export async function withRefreshLock(
+    lock: RefreshLockConfig,
+    key: string,
+    authTimeoutMs: number,
+    run: () => Promise<TokenBundle | null>
+): Promise<LockedRefreshResult> {
+    const { provider } = lock;
+    const waitTimeout = lock.waitTimeout !== undefined ? parseTime(lock.waitTimeout) * 1000 : authTimeoutMs;
+    const pollInterval = lock.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    const resultTTL = (lock.resultTTL !== undefined ? parseTime(lock.resultTTL) : DEFAULT_RESULT_TTL) * 1000;
+    const deadline = Date.now() + waitTimeout;
+
+    while (true) {
+        const published = await provider.getResult(key);
+        if (published) return { bundle: published, shared: true };
+
+        if (await provider.acquire(key, authTimeoutMs + LOCK_TTL_MARGIN)) {
+            try {
+                // The previous holder may have published between our checks
+                const raced = await provider.getResult(key);
+                if (raced) return { bundle: raced, shared: true };
+
+                const bundle = await run();
+                if (bundle) {
+                    await provider.setResult(key, bundle, resultTTL);
+                }
+                return { bundle, shared: false };
+            } finally {
+                await provider.release(key);
+            }
+        }
+
+        if (Date.now() >= deadline) {
+            throw new AuthError('Timed out waiting for a refresh in another process');
+        }
+        await sleep(pollInterval);
+    }
+}
@@ -1,25 +1,50 @@
 // packages/astro-tokenkit/src/auth/manager.ts
 
 import {APIResponse, AuthError} from '../types';
-import type { TokenBundle, Session, AuthConfig, TokenKitContext, AuthOptions, LoginOptions, HeaderResolverOperation } from '../types';
+import type { TokenBundle, Session, SessionOf, TokenKitTypes, UserOf, ClaimsOf, LoginResponseOf, AuthConfig, TelemetrySpan, TokenKitEventListener, TokenKitEventName, TokenKitContext, AuthOptions, LoginOptions, HeaderResolverOperation, AuthorizeOptions, OAuthCallbackResult, OAuthConfig, OIDCDiscoveryDocument, ExchangedToken, TokenExchangeOptions, RefreshTokenFamilyStore, IntrospectionResult, LoginChallenge, LoginChallengeConfig, LoginChallengeStore, PendingLoginChallenge, ImpersonateOptions, TokenStorageRecord, ClaimRequirement, SessionClaims } from '../types';
+import { bindingMatches, createChallengeBinding, detectLoginChallenge, getChallengeCookieName, getChallengeMaxAttempts, getChallengeTTL, getDefaultChallengeStore } from './challenge';
 import { autoDetectFields, parseJWTPayload } from './detector';
-import { storeTokens, retrieveTokens, retrieveCookieTokens, clearTokens, clearCookieTokens } from './storage';
+import { applyDiscovery, discover } from './discovery';
+import { getExchangeCacheKey, requestTokenExchange } from './exchange';
+import { createFamilyId, getDefaultFamilyStore, getRecordExpiry, getRefreshTokenId } from './families';
+import { getIntrospectionExpiry, introspectToken, normalizeIntrospectionConfig } from './introspection';
+import { withRefreshLock } from './lock';
+import { DEFAULT_REVOKED_TOKENS, normalizeRevocationConfig, revokeToken } from './revocation';
+import { getClockTolerance, normalizeVerifyConfig, verifyJWT } from './verify';
+import { storeTokens, retrieveTokens, retrieveCookieTokens, clearTokens, clearCookieTokens, getCookieOptions, restoreTokens, retrieveImpersonator, storeImpersonator } from './storage';
+import { applyClientAuthentication, consumeOAuthState, createPkcePair, createState, formatScope, getRequestURL, resolveRedirectURI, statesMatch, storeOAuthState } from './oauth';
 import { normalizePolicy, shouldRefresh, isExpired } from './policy';
 import { safeFetch } from '../utils/fetch';
 import { logger } from '../utils/logger';
+import { EventBus, getEventBus, redactBundle, redactError } from '../utils/events';
+import { SPAN_KIND_CLIENT, SPAN_KIND_INTERNAL, injectTraceparent, setRequestAttributes, setResponseStatus, withSpan } from '../utils/tracing';
+import { sanitizeReturnTo } from '../utils/redirect';
+import { extractClaims, satisfiesClaims, toClaimRequirement } from './authorization';
+import { parseTime } from '../utils/time';
+
+/**
+ * Seconds a superseded refresh token is still accepted, so requests sent
+ * with the old cookie while a refresh was in flight are not treated as reuse
+ */
+const DEFAULT_REUSE_GRACE_PERIOD = 5;
+
+/**
+ * Token endpoint protocol fields that login credentials must not override
+ */
+const TOKEN_ENDPOINT_FIELDS = ['grant_type', 'client_id', 'client_secret', 'client_assertion', 'client_assertion_type', 'scope'];
 
 /**
  * Single-flight refresh manager
  */
-class SingleFlight {
-    private inFlight = new Map<string, Promise<TokenBundle | null>>();
-    private recent = new Map<string, { bundle: TokenBundle | null, time: number }>();
+export class SingleFlight<T = TokenBundle> {
+    private inFlight = new Map<string, Promise<T | null>>();
+    private recent = new Map<string, { bundle: T | null, time: number }>();
     private readonly GRACE_PERIOD = 5000; // 5 seconds grace period for race conditions
 
     async execute(
         key: string,
-        fn: () => Promise<TokenBundle | null>
-    ): Promise<TokenBundle | null> {
+        fn: () => Promise<T | null>
+    ): Promise<T | null> {
         // 1. Check in-flight
         const existing = this.inFlight.get(key);
         if (existing) return existing;
@@ -55,33 +80,127 @@ class SingleFlight {
         this.inFlight.set(key, promise);
         return promise;
     }
+
+    /**
+     * Forget a recently completed flight so the next call executes again
+     */
+    forget(key: string): void {
+        this.recent.delete(key);
+    }
 }
 
 /**
  * Token Manager handles all token operations
  */
-export class TokenManager {
-    private singleFlight = new SingleFlight();
+export class TokenManager<T extends TokenKitTypes = TokenKitTypes> {
+    private singleFlight = new SingleFlight<TokenBundle<UserOf<T>>>();
     private baseURL: string;
+    private discovery?: Promise<OIDCDiscoveryDocument | undefined>;
+    /** Endpoints filled from the discovered token_endpoint, which expect OAuth grant requests */
+    private discoveredGrants = new Set<'login' | 'refresh'>();
+    /** Challenges taken out of a store without increment() while their code is verified */
+    private verifyingChallenges = new Set<string>();
+    private verifiedTokens = new Map<string, Record<string, any>>();
+    /** Verified payloads of the sessions built from them, independent of the bounded token cache */
+    private verifiedSessions = new WeakMap<Session, Record<string, any>>();
+    private readonly MAX_VERIFIED_TOKENS = 1000;
+    private exchangeFlight = new SingleFlight<ExchangedToken>();
+    private exchangedTokens = new Map<string, ExchangedToken>();
+    private readonly MAX_EXCHANGED_TOKENS = 1000;
+    private introspectedTokens = new Map<string, { result: IntrospectionResult; expiresAt: number }>();
+    private readonly MAX_INTROSPECTED_TOKENS = 1000;
+    private events: EventBus;
 
+    /**
+     * @param events Bus that receives this manager's events as well (default: the global bus)
+     */
     constructor(
-        private config: AuthConfig,
-        baseURL: string
+        private config: AuthConfig<T>,
+        baseURL: string,
+        events: EventBus = getEventBus()
     ) {
         this.baseURL = baseURL;
+        this.events = new EventBus(events);
+    }
+
+    /**
+     * Subscribe to auth lifecycle events. Returns a function that removes the listener.
+     */
+    on<E extends TokenKitEventName>(event: E, listener: TokenKitEventListener<E>): () => void {
+        return this.events.on(event, listener);
+    }
+
+    /**
+     * Subscribe to the next occurrence of an auth lifecycle event only
+     */
+    once<E extends TokenKitEventName>(event: E, listener: TokenKitEventListener<E>): () => void {
+        return this.events.once(event, listener);
+    }
+
+    off<E extends TokenKitEventName>(event: E, listener: TokenKitEventListener<E>): void {
+        this.events.off(event, listener);
+    }
+
+    /**
+     * Deliver this manager's events to the listeners of another bus as well,
+     * e.g. of a client that shares this manager but keeps its own listeners
+     */
+    forwardEvents(events: EventBus): void {
+        this.events.forwardTo(events);
+    }
+
+    /**
+     * Resolve OpenID Connect discovery when auth.issuer is set and apply the
+     * discovered endpoints. Documents are cached per process; failures are
+     * not cached so the next auth operation retries.
+     */
+    async discover(): Promise<OIDCDiscoveryDocument | undefined> {
+        const issuer = this.config.issuer;
+        if (!issuer) return undefined;
+
+        if (!this.discovery) {
+            this.discovery = discover(issuer, this.config)
+                .then((document) => {
+                    if (!this.config.login) this.discoveredGrants.add('login');
+                    if (!this.config.refresh) this.discoveredGrants.add('refresh');
+                    this.config = applyDiscovery(this.config, document);
+                    this.debugAuth('OpenID Connect discovery applied', {
+                        issuer,
+                        hasAuthorizationEndpoint: !!document.authorization_endpoint,
+                        hasRevocationEndpoint: !!document.revocation_endpoint,
+                        hasEndSessionEndpoint: !!document.end_session_endpoint,
+                        hasJwksUri: !!document.jwks_uri,
+                    });
+                    return document;
+                })
+                .catch((error) => {
+                    this.discovery = undefined;
+                    throw error;
+                });
+        }
+
+        return this.discovery;
     }
 
     /**
      * Perform login
      */
-    async login(ctx: TokenKitContext, credentials: any, options?: LoginOptions): Promise<APIResponse<TokenBundle>> {
+    async login(ctx: TokenKitContext, credentials: any, options?: LoginOptions<LoginResponseOf<T>, UserOf<T>>): Promise<APIResponse<TokenBundle<UserOf<T>> | LoginChallenge>> {
+        return withSpan(this.config.tracer, 'tokenkit.login', { kind: SPAN_KIND_CLIENT }, (span) => this.performLogin(ctx, credentials, options, span));
+    }
+
+    private async performLogin(ctx: TokenKitContext, credentials: any, options?: LoginOptions<LoginResponseOf<T>, UserOf<T>>, span?: TelemetrySpan): Promise<APIResponse<TokenBundle<UserOf<T>> | LoginChallenge>> {
+        await this.discover();
+
         const url = this.withQueryParams(
-            this.joinURL(this.baseURL, this.config.login),
+            this.resolveEndpoint(this.requireEndpoint('login')),
             this.config.loginParams,
             options?.params
         );
 
-        const contentType = this.config.contentType || 'application/json';
+        // A discovered token endpoint expects the resource owner password grant
+        const tokenGrant = this.discoveredGrants.has('login');
+        const contentType = this.config.contentType || (tokenGrant ? 'application/x-www-form-urlencoded' : 'application/json');
         const resolvedHeaders = await this.resolveHeaders(ctx, 'login');
         const headers: Record<string, string> = {
             'Content-Type': contentType,
@@ -89,12 +208,22 @@ export class TokenManager {
             ...resolvedHeaders,
             ...options?.headers,
         };
-
-        const data = {
-            ...this.config.loginData,
-            ...options?.data,
-            ...credentials,
-        };
+        injectTraceparent(headers, span);
+        setRequestAttributes(span, 'POST', url);
+
+        // Protocol fields come last and are dropped from the (user-submitted) credentials
+        const data = tokenGrant
+            ? {
+                ...this.config.loginData,
+                ...options?.data,
+                ...Object.fromEntries(Object.entries(credentials ?? {}).filter(([key]) => !TOKEN_ENDPOINT_FIELDS.includes(key))),
+                ...this.getTokenEndpointData('password', headers),
+            }
+            : {
+                ...this.config.loginData,
+                ...options?.data,
+                ...credentials,
+            };
 
         let requestBody: string;
         if (contentType === 'application/x-www-form-urlencoded') {
@@ -132,12 +261,13 @@ export class TokenManager {
                 name: error.name,
             });
             const authError = new AuthError(`Login request failed: ${error.message}`, undefined, undefined, undefined, error);
-            if (options?.onError) await options.onError(authError, ctx);
+            await this.reportLoginError(ctx, authError, options);
             throw authError;
         } finally {
             clearTimeout(timeoutId);
         }
 
+        setResponseStatus(span, response.status);
         this.debugAuth('login response received', {
             status: response.status,
             statusText: response.statusText,
@@ -148,7 +278,7 @@ export class TokenManager {
 
         if (!response.ok) {
             const authError = new AuthError(`Login failed: ${response.status} ${response.statusText}`, response.status, response);
-            if (options?.onError) await options.onError(authError, ctx);
+            await this.reportLoginError(ctx, authError, options);
             throw authError;
         }
 
@@ -158,23 +288,57 @@ export class TokenManager {
             bodyKeys: body && typeof body === 'object' ? Object.keys(body) : [],
         });
 
+        const challenge = await this.detectChallenge(ctx, body, response, options);
+        if (challenge) {
+            return {
+                data: challenge,
+                status: response.status,
+                statusText: response.statusText,
+                headers: response.headers,
+                url: response.url,
+                ok: response.ok,
+            };
+        }
+
+        return this.acceptLoginResponse(ctx, response, body, options);
+    }
+
+    /**
+     * Parse, verify and store the tokens of a successful login response
+     */
+    private async acceptLoginResponse(
+        ctx: TokenKitContext,
+        response: Response,
+        body: any,
+        options?: LoginOptions<LoginResponseOf<T>, UserOf<T>>
+    ): Promise<APIResponse<TokenBundle<UserOf<T>>>> {
         // Parse response
-        let bundle: TokenBundle;
+        let bundle: TokenBundle<UserOf<T>>;
         try {
             bundle = this.config.parseLogin
                 ? this.config.parseLogin(body)
-                : autoDetectFields(body, this.config.fields);
+                : autoDetectFields(body, this.config.fields, { requireExpiry: !this.config.introspect });
         } catch (error: any) {
             this.debugAuth('login response parsing failed', {
                 message: error.message,
                 bodyKeys: body && typeof body === 'object' ? Object.keys(body) : [],
             });
             const authError = new AuthError(`Invalid login response: ${error.message}`, response.status, response);
-            if (options?.onError) await options.onError(authError, ctx);
+            await this.reportLoginError(ctx, authError, options);
             throw authError;
         }
 
         this.debugAuth('login bundle parsed', this.describeBundle(bundle));
+
+        try {
+            await this.introspectBundle(bundle);
+            await this.verifyBundle(bundle);
+        } catch (error: any) {
+            const authError = new AuthError(`Invalid login response: ${error.message}`, response.status, response, undefined, error);
+            await this.reportLoginError(ctx, authError, options);
+            throw authError;
+        }
+
         this.debugAuth('storing login tokens', {
             storage: this.getStorageType(),
             accessExpiresAt: bundle.accessExpiresAt,
@@ -183,10 +347,13 @@ export class TokenManager {
 
         // Store in the configured backend
         await this.storeTokens(ctx, bundle);
+        await this.recordTokenFamily(bundle);
         this.debugAuth('login tokens stored', {
             storage: this.getStorageType(),
         });
 
+        this.events.emit('login:success', { bundle: redactBundle(bundle) });
+
         // Call onLogin callback if provided
         if (options?.onLogin) {
             await options.onLogin(bundle, body, ctx);
@@ -202,10 +369,369 @@ export class TokenManager {
         };
     }
 
+    /**
+     * Recognize a challenge response (auth.mfa) and hold the pending
+     * challenge server-side, bound to this browser by a cookie
+     */
+    private async detectChallenge(
+        ctx: TokenKitContext,
+        body: any,
+        response: Response,
+        options?: LoginOptions<LoginResponseOf<T>, UserOf<T>>
+    ): Promise<LoginChallenge | null> {
+        const mfa = this.config.mfa;
+        if (!mfa) return null;
+
+        let detected: { challengeId: string; method?: string } | null;
+        try {
+            detected = detectLoginChallenge(body, mfa);
+        } catch (error: any) {
+            const authError = new AuthError(`Invalid login response: ${error.message}`, response.status, response);
+            await this.reportLoginError(ctx, authError, options);
+            throw authError;
+        }
+        if (!detected) return null;
+
+        const ttl = getChallengeTTL(mfa);
+        const expiresAt = Math.floor(Date.now() / 1000) + ttl;
+        const { binding, bindingHash } = createChallengeBinding();
+        await this.getChallengeStore().set(detected.challengeId, {
+            challengeId: detected.challengeId,
+            bindingHash,
+            expiresAt,
+            method: detected.method,
+        });
+        ctx.cookies.set(getChallengeCookieName(this.config.cookies?.prefix), binding, {
+            ...getCookieOptions(this.config.cookies),
+            maxAge: ttl,
+            path: '/',
+        });
+
+        this.debugAuth('login challenge issued', {
+            method: detected.method,
+            expiresAt,
+        });
+
+        return {
+            type: 'challenge',
+            challengeId: detected.challengeId,
+            method: detected.method,
+            expiresAt,
+            body,
+        };
+    }
+
+    /**
+     * Complete a login challenge by sending the code to auth.mfa.verify,
+     * then store the returned tokens like a regular login
+     */
+    async completeLogin(ctx: TokenKitContext, challengeId: string, code: string, options?: LoginOptions<LoginResponseOf<T>, UserOf<T>>): Promise<APIResponse<TokenBundle<UserOf<T>>>> {
+        const mfa = this.config.mfa;
+        if (!mfa) {
+            throw new AuthError('auth.mfa is not configured', 500);
+        }
+
+        const fail = async (authError: AuthError): Promise<never> => {
+            await this.reportLoginError(ctx, authError, options);
+            throw authError;
+        };
+
+        const store = this.getChallengeStore();
+        const cookieName = getChallengeCookieName(this.config.cookies?.prefix);
+        const pending = await store.get(challengeId);
+        if (
+            !pending ||
+            pending.expiresAt <= Math.floor(Date.now() / 1000) ||
+            !bindingMatches(ctx.cookies.get(cookieName)?.value, pending.bindingHash)
+        ) {
+            return fail(new AuthError('Unknown or expired login challenge', 400));
+        }
+
+        // Count the attempt before sending it, so parallel guesses share the limit. Stores
+        // without an atomic increment give the challenge to one verification at a time.
+        let attempts: number;
+        if (store.increment) {
+            const counted = await store.increment(challengeId);
+            if (!counted) {
+                return fail(new AuthError('Unknown or expired login challenge', 400));
+            }
+            attempts = counted.attempts ?? 1;
+        } else {
+            if (this.verifyingChallenges.has(challengeId)) {
+                return fail(new AuthError('Unknown or expired login challenge', 400));
+            }
+            this.verifyingChallenges.add(challengeId);
+            await store.delete(challengeId);
+            attempts = (pending.attempts ?? 0) + 1;
+        }
+
+        try {
+            return await this.verifyLoginChallenge(ctx, mfa, pending, code, attempts, options);
+        } finally {
+            this.verifyingChallenges.delete(challengeId);
+        }
+    }
+
+    /**
+     * Send a counted challenge attempt to auth.mfa.verify. Rejected codes keep
+     * the challenge pending until it expires or runs out of attempts.
+     */
+    private async verifyLoginChallenge(
+        ctx: TokenKitContext,
+        mfa: LoginChallengeConfig,
+        pending: PendingLoginChallenge,
+        code: string,
+        attempts: number,
+        options?: LoginOptions<LoginResponseOf<T>, UserOf<T>>
+    ): Promise<APIResponse<TokenBundle<UserOf<T>>>> {
+        const { challengeId } = pending;
+        const store = this.getChallengeStore();
+        const cookieName = getChallengeCookieName(this.config.cookies?.prefix);
+        const maxAttempts = getChallengeMaxAttempts(mfa);
+
+        const fail = async (authError: AuthError): Promise<never> => {
+            await this.reportLoginError(ctx, authError, options);
+            throw authError;
+        };
+        const expire = async () => {
+            await store.delete(challengeId);
+            ctx.cookies.delete(cookieName, { ...getCookieOptions(this.config.cookies), path: '/' });
+        };
+
+        if (attempts > maxAttempts) {
+            await expire();
+            return fail(new AuthError('Unknown or expired login challenge', 400));
+        }
+
+        // Hands a challenge taken out of the store back for the next attempt
+        const release = async () => {
+            if (store.increment || attempts >= maxAttempts) return;
+            await store.set(challengeId, { ...pending, attempts });
+        };
+
+        const url = this.resolveEndpoint(mfa.verify);
+        const contentType = this.config.contentType || 'application/json';
+        const resolvedHeaders = await this.resolveHeaders(ctx, 'login');
+        const headers: Record<string, string> = {
+            'Content-Type': contentType,
+            ...this.config.headers,
+            ...resolvedHeaders,
+            ...options?.headers,
+        };
+        const data = {
+            ...mfa.data,
+            ...options?.data,
+            [mfa.challengeRequestField ?? 'challenge_id']: challengeId,
+            [mfa.codeField ?? 'code']: code,
+        };
+
+        const timeout = options?.timeout ?? this.config.timeout ?? 30000;
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+        this.debugAuth('sending login challenge verification', {
+            url,
+            method: pending.method,
+            bodyKeys: Object.keys(data),
+        });
+
+        let response: Response;
+        try {
+            response = await safeFetch(url, {
+                method: 'POST',
+                headers,
+                body: contentType === 'application/x-www-form-urlencoded'
+                    ? new URLSearchParams(data).toString()
+                    : JSON.stringify(data),
+                signal: controller.signal,
+            }, this.config);
+        } catch (error: any) {
+            await release();
+            return fail(new AuthError(`Login challenge verification failed: ${error.message}`, undefined, undefined, undefined, error));
+        } finally {
+            clearTimeout(timeoutId);
+        }
+
+        if (!response.ok) {
+            if (attempts >= maxAttempts) {
+                this.debugAuth('login challenge expired after too many attempts', { attempts });
+                await expire();
+            } else {
+                await release();
+            }
+            return fail(new AuthError(`Login challenge verification failed: ${response.status} ${response.statusText}`, response.status, response));
+        }
+
+        const body = await response.json().catch(() => ({}));
+        const result = await this.acceptLoginResponse(ctx, response, body, options);
+
+        await expire();
+        return result;
+    }
+
+    private getChallengeStore(): LoginChallengeStore {
+        return this.config.mfa?.store ?? getDefaultChallengeStore();
+    }
+
+    /**
+     * Build the authorization URL for the OAuth authorization-code + PKCE flow.
+     * The PKCE verifier and state are kept in a short-lived HttpOnly cookie.
+     */
+    async createAuthorizationURL(ctx: TokenKitContext, options?: AuthorizeOptions): Promise<string> {
+        await this.discover();
+
+        const oauth = this.requireOAuth();
+        if (!oauth.authorize) {
+            throw new AuthError(`auth.oauth.authorize is not configured${this.config.issuer ? ' and was not discovered' : ''}`, 500);
+        }
+        const authorizeURL = this.resolveEndpoint(oauth.authorize);
+        const { codeVerifier, codeChallenge } = createPkcePair();
+        const state = createState();
+        const redirectURI = resolveRedirectURI(ctx, oauth);
+
+        storeOAuthState(ctx, {
+            state,
+            codeVerifier,
+            redirectURI,
+            returnTo: options?.returnTo ? sanitizeReturnTo(options.returnTo) : undefined,
+        }, this.getOAuthCookieOptions());
+
+        const url = this.withQueryParams(authorizeURL, oauth.authorizeParams, options?.params, {
+            response_type: 'code',
+            client_id: oauth.clientId,
+            redirect_uri: redirectURI,
+            scope: formatScope(options?.scope ?? oauth.scope),
+            state,
+            code_challenge: codeChallenge,
+            code_challenge_method: 'S256',
+        });
+
+        this.debugAuth('authorization request created', {
+            authorizeURL,
+            redirectURI,
+            hasReturnTo: !!options?.returnTo,
+            queryParamKeys: this.getMergedParamKeys(oauth.authorizeParams, options?.params),
+        });
+
+        return url;
+    }
+
+    /**
+     * Complete the authorization-code flow: validate the callback state,
+     * exchange the code for tokens and store them.
+     */
+    async handleCallback(ctx: TokenKitContext): Promise<OAuthCallbackResult<UserOf<T>>> {
+        await this.discover();
+
+        const oauth = this.requireOAuth();
+        const callbackURL = getRequestURL(ctx);
+        const pending = consumeOAuthState(ctx, this.getOAuthCookieOptions());
+        const params = callbackURL.searchParams;
+
+        const providerError = params.get('error');
+        if (providerError) {
+            const description = params.get('error_description');
+            throw new AuthError(`Authorization failed: ${providerError}${description ? ` (${description})` : ''}`, 400);
+        }
+
+        if (!pending) {
+            throw new AuthError('Authorization callback has no pending request (state cookie missing or expired)', 400);
+        }
+
+        const state = params.get('state');
+        if (!state || !statesMatch(pending.state, state)) {
+            throw new AuthError('Authorization callback state mismatch', 400);
+        }
+
+        const code = params.get('code');
+        if (!code) {
+            throw new AuthError('Authorization callback is missing the code parameter', 400);
+        }
+
+        const url = this.resolveEndpoint(oauth.token ?? this.requireEndpoint('login'));
+        const resolvedHeaders = await this.resolveHeaders(ctx, 'login');
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Accept': 'application/json',
+            ...this.config.headers,
+            ...resolvedHeaders,
+        };
+        const data = this.getOAuthClientData(oauth, {
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: pending.redirectURI,
+            code_verifier: pending.codeVerifier,
+        });
+
+        const timeout = this.config.timeout ?? 30000;
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+        this.debugAuth('sending authorization code exchange', {
+            url,
+            timeout,
+            bodyKeys: Object.keys(data),
+            headerKeys: Object.keys(headers),
+        });
+
+        let response: Response;
+        try {
+            response = await safeFetch(url, {
+                method: 'POST',
+                headers,
+                body: new URLSearchParams(data).toString(),
+                signal: controller.signal,
+            }, this.config);
+        } catch (error: any) {
+            throw new AuthError(`Authorization code exchange failed: ${error.message}`, undefined, undefined, undefined, error);
+        } finally {
+            clearTimeout(timeoutId);
+        }
+
+        this.debugAuth('authorization code exchange response received', {
+            status: response.status,
+            statusText: response.statusText,
+            ok: response.ok,
+        });
+
+        if (!response.ok) {
+            throw new AuthError(`Authorization code exchange failed: ${response.status} ${response.statusText}`, response.status, response);
+        }
+
+        const body = await response.json().catch(() => ({}));
+
+        let bundle: TokenBundle<UserOf<T>>;
+        try {
+            bundle = this.config.parseLogin
+                ? this.config.parseLogin(body)
+                : autoDetectFields(body, this.config.fields, { requireExpiry: !this.config.introspect });
+        } catch (error: any) {
+            throw new AuthError(`Invalid token response: ${error.message}`, response.status, response);
+        }
+
+        this.debugAuth('authorization code exchange bundle parsed', this.describeBundle(bundle));
+
+        try {
+            await this.introspectBundle(bundle);
+            await this.verifyBundle(bundle);
+        } catch (error: any) {
+            throw new AuthError(`Invalid token response: ${error.message}`, response.status, response, undefined, error);
+        }
+
+        await this.storeTokens(ctx, bundle);
+        await this.recordTokenFamily(bundle);
+        this.events.emit('login:success', { bundle: redactBundle(bundle) });
+
+        return {
+            bundle,
+            returnTo: sanitizeReturnTo(pending.returnTo, oauth.successRedirect ?? '/'),
+        };
+    }
+
     /**
      * Perform token refresh
      */
-    async refresh(ctx: TokenKitContext, refreshToken: string, options?: AuthOptions, headers?: Record<string, string>): Promise<TokenBundle | null> {
+    async refresh(ctx: TokenKitContext, refreshToken: string, options?: AuthOptions, headers?: Record<string, string>): Promise<TokenBundle<UserOf<T>> | null> {
         const resolvedHeaders = await this.resolveHeaders(ctx, 'refresh');
         const extraHeaders = {
             ...resolvedHeaders,
@@ -223,18 +749,21 @@ export class TokenManager {
                 refreshToken: this.describeToken(refreshToken),
             });
             try {
-                const bundle = await this.performRefresh(ctx, refreshToken, options, extraHeaders);
+                const bundle = await this.refreshWithLock(ctx, refreshToken, options, extraHeaders);
                 if (bundle) {
                     this.debugRefresh('refresh succeeded', this.describeBundle(bundle));
+                    this.events.emit('refresh:success', { bundle: redactBundle(bundle) });
                     if (this.config.onRefresh) {
                         this.debugRefresh('calling onRefresh callback');
                         await this.config.onRefresh(bundle, ctx);
                     }
                 } else {
                     this.debugRefresh('refresh returned no bundle (invalid or expired)');
+                    const error = new AuthError('Refresh token invalid or expired', 401);
+                    this.events.emit('refresh:error', { error: redactError(error) });
                     if (this.config.onRefreshError) {
                         this.debugRefresh('calling onRefreshError callback after empty refresh result');
-                        await this.config.onRefreshError(new AuthError('Refresh token invalid or expired', 401), ctx);
+                        await this.config.onRefreshError(error, ctx);
                     }
                 }
                 return bundle;
@@ -244,6 +773,7 @@ export class TokenManager {
                     status: error.status,
                     name: error.name,
                 });
+                this.events.emit('refresh:error', { error: redactError(error) });
                 if (this.config.onRefreshError) {
                     this.debugRefresh('calling onRefreshError callback after thrown refresh error');
                     await this.config.onRefreshError(error, ctx);
@@ -253,25 +783,63 @@ export class TokenManager {
         });
     }
 
+    /**
+     * Refresh, serialized per refresh token across processes when
+     * auth.refreshLock is set. Bundles rotated by another instance are
+     * stored for this request instead of refreshing again.
+     */
+    private async refreshWithLock(ctx: TokenKitContext, refreshToken: string, options?: AuthOptions, extraHeaders?: Record<string, string>): Promise<TokenBundle<UserOf<T>> | null> {
+        const run = async () => {
+            if (await this.detectRefreshTokenReuse(ctx, refreshToken)) {
+                return null;
+            }
+            return this.performRefresh(ctx, refreshToken, options, extraHeaders);
+        };
+
+        const lock = this.config.refreshLock;
+        if (!lock) return run();
+
+        const timeout = options?.timeout ?? this.config.timeout ?? 30000;
+        const { bundle, shared } = await withRefreshLock(lock, getRefreshTokenId(refreshToken), timeout, run);
+        if (shared && bundle) {
+            this.debugRefresh('using tokens rotated by another process', this.describeBundle(bundle));
+            await this.storeTokens(ctx, bundle);
+        }
+        // Bundles shared through the lock provider are decoded like stored tokens
+        return bundle as TokenBundle<UserOf<T>> | null;
+    }
+
     /**
      * Internal refresh implementation
      */
-    private async performRefresh(ctx: TokenKitContext, refreshToken: string, options?: AuthOptions, extraHeaders?: Record<string, string>): Promise<TokenBundle | null> {
+    private async performRefresh(ctx: TokenKitContext, refreshToken: string, options?: AuthOptions, extraHeaders?: Record<string, string>): Promise<TokenBundle<UserOf<T>> | null> {
+        return withSpan(this.config.tracer, 'tokenkit.refresh', { kind: SPAN_KIND_CLIENT }, (span) => this.sendRefresh(ctx, refreshToken, options, extraHeaders, span));
+    }
+
+    private async sendRefresh(ctx: TokenKitContext, refreshToken: string, options?: AuthOptions, extraHeaders?: Record<string, string>, span?: TelemetrySpan): Promise<TokenBundle<UserOf<T>> | null> {
+        await this.discover();
+
         const url = this.withQueryParams(
-            this.joinURL(this.baseURL, this.config.refresh),
+            this.resolveEndpoint(this.requireEndpoint('refresh')),
             this.config.refreshParams,
             options?.params
         );
 
-        const contentType = this.config.contentType || 'application/json';
+        // OAuth and discovered token endpoints expect the standard refresh_token grant
+        const oauth = this.config.oauth;
+        const tokenGrant = !!oauth || this.discoveredGrants.has('refresh');
+        const contentType = this.config.contentType || (tokenGrant ? 'application/x-www-form-urlencoded' : 'application/json');
         const headers: Record<string, string> = {
             'Content-Type': contentType,
             ...this.config.headers,
             ...extraHeaders,
         };
+        injectTraceparent(headers, span);
+        setRequestAttributes(span, 'POST', url);
 
-        const refreshField = this.config.refreshRequestField || 'refreshToken';
+        const refreshField = this.config.refreshRequestField || (tokenGrant ? 'refresh_token' : 'refreshToken');
         const data = {
+            ...(tokenGrant ? this.getTokenEndpointData('refresh_token', headers) : undefined),
             ...this.config.refreshData,
             ...options?.data,
             [refreshField]: refreshToken,
@@ -319,6 +887,7 @@ export class TokenManager {
             clearTimeout(timeoutId);
         }
 
+        setResponseStatus(span, response.status);
         this.debugRefresh('refresh response received', {
             status: response.status,
             statusText: response.statusText,
@@ -347,11 +916,11 @@ export class TokenManager {
         });
 
         // Parse response
-        let bundle: TokenBundle | null;
+        let bundle: TokenBundle<UserOf<T>> | null;
         try {
             bundle = this.config.parseRefresh
                 ? this.config.parseRefresh(body)
-                : autoDetectFields(body, this.config.fields);
+                : autoDetectFields(body, this.config.fields, { requireExpiry: !this.config.introspect });
         } catch (error: any) {
             this.debugRefresh('refresh response parsing failed', {
                 message: error.message,
@@ -366,36 +935,289 @@ export class TokenManager {
             return null;
         }
 
-        this.debugRefresh('refresh bundle parsed', this.describeBundle(bundle));
+        this.debugRefresh('refresh bundle parsed', this.describeBundle(bundle));
+
+        try {
+            await this.introspectBundle(bundle);
+        } catch (error: any) {
+            this.debugRefresh('refresh bundle introspection failed', {
+                message: error.message,
+            });
+            throw new AuthError(`Invalid refresh response: ${error.message}`, response.status, response, undefined, error);
+        }
+
+        // Validate bundle
+        if (!bundle.accessToken || !bundle.refreshToken || !bundle.accessExpiresAt) {
+            this.debugRefresh('refresh bundle validation failed', {
+                hasAccessToken: !!bundle.accessToken,
+                hasRefreshToken: !!bundle.refreshToken,
+                hasAccessExpiresAt: !!bundle.accessExpiresAt,
+            });
+            throw new AuthError('Invalid token bundle returned from refresh endpoint', response.status, response);
+        }
+
+        try {
+            await this.verifyBundle(bundle);
+        } catch (error: any) {
+            this.debugRefresh('refresh bundle verification failed', {
+                message: error.message,
+            });
+            throw new AuthError(`Invalid refresh response: ${error.message}`, response.status, response, undefined, error);
+        }
+
+        // Keep the stored session payload unless the refresh response returned a new one
+        if (!bundle.sessionPayload) {
+            bundle.sessionPayload = this.toUser((await this.retrieveTokens(ctx)).sessionPayload);
+        }
+
+        // Store new tokens
+        this.debugRefresh('storing refreshed tokens', {
+            storage: this.getStorageType(),
+            accessExpiresAt: bundle.accessExpiresAt,
+            secondsUntilExpiry: bundle.accessExpiresAt - Math.floor(Date.now() / 1000),
+        });
+        await this.storeTokens(ctx, bundle);
+        await this.recordTokenFamily(bundle, refreshToken);
+        this.debugRefresh('refreshed tokens stored', {
+            storage: this.getStorageType(),
+        });
+
+        return bundle;
+    }
+
+    /**
+     * Act as another user. The current session is stashed and the tokens
+     * issued by auth.impersonation.endpoint become the active session.
+     */
+    async impersonate(ctx: TokenKitContext, targetUserId: string, options?: ImpersonateOptions): Promise<SessionOf<T>> {
+        const impersonation = this.config.impersonation;
+        if (!impersonation) {
+            throw new AuthError('auth.impersonation is not configured', 500);
+        }
+
+        const session = await this.ensure(ctx);
+        if (!session) {
+            throw new AuthError('Impersonation requires an authenticated session', 401);
+        }
+
+        const current = await this.retrieveTokens(ctx);
+        if (!this.hasRequiredTokens(current)) {
+            throw new AuthError('Impersonation requires an authenticated session', 401);
+        }
+
+        const url = this.resolveEndpoint(impersonation.endpoint);
+        const contentType = this.config.contentType || 'application/json';
+        const resolvedHeaders = await this.resolveHeaders(ctx, 'login');
+        const injectFn = this.config.injectToken ?? ((token, type) => `${type ?? 'Bearer'} ${token}`);
+        const headers: Record<string, string> = {
+            'Content-Type': contentType,
+            ...this.config.headers,
+            ...resolvedHeaders,
+            ...options?.headers,
+            'Authorization': injectFn(session.accessToken, session.tokenType),
+        };
+        const data = {
+            ...impersonation.data,
+            ...options?.data,
+            [impersonation.targetField ?? 'user_id']: targetUserId,
+        };
+
+        const timeout = options?.timeout ?? this.config.timeout ?? 30000;
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+        this.debugAuth('sending impersonation request', {
+            url,
+            nested: current.impersonating,
+        });
+
+        let response: Response;
+        try {
+            response = await safeFetch(url, {
+                method: 'POST',
+                headers,
+                body: contentType === 'application/x-www-form-urlencoded'
+                    ? new URLSearchParams(data).toString()
+                    : JSON.stringify(data),
+                signal: controller.signal,
+            }, this.config);
+        } catch (error: any) {
+            throw new AuthError(`Impersonation request failed: ${error.message}`, undefined, undefined, undefined, error);
+        } finally {
+            clearTimeout(timeoutId);
+        }
+
+        if (!response.ok) {
+            throw new AuthError(`Impersonation failed: ${response.status} ${response.statusText}`, response.status, response);
+        }
+
+        const body = await response.json().catch(() => ({}));
+
+        let bundle: TokenBundle<UserOf<T>>;
+        try {
+            bundle = this.config.parseLogin
+                ? this.config.parseLogin(body)
+                : autoDetectFields(body, this.config.fields, { requireExpiry: !this.config.introspect });
+            await this.introspectBundle(bundle);
+            await this.verifyBundle(bundle);
+        } catch (error: any) {
+            throw new AuthError(`Invalid impersonation response: ${error.message}`, response.status, response, undefined, error);
+        }
+
+        // Stash the current record as is; an earlier stash stays reachable for nested impersonation
+        const previous = current.impersonating ? await this.retrieveImpersonator(ctx) : null;
+        await storeImpersonator(ctx, {
+            accessToken: current.accessToken,
+            refreshToken: current.refreshToken,
+            expiresAt: current.expiresAt,
+            lastRefreshAt: current.lastRefreshAt ?? Math.floor(Date.now() / 1000),
+            ...(current.refreshExpiresAt ? { refreshExpiresAt: current.refreshExpiresAt } : {}),
+            ...(current.tokenType ? { tokenType: current.tokenType } : {}),
+            ...(current.sessionPayload ? { sessionPayload: current.sessionPayload } : {}),
+            ...(previous ? { impersonator: previous } : {}),
+        }, this.config.cookies, this.config.storage);
+
+        await this.storeTokens(ctx, bundle);
+        await this.recordTokenFamily(bundle);
+
+        return this.bundleToSession(bundle, true);
+    }
+
+    /**
+     * Stop impersonating and restore the stashed session exactly as it was.
+     * Returns null when no impersonation is active.
+     */
+    async stopImpersonating(ctx: TokenKitContext): Promise<SessionOf<T> | null> {
+        const stashed = await this.retrieveImpersonator(ctx);
+        if (!stashed) return null;
+
+        const stopEndpoint = this.config.impersonation?.stopEndpoint;
+        if (stopEndpoint) {
+            await this.notifyImpersonationStop(ctx, stopEndpoint);
+        }
+
+        const { impersonator, ...record } = stashed;
+        await restoreTokens(ctx, record, this.config.cookies, this.config.storage, !!this.config.debug);
+        await storeImpersonator(ctx, impersonator ?? null, this.config.cookies, this.config.storage);
+
+        this.debugAuth('impersonation stopped, original session restored', {
+            stillImpersonating: !!impersonator,
+        });
+
+        return this.ensure(ctx);
+    }
+
+    /**
+     * Tell the auth server an impersonated session ends. Failures are logged
+     * and never keep the original session from being restored.
+     */
+    private async notifyImpersonationStop(ctx: TokenKitContext, endpoint: string): Promise<void> {
+        const timeout = this.config.timeout ?? 10000;
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+        try {
+            const tokens = await this.retrieveTokens(ctx);
+            const resolvedHeaders = await this.resolveHeaders(ctx, 'logout');
+            const headers: Record<string, string> = {
+                ...this.config.headers,
+                ...resolvedHeaders,
+            };
+            if (tokens.accessToken) {
+                const injectFn = this.config.injectToken ?? ((token, type) => `${type ?? 'Bearer'} ${token}`);
+                headers['Authorization'] = injectFn(tokens.accessToken, tokens.tokenType ?? undefined);
+            }
+
+            const response = await safeFetch(this.resolveEndpoint(endpoint), {
+                method: 'POST',
+                headers,
+                signal: controller.signal,
+            }, this.config);
+            if (!response.ok) {
+                this.debugAuth('impersonation stop endpoint failed', { status: response.status });
+            }
+        } catch (error: any) {
+            this.debugAuth('impersonation stop endpoint failed', { message: error.message });
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+
+    private retrieveImpersonator(ctx: TokenKitContext): Promise<TokenStorageRecord | null> {
+        return retrieveImpersonator(ctx, this.config.cookies, this.config.storage);
+    }
+
+    /**
+     * Exchange the session access token for a token issued to another
+     * audience (RFC 8693). Exchanged tokens are cached per session token,
+     * audience and scope, and renewed under the refresh policy.
+     */
+    async exchange(ctx: TokenKitContext, options: TokenExchangeOptions): Promise<ExchangedToken> {
+        const session = await this.ensure(ctx);
+        if (!session) {
+            throw new AuthError(`No session to exchange for ${options.audience}`, 401);
+        }
+
+        const key = getExchangeCacheKey(session.accessToken, options, this.config);
+        const now = Math.floor(Date.now() / 1000);
+        const current = this.exchangedTokens.get(key);
+
+        if (current && !isExpired(current.expiresAt, now, this.config.policy)) {
+            if (!shouldRefresh(current.expiresAt, now, current.issuedAt, this.config.policy)) {
+                return current;
+            }
+
+            try {
+                return await this.performExchange(ctx, key, session.accessToken, options);
+            } catch (error: any) {
+                this.debugAuth('token exchange renewal failed, using current token', {
+                    audience: options.audience,
+                    message: error.message,
+                });
+                return current;
+            }
+        }
+
+        return this.performExchange(ctx, key, session.accessToken, options);
+    }
 
-        // Validate bundle
-        if (!bundle.accessToken || !bundle.refreshToken || !bundle.accessExpiresAt) {
-            this.debugRefresh('refresh bundle validation failed', {
-                hasAccessToken: !!bundle.accessToken,
-                hasRefreshToken: !!bundle.refreshToken,
-                hasAccessExpiresAt: !!bundle.accessExpiresAt,
+    private async performExchange(ctx: TokenKitContext, key: string, subjectToken: string, options: TokenExchangeOptions): Promise<ExchangedToken> {
+        const token = await this.exchangeFlight.execute(key, async () => {
+            await this.discover();
+
+            const url = this.resolveEndpoint(this.config.exchange?.endpoint ?? this.config.oauth?.token ?? this.requireEndpoint('login'));
+            const resolvedHeaders = await this.resolveHeaders(ctx, 'login');
+
+            this.debugAuth('sending token exchange', {
+                url,
+                audience: options.audience,
+                hasScope: !!(options.scope ?? this.config.exchange?.scopes?.[options.audience]),
+                subjectToken: this.describeToken(subjectToken),
             });
-            throw new AuthError('Invalid token bundle returned from refresh endpoint', response.status, response);
-        }
 
-        // Store new tokens
-        this.debugRefresh('storing refreshed tokens', {
-            storage: this.getStorageType(),
-            accessExpiresAt: bundle.accessExpiresAt,
-            secondsUntilExpiry: bundle.accessExpiresAt - Math.floor(Date.now() / 1000),
-        });
-        await this.storeTokens(ctx, bundle);
-        this.debugRefresh('refreshed tokens stored', {
-            storage: this.getStorageType(),
+            return requestTokenExchange(url, subjectToken, options, this.config, resolvedHeaders);
         });
+        if (!token) {
+            throw new AuthError(`Token exchange for ${options.audience} returned no token`, 401);
+        }
 
-        return bundle;
+        this.rememberExchanged(key, token);
+        return token;
+    }
+
+    private rememberExchanged(key: string, token: ExchangedToken): void {
+        this.exchangedTokens.delete(key);
+        if (this.exchangedTokens.size >= this.MAX_EXCHANGED_TOKENS) {
+            const oldest = this.exchangedTokens.keys().next().value;
+            if (oldest !== undefined) this.exchangedTokens.delete(oldest);
+        }
+        this.exchangedTokens.set(key, token);
     }
 
     /**
      * Ensure valid tokens (with automatic refresh)
      */
-    async ensure(ctx: TokenKitContext, options?: AuthOptions, headers?: Record<string, string>, force: boolean = false): Promise<Session | null> {
+    async ensure(ctx: TokenKitContext, options?: AuthOptions, headers?: Record<string, string>, force: boolean = false): Promise<SessionOf<T> | null> {
         const now = Math.floor(Date.now() / 1000);
         const tokens = await this.retrieveTokens(ctx);
         const policy = normalizePolicy(this.config.policy);
@@ -427,12 +1249,7 @@ export class TokenManager {
                 await this.storeTokens(ctx, bundle);
                 this.debugRefresh('ensure returning refreshed session from incomplete token record', this.describeBundle(bundle));
 
-                return {
-                    accessToken: bundle.accessToken,
-                    expiresAt: bundle.accessExpiresAt,
-                    tokenType: bundle.tokenType,
-                    payload: bundle.sessionPayload ?? parseJWTPayload(bundle.accessToken) ?? undefined,
-                };
+                return this.bundleToSession(bundle, tokens.impersonating);
             }
 
             if (this.isSessionStorage() && !this.hasAnyTokenData(tokens)) {
@@ -442,10 +1259,7 @@ export class TokenManager {
 
             this.debugRefresh('no valid session found, refresh impossible');
             await this.clearTokens(ctx);
-            if (this.config.onSessionInvalid) {
-                this.debugRefresh('calling onSessionInvalid callback');
-                await this.config.onSessionInvalid(new AuthError('No valid session found, refresh impossible', 401), ctx);
-            }
+            await this.reportSessionInvalid(ctx, new AuthError('No valid session found, refresh impossible', 401));
             return null;
         }
 
@@ -470,12 +1284,7 @@ export class TokenManager {
             await this.storeTokens(ctx, bundle);
             this.debugRefresh('ensure returning refreshed session after expired/forced refresh', this.describeBundle(bundle));
 
-            return {
-                accessToken: bundle.accessToken,
-                expiresAt: bundle.accessExpiresAt,
-                tokenType: bundle.tokenType,
-                payload: bundle.sessionPayload ?? parseJWTPayload(bundle.accessToken) ?? undefined,
-            };
+            return this.bundleToSession(bundle, tokens.impersonating);
         }
 
         // Proactive refresh
@@ -498,12 +1307,7 @@ export class TokenManager {
                     // Ensure tokens are stored in the current context (in case of shared flight)
                     await this.storeTokens(ctx, bundle);
 
-                    return {
-                        accessToken: bundle.accessToken,
-                        expiresAt: bundle.accessExpiresAt,
-                        tokenType: bundle.tokenType,
-                        payload: bundle.sessionPayload ?? parseJWTPayload(bundle.accessToken) ?? undefined,
-                    };
+                    return this.bundleToSession(bundle, tokens.impersonating);
                 }
             } catch (error) {
                 this.debugRefresh('proactive refresh failed, continuing with current token', {
@@ -529,47 +1333,136 @@ export class TokenManager {
             secondsUntilExpiry: tokens.expiresAt - now,
             tokenType: tokens.tokenType ?? undefined,
         });
-        return this.toSession(tokens);
+        return this.toVerifiedSession(ctx, tokens);
     }
 
     /**
      * Logout (clear tokens)
      */
     async logout(ctx: TokenKitContext): Promise<void> {
-        // Optionally call logout endpoint
-        if (this.config.logout) {
-            const timeout = this.config.timeout ?? 10000;
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), timeout);
+        return withSpan(this.config.tracer, 'tokenkit.logout', { kind: SPAN_KIND_INTERNAL }, (span) => this.performLogout(ctx, span));
+    }
 
-            try {
-                const url = this.joinURL(this.baseURL, this.config.logout);
-                const session = await this.ensure(ctx);
-                const resolvedHeaders = await this.resolveHeaders(ctx, 'logout');
-                const headers: Record<string, string> = {
-                    ...this.config.headers,
-                    ...resolvedHeaders,
-                };
-
-                if (session?.accessToken) {
-                    const injectFn = this.config.injectToken ?? ((token, type) => `${type ?? 'Bearer'} ${token}`);
-                    headers['Authorization'] = injectFn(session.accessToken, session.tokenType);
+    private async performLogout(ctx: TokenKitContext, span?: TelemetrySpan): Promise<void> {
+        let document: OIDCDiscoveryDocument | undefined;
+        try {
+            document = await this.discover();
+        } catch (error) {
+            // Discovery failures must not prevent clearing the local session
+            logger.debug('[TokenKit] Logout endpoint discovery failed:', !!this.config.debug, (error as Error).message);
+        }
+
+        try {
+            // Optionally call logout endpoint
+            if (this.config.logout) {
+                const timeout = this.config.timeout ?? 10000;
+                const controller = new AbortController();
+                const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+                try {
+                    const url = this.resolveEndpoint(this.config.logout);
+                    const session = await this.ensure(ctx);
+                    const resolvedHeaders = await this.resolveHeaders(ctx, 'logout');
+                    const headers: Record<string, string> = {
+                        ...this.config.headers,
+                        ...resolvedHeaders,
+                    };
+
+                    if (session?.accessToken) {
+                        const injectFn = this.config.injectToken ?? ((token, type) => `${type ?? 'Bearer'} ${token}`);
+                        headers['Authorization'] = injectFn(session.accessToken, session.tokenType);
+                    }
+                    injectTraceparent(headers, span);
+
+                    const response = await safeFetch(url, { 
+                        method: 'POST', 
+                        headers,
+                        signal: controller.signal,
+                    }, this.config);
+
+                    if (!response.ok) {
+                        await this.reportLogoutError(ctx, new AuthError(`Logout endpoint failed: ${response.status} ${response.statusText}`, response.status, response));
+                    }
+                } catch (error: any) {
+                    await this.reportLogoutError(ctx, error instanceof AuthError
+                        ? error
+                        : new AuthError(`Logout endpoint failed: ${error.message}`, undefined, undefined, undefined, error));
+                } finally {
+                    clearTimeout(timeoutId);
                 }
+            }
 
-                await safeFetch(url, { 
-                    method: 'POST', 
-                    headers,
-                    signal: controller.signal,
-                }, this.config);
-            } catch (error) {
-                // Ignore logout endpoint errors
-                logger.debug('[TokenKit] Logout endpoint failed:', !!this.config.debug, error);
-            } finally {
-                clearTimeout(timeoutId);
+            await this.revokeTokens(ctx, document);
+        } finally {
+            // The local session is cleared even when the server side could not be reached
+            await this.clearTokens(ctx);
+            this.events.emit('logout:success', {});
+        }
+    }
+
+    /**
+     * Revoke the stored refresh and access tokens (RFC 7009) when auth.revoke is set,
+     * together with the tokens of any session stashed by impersonation
+     */
+    private async revokeTokens(ctx: TokenKitContext, document?: OIDCDiscoveryDocument): Promise<void> {
+        const revocation = normalizeRevocationConfig(this.config.revoke);
+        if (!revocation) return;
+
+        const endpoint = revocation.endpoint ?? document?.revocation_endpoint;
+        if (!endpoint) {
+            await this.reportLogoutError(ctx, new AuthError(`auth.revoke has no endpoint${this.config.issuer ? ' and none was discovered' : ''}`, 500));
+            return;
+        }
+
+        const url = this.resolveEndpoint(endpoint);
+        const tokens = await this.retrieveTokens(ctx);
+        const sessions: Array<{ accessToken: string | null; refreshToken: string | null }> = [tokens];
+        // Logout drops the stash, so its tokens would otherwise stay valid at the server
+        let stashed = tokens.impersonating ? await this.retrieveImpersonator(ctx) : null;
+        while (stashed) {
+            sessions.push(stashed);
+            stashed = stashed.impersonator ?? null;
+        }
+        const resolvedHeaders = await this.resolveHeaders(ctx, 'logout');
+
+        for (const session of sessions) {
+            for (const tokenType of revocation.tokens ?? DEFAULT_REVOKED_TOKENS) {
+                const token = tokenType === 'refresh_token' ? session.refreshToken : session.accessToken;
+                if (!token) continue;
+
+                this.debugAuth('revoking token', { url, tokenType, impersonator: session !== tokens });
+                try {
+                    await revokeToken(url, token, tokenType, this.config, revocation, resolvedHeaders);
+                } catch (error: any) {
+                    await this.reportLogoutError(ctx, error);
+                }
             }
         }
+    }
 
-        await this.clearTokens(ctx);
+    private async reportLogoutError(ctx: TokenKitContext, error: AuthError): Promise<void> {
+        logger.debug('[TokenKit] Logout failed:', !!this.config.debug, error.message);
+        this.events.emit('logout:error', { error: redactError(error) });
+        if (this.config.onLogoutError) {
+            try {
+                await this.config.onLogoutError(error, ctx);
+            } catch (callbackError: any) {
+                logger.debug('[TokenKit] onLogoutError callback failed:', !!this.config.debug, callbackError?.message);
+            }
+        }
+    }
+
+    private async reportLoginError(ctx: TokenKitContext, error: AuthError, options?: LoginOptions<LoginResponseOf<T>, UserOf<T>>): Promise<void> {
+        this.events.emit('login:error', { error: redactError(error) });
+        if (options?.onError) await options.onError(error, ctx);
+    }
+
+    private async reportSessionInvalid(ctx: TokenKitContext, error: AuthError): Promise<void> {
+        this.events.emit('session:invalid', { error: redactError(error) });
+        if (this.config.onSessionInvalid) {
+            this.debugRefresh('calling onSessionInvalid callback');
+            await this.config.onSessionInvalid(error, ctx);
+        }
     }
 
     /**
@@ -582,19 +1475,23 @@ export class TokenManager {
     /**
      * Get current session (no refresh)
      */
-    getSession(ctx: TokenKitContext): Session | null {
+    getSession(ctx: TokenKitContext): SessionOf<T> | null {
         if (this.config.storage?.type === 'session') {
             throw new AuthError('getSession() cannot read async session storage. Use getSessionAsync() when auth.storage.type is "session".', 500);
         }
 
-        const tokens = retrieveCookieTokens(ctx, this.config.cookies);
+        if (this.config.verify) {
+            throw new AuthError('getSession() cannot verify token signatures. Use getSessionAsync() when auth.verify is enabled.', 500);
+        }
+
+        const tokens = retrieveCookieTokens(ctx, this.config.cookies, this.config.storage);
         const now = Math.floor(Date.now() / 1000);
 
         if (!this.hasRequiredTokens(tokens)) {
             this.debugAuth('getSession found incomplete token record, clearing auth state', {
                 tokens: this.describeStoredTokens(tokens, now),
             });
-            clearCookieTokens(ctx, this.config.cookies);
+            clearCookieTokens(ctx, this.config.cookies, this.config.storage);
             return null;
         }
 
@@ -608,7 +1505,7 @@ export class TokenManager {
                 clockSkew: policy.clockSkew,
                 adjustedSecondsUntilExpiry: tokens.expiresAt - (now + Number(policy.clockSkew)),
             });
-            clearCookieTokens(ctx, this.config.cookies);
+            clearCookieTokens(ctx, this.config.cookies, this.config.storage);
             return null;
         }
 
@@ -618,7 +1515,7 @@ export class TokenManager {
     /**
      * Get current session (no refresh)
      */
-    async getSessionAsync(ctx: TokenKitContext): Promise<Session | null> {
+    async getSessionAsync(ctx: TokenKitContext): Promise<SessionOf<T> | null> {
         const tokens = await this.retrieveTokens(ctx);
         const now = Math.floor(Date.now() / 1000);
 
@@ -653,14 +1550,60 @@ export class TokenManager {
             return null;
         }
 
-        return this.toSession(tokens);
+        return this.toVerifiedSession(ctx, tokens);
+    }
+
+    /**
+     * Get the session payload persisted with the tokens (no refresh)
+     */
+    async getUser<TUser = UserOf<T>>(ctx: TokenKitContext): Promise<TUser | null> {
+        const tokens = await this.retrieveTokens(ctx);
+        if (!this.hasRequiredTokens(tokens)) return null;
+        return (tokens.sessionPayload as TUser | null) ?? null;
+    }
+
+    /**
+     * Roles and permissions of a session, read from its access token claims
+     * through auth.claims. With auth.verify enabled, only verified claims count.
+     */
+    getClaims(session: Session): SessionClaims {
+        const claims = this.config.verify
+            ? this.getVerifiedSessionPayload(session) ?? this.getVerifiedPayload(session.accessToken)
+            : this.getTokenPayload(session.accessToken);
+        return extractClaims(claims, this.config.claims);
+    }
+
+    /**
+     * Check the current session against a permission or claim requirement
+     */
+    async can(ctx: TokenKitContext, requirement: string | ClaimRequirement): Promise<boolean> {
+        const session = await this.getSessionAsync(ctx);
+        return !!session && satisfiesClaims(this.getClaims(session), toClaimRequirement(requirement));
+    }
+
+    /**
+     * Return the current session when it satisfies the requirement.
+     * Throws AuthError 401 without a session and 403 when a claim is missing.
+     */
+    async requireClaims(ctx: TokenKitContext, requirement: string | ClaimRequirement): Promise<SessionOf<T>> {
+        const session = await this.getSessionAsync(ctx);
+        if (!session) {
+            throw new AuthError('Authentication required', 401);
+        }
+
+        if (!satisfiesClaims(this.getClaims(session), toClaimRequirement(requirement))) {
+            this.debugAuth('session does not satisfy claim requirement', { requirement });
+            throw new AuthError('Insufficient permissions', 403);
+        }
+
+        return session;
     }
 
     /**
      * Check if authenticated
      */
     isAuthenticated(ctx: TokenKitContext): boolean {
-        const tokens = retrieveCookieTokens(ctx, this.config.cookies);
+        const tokens = retrieveCookieTokens(ctx, this.config.cookies, this.config.storage);
         return !!(tokens.accessToken && tokens.refreshToken);
     }
 
@@ -672,6 +1615,84 @@ export class TokenManager {
         return !!(tokens.accessToken && tokens.refreshToken);
     }
 
+    /**
+     * Check if any token data is stored, including refresh-only records
+     */
+    async hasStoredTokens(ctx: TokenKitContext): Promise<boolean> {
+        return this.hasAnyTokenData(await this.retrieveTokens(ctx));
+    }
+
+    private getFamilyStore(): RefreshTokenFamilyStore | null {
+        const reuse = this.config.reuseDetection;
+        if (!reuse) return null;
+        return (reuse === true ? undefined : reuse.store) ?? getDefaultFamilyStore();
+    }
+
+    /**
+     * Record a refresh token in its family. After a rotation the previous
+     * token is marked as superseded so presenting it again is detected.
+     */
+    private async recordTokenFamily(bundle: TokenBundle, previousToken?: string): Promise<void> {
+        const store = this.getFamilyStore();
+        if (!store || !bundle.refreshToken || bundle.refreshToken === previousToken) return;
+
+        const now = Math.floor(Date.now() / 1000);
+        let familyId = createFamilyId();
+
+        if (previousToken) {
+            const previousId = getRefreshTokenId(previousToken);
+            const previous = await store.get(previousId);
+            familyId = previous?.familyId ?? familyId;
+            await store.set(previousId, {
+                familyId,
+                rotatedAt: now,
+                expiresAt: previous?.expiresAt ?? getRecordExpiry(bundle, now),
+            });
+        }
+
+        await store.set(getRefreshTokenId(bundle.refreshToken), {
+            familyId,
+            expiresAt: getRecordExpiry(bundle, now),
+        });
+    }
+
+    /**
+     * Detect a superseded or revoked refresh token. On reuse the whole family
+     * is revoked, onRefreshTokenReuse is called and the session is cleared.
+     */
+    private async detectRefreshTokenReuse(ctx: TokenKitContext, refreshToken: string): Promise<boolean> {
+        const store = this.getFamilyStore();
+        if (!store) return false;
+
+        const record = await store.get(getRefreshTokenId(refreshToken));
+        if (!record) return false;
+
+        const reuse = this.config.reuseDetection;
+        const gracePeriod = typeof reuse === 'object' && reuse.gracePeriod !== undefined ? parseTime(reuse.gracePeriod) : DEFAULT_REUSE_GRACE_PERIOD;
+        const now = Math.floor(Date.now() / 1000);
+        const revoked = await store.isFamilyRevoked(record.familyId);
+        const superseded = record.rotatedAt !== undefined && now - record.rotatedAt >= gracePeriod;
+        if (!revoked && !superseded) return false;
+
+        if (!revoked) {
+            await store.revokeFamily(record.familyId);
+        }
+
+        this.debugRefresh(revoked ? 'refresh token family is revoked, clearing stored tokens' : 'refresh token reuse detected, revoking token family', {
+            familyId: record.familyId,
+            rotatedAt: record.rotatedAt,
+        });
+
+        const error = new AuthError(revoked ? 'Refresh token family has been revoked' : 'Refresh token reuse detected', 401);
+        await this.clearTokens(ctx);
+        if (this.config.onRefreshTokenReuse) {
+            this.debugRefresh('calling onRefreshTokenReuse callback');
+            await this.config.onRefreshTokenReuse(error, ctx, { familyId: record.familyId });
+        }
+
+        return true;
+    }
+
     /**
      * Create flight key for single-flight deduplication
      */
@@ -689,6 +1710,57 @@ export class TokenManager {
         return headers ?? {};
     }
 
+    private requireEndpoint(name: 'login' | 'refresh'): string {
+        const endpoint = this.config[name];
+        if (!endpoint) {
+            throw new AuthError(`auth.${name} is not configured${this.config.issuer ? ' and was not discovered' : ''}`, 500);
+        }
+        return endpoint;
+    }
+
+    private requireOAuth(): OAuthConfig {
+        if (!this.config.oauth) {
+            throw new AuthError('OAuth is not configured. Set auth.oauth to use the authorization-code flow.', 500);
+        }
+        return this.config.oauth;
+    }
+
+    private getOAuthClientData(oauth: OAuthConfig, data: Record<string, string>): Record<string, string> {
+        return {
+            ...data,
+            client_id: oauth.clientId,
+            ...(oauth.clientSecret ? { client_secret: oauth.clientSecret } : {}),
+        };
+    }
+
+    /**
+     * Grant type and client authentication for a token endpoint request.
+     * Credentials sent as HTTP Basic are added to the headers instead.
+     */
+    private getTokenEndpointData(grantType: string, headers: Record<string, string>): Record<string, string> {
+        const clientId = this.config.oauth?.clientId ?? this.config.clientId;
+        if (!clientId) {
+            throw new AuthError('auth.clientId is required to use the discovered token endpoint.', 500);
+        }
+
+        const data: Record<string, string> = { grant_type: grantType };
+        applyClientAuthentication(data, headers, {
+            clientId,
+            clientSecret: this.config.oauth?.clientSecret ?? this.config.clientSecret,
+            clientAuth: this.config.oauth ? undefined : this.config.clientAuth,
+        });
+        return data;
+    }
+
+    private getOAuthCookieOptions() {
+        const options = getCookieOptions(this.config.cookies);
+        return {
+            prefix: this.config.cookies?.prefix,
+            secure: options.secure,
+            domain: options.domain,
+        };
+    }
+
     private stableStringify(value: unknown): string {
         if (value === undefined) return 'undefined';
         if (value === null || typeof value !== 'object') return JSON.stringify(value);
@@ -699,7 +1771,7 @@ export class TokenManager {
     }
 
     private storeTokens(ctx: TokenKitContext, bundle: TokenBundle): Promise<void> {
-        return storeTokens(ctx, bundle, this.config.cookies, this.config.storage);
+        return storeTokens(ctx, bundle, this.config.cookies, this.config.storage, !!this.config.debug);
     }
 
     private retrieveTokens(ctx: TokenKitContext) {
@@ -800,19 +1872,266 @@ export class TokenManager {
         return !!(tokens.accessToken && tokens.refreshToken && tokens.expiresAt);
     }
 
+    /**
+     * Verify a freshly issued bundle before it is stored
+     */
+    private async verifyBundle(bundle: TokenBundle): Promise<void> {
+        const verify = normalizeVerifyConfig(this.config.verify);
+        if (!verify) return;
+
+        this.rememberVerified(bundle.accessToken, await this.verifyToken(bundle.accessToken, 'access'));
+
+        if (bundle.idToken && verify.idToken !== false) {
+            await this.verifyToken(bundle.idToken, 'id');
+        }
+    }
+
+    private async verifyToken(token: string, kind: 'access' | 'id'): Promise<Record<string, any>> {
+        const verify = normalizeVerifyConfig(this.config.verify) ?? {};
+        const document = await this.discover();
+        const jwksUri = verify.jwksUri ?? document?.jwks_uri;
+        if (!jwksUri) {
+            throw new AuthError('auth.verify requires verify.jwksUri or an issuer whose discovery document provides jwks_uri', 500);
+        }
+
+        const payload = await verifyJWT(token, {
+            jwksUri,
+            issuer: verify.issuer ?? document?.issuer ?? this.config.issuer,
+            // ID tokens are always issued for the OAuth client
+            audience: kind === 'id' ? this.config.oauth?.clientId ?? verify.audience : verify.audience,
+            algorithms: verify.algorithms,
+            clockTolerance: getClockTolerance(verify),
+        }, this.config);
+
+        this.debugAuth(`${kind} token verified`, {
+            hasAudience: payload.aud !== undefined,
+            exp: payload.exp,
+        });
+        return payload;
+    }
+
+    /**
+     * Verified payload of a session built by this manager, while it has not expired
+     */
+    private getVerifiedSessionPayload(session: Session): Record<string, any> | undefined {
+        return this.unexpired(this.verifiedSessions.get(session));
+    }
+
+    /**
+     * Cached verification result of an access token, while it has not expired
+     */
+    private getVerifiedPayload(token: string): Record<string, any> | undefined {
+        return this.unexpired(this.verifiedTokens.get(token));
+    }
+
+    private unexpired(payload: Record<string, any> | undefined): Record<string, any> | undefined {
+        const tolerance = getClockTolerance(normalizeVerifyConfig(this.config.verify) ?? {});
+        return payload && payload.exp + tolerance > Math.floor(Date.now() / 1000) ? payload : undefined;
+    }
+
+    /**
+     * Builds a session from a verified payload and keeps the payload attached to it,
+     * so its claims survive eviction from the bounded verified token cache
+     */
+    private toVerifiedSessionOf(tokens: Parameters<TokenManager<T>['toSession']>[0], payload: Record<string, any>): SessionOf<T> {
+        const session = this.toSession(tokens, payload);
+        this.verifiedSessions.set(session, payload);
+        return session;
+    }
+
+    private rememberVerified(token: string, payload: Record<string, any>): void {
+        if (this.verifiedTokens.size >= this.MAX_VERIFIED_TOKENS) {
+            const oldest = this.verifiedTokens.keys().next().value;
+            if (oldest !== undefined) this.verifiedTokens.delete(oldest);
+        }
+        this.verifiedTokens.set(token, payload);
+    }
+
+    /**
+     * Build a session from stored tokens, verifying the access token when
+     * auth.verify is enabled. Tokens that fail verification invalidate the
+     * session; JWKS outages fail closed without clearing storage.
+     */
+    private async toVerifiedSession(ctx: TokenKitContext, tokens: {
+        accessToken: string;
+        expiresAt: number;
+        tokenType?: string | null;
+        sessionPayload?: Record<string, any> | null;
+        impersonating?: boolean;
+    }): Promise<SessionOf<T> | null> {
+        if (!this.config.verify) {
+            return this.config.introspect ? this.toIntrospectedSession(ctx, tokens) : this.toSession(tokens);
+        }
+
+        const cached = this.getVerifiedPayload(tokens.accessToken);
+        if (cached) {
+            return this.toVerifiedSessionOf(tokens, cached);
+        }
+        this.verifiedTokens.delete(tokens.accessToken);
+
+        try {
+            const payload = await this.verifyToken(tokens.accessToken, 'access');
+            this.rememberVerified(tokens.accessToken, payload);
+            return this.toVerifiedSessionOf(tokens, payload);
+        } catch (error: any) {
+            if (!(error instanceof AuthError) || error.status !== 401) {
+                this.debugAuth('access token verification unavailable, keeping stored tokens', {
+                    message: error.message,
+                });
+                return null;
+            }
+
+            this.debugAuth('stored access token failed verification, clearing auth state', {
+                message: error.message,
+            });
+            await this.clearTokens(ctx);
+            await this.reportSessionInvalid(ctx, error);
+            return null;
+        }
+    }
+
+    /**
+     * Build a session from stored tokens using the introspection response as
+     * payload. Inactive tokens invalidate the session; introspection outages
+     * fail closed without clearing storage.
+     */
+    private async toIntrospectedSession(ctx: TokenKitContext, tokens: {
+        accessToken: string;
+        expiresAt: number;
+        tokenType?: string | null;
+        sessionPayload?: Record<string, any> | null;
+        impersonating?: boolean;
+    }): Promise<SessionOf<T> | null> {
+        let result: IntrospectionResult;
+        try {
+            result = await this.introspect(tokens.accessToken);
+        } catch (error: any) {
+            this.debugAuth('access token introspection unavailable, treating session as invalid', {
+                message: error.message,
+            });
+            return null;
+        }
+
+        if (!result.active) {
+            this.debugAuth('stored access token is not active, clearing auth state');
+            await this.clearTokens(ctx);
+            await this.reportSessionInvalid(ctx, new AuthError('Access token is not active', 401));
+            return null;
+        }
+
+        return this.toSession(tokens, result);
+    }
+
+    /**
+     * Introspect a freshly issued bundle before it is stored, filling in the
+     * expiry when the token response did not include one
+     */
+    private async introspectBundle(bundle: TokenBundle): Promise<void> {
+        if (!this.config.introspect) return;
+
+        const result = await this.introspect(bundle.accessToken);
+        if (!result.active) {
+            throw new AuthError('Access token is not active', 401);
+        }
+
+        if (!bundle.accessExpiresAt) {
+            if (typeof result.exp !== 'number') {
+                throw new AuthError('Could not detect expiration: neither the token response nor the introspection response include it');
+            }
+            bundle.accessExpiresAt = result.exp;
+        }
+    }
+
+    /**
+     * Introspect an access token (RFC 7662). Active results are cached per
+     * token until their exp, or for at most introspect.cacheTTL.
+     */
+    private async introspect(token: string): Promise<IntrospectionResult> {
+        const now = Math.floor(Date.now() / 1000);
+        const cached = this.introspectedTokens.get(token);
+        if (cached && cached.expiresAt > now) return cached.result;
+        this.introspectedTokens.delete(token);
+
+        const introspection = normalizeIntrospectionConfig(this.config.introspect) ?? {};
+        const document = await this.discover();
+        const endpoint = introspection.endpoint ?? document?.introspection_endpoint;
+        if (!endpoint) {
+            throw new AuthError(`auth.introspect has no endpoint${this.config.issuer ? ' and none was discovered' : ''}`, 500);
+        }
+
+        const result = await introspectToken(this.resolveEndpoint(endpoint), token, this.config, introspection);
+        this.debugAuth('access token introspected', {
+            active: result.active,
+            exp: result.exp,
+            hasScope: result.scope !== undefined,
+            hasSubject: result.sub !== undefined,
+        });
+
+        if (result.active) {
+            if (this.introspectedTokens.size >= this.MAX_INTROSPECTED_TOKENS) {
+                const oldest = this.introspectedTokens.keys().next().value;
+                if (oldest !== undefined) this.introspectedTokens.delete(oldest);
+            }
+            this.introspectedTokens.set(token, { result, expiresAt: getIntrospectionExpiry(result, introspection, now) });
+        }
+        return result;
+    }
+
+    /**
+     * Claims of an access token: the cached verification or introspection
+     * result when available, otherwise the decoded JWT payload
+     */
+    private getTokenPayload(token: string): Record<string, any> | undefined {
+        const verified = this.getVerifiedPayload(token);
+        if (verified) return verified;
+
+        const introspected = this.introspectedTokens.get(token);
+        if (introspected && introspected.expiresAt > Math.floor(Date.now() / 1000)) {
+            return introspected.result;
+        }
+        return parseJWTPayload(token) ?? undefined;
+    }
+
+    /**
+     * Build a session from stored tokens. Claims default to the cached or
+     * decoded access token payload.
+     */
     private toSession(tokens: {
         accessToken: string;
         expiresAt: number;
         tokenType?: string | null;
-    }): Session {
+        sessionPayload?: Record<string, any> | null;
+        impersonating?: boolean;
+    }, claims: Record<string, any> | undefined = this.getTokenPayload(tokens.accessToken)): SessionOf<T> {
+        const user = this.toUser(tokens.sessionPayload);
         return {
             accessToken: tokens.accessToken,
             expiresAt: tokens.expiresAt,
             tokenType: tokens.tokenType ?? undefined,
-            payload: parseJWTPayload(tokens.accessToken) ?? undefined,
+            // Claims are decoded JSON: TokenKitTypes declares their shape, it does not validate it
+            payload: claims as ClaimsOf<T> | undefined,
+            ...(user ? { user } : {}),
+            ...(tokens.impersonating ? { impersonating: true } : {}),
         };
     }
 
+    /**
+     * Session payload read back from storage, typed as the declared user
+     */
+    private toUser(sessionPayload: Record<string, any> | null | undefined): UserOf<T> | undefined {
+        return (sessionPayload ?? undefined) as UserOf<T> | undefined;
+    }
+
+    private bundleToSession(bundle: TokenBundle<UserOf<T>>, impersonating?: boolean): SessionOf<T> {
+        return this.toSession({
+            accessToken: bundle.accessToken,
+            expiresAt: bundle.accessExpiresAt,
+            tokenType: bundle.tokenType,
+            sessionPayload: bundle.sessionPayload,
+            impersonating,
+        });
+    }
+
     /**
      * Join base URL and path safely
      */
@@ -822,6 +2141,13 @@ export class TokenManager {
         return b + p;
     }
 
+    /**
+     * Resolve an endpoint that may be absolute or relative to baseURL
+     */
+    private resolveEndpoint(path: string): string {
+        return /^https?:\/\//i.test(path) ? path : this.joinURL(this.baseURL, path);
+    }
+
     private withQueryParams(url: string, ...paramsList: Array<Record<string, any> | undefined>): string {
         const mergedParams = Object.assign({}, ...paramsList.filter(Boolean));
         if (!Object.keys(mergedParams).length) return url;
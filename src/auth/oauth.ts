@@ -0,0 +1,178 @@
+// packages/astro-tokenkit/src/auth/oauth.ts
+
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { OAuthConfig, TokenKitContext } from '../types';
+
+/**
+ * Default route injected by the integration for the authorization-code callback
+ */
+export const DEFAULT_OAUTH_CALLBACK_PATH = '/api/auth/callback';
+
+/**
+ * Lifetime of the pending authorization cookie (seconds)
+ */
+const OAUTH_STATE_MAX_AGE = 10 * 60;
+
+/**
+ * Pending authorization request persisted between the redirect and the callback
+ */
+export interface OAuthPendingState {
+    state: string;
+    codeVerifier: string;
+    redirectURI: string;
+    returnTo?: string;
+}
+
+/**
+ * Encode bytes as base64url without padding
+ */
+export function base64URLEncode(input: Buffer): string {
+    return input
+        .toString('base64')
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+}
+
+/**
+ * Generate a PKCE code verifier and its S256 challenge (RFC 7636)
+ */
+export function createPkcePair(): { codeVerifier: string; codeChallenge: string } {
+    const codeVerifier = base64URLEncode(randomBytes(32));
+    const codeChallenge = base64URLEncode(createHash('sha256').update(codeVerifier).digest());
+    return { codeVerifier, codeChallenge };
+}
+
+/**
+ * Generate an opaque anti-CSRF state value
+ */
+export function createState(): string {
+    return base64URLEncode(randomBytes(16));
+}
+
+/**
+ * Compare two state values in constant time
+ */
+export function statesMatch(expected: string, actual: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(actual);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Get the cookie name that holds the pending authorization request
+ */
+export function getOAuthStateCookieName(prefix?: string): string {
+    return prefix ? `${prefix}_oauth_state` : 'oauth_state';
+}
+
+/**
+ * Resolve the URL of the current request from an Astro context
+ */
+export function getRequestURL(ctx: TokenKitContext): URL {
+    if (ctx.url instanceof URL) return ctx.url;
+    return new URL(ctx.request?.url ?? 'http://localhost/');
+}
+
+/**
+ * Resolve the redirect URI sent to the identity provider.
+ * Relative values are resolved against the current request origin.
+ */
+export function resolveRedirectURI(ctx: TokenKitContext, oauth: OAuthConfig): string {
+    const target = oauth.redirectURI ?? oauth.callbackPath ?? DEFAULT_OAUTH_CALLBACK_PATH;
+    return new URL(target, getRequestURL(ctx).origin).toString();
+}
+
+/**
+ * Persist the pending authorization request in a short-lived HttpOnly cookie
+ */
+export function storeOAuthState(
+    ctx: TokenKitContext,
+    pending: OAuthPendingState,
+    options: { prefix?: string; secure?: boolean; domain?: string }
+): void {
+    const value = base64URLEncode(Buffer.from(JSON.stringify(pending), 'utf8'));
+
+    // SameSite=strict would drop the cookie on the cross-site redirect back
+    // from the identity provider, so this cookie is always lax.
+    ctx.cookies.set(getOAuthStateCookieName(options.prefix), value, {
+        httpOnly: true,
+        secure: options.secure,
+        sameSite: 'lax',
+        domain: options.domain,
+        maxAge: OAUTH_STATE_MAX_AGE,
+        path: '/',
+    });
+}
+
+/**
+ * Read and remove the pending authorization request
+ */
+export function consumeOAuthState(
+    ctx: TokenKitContext,
+    options: { prefix?: string; secure?: boolean; domain?: string }
+): OAuthPendingState | null {
+    const name = getOAuthStateCookieName(options.prefix);
+    const raw = ctx.cookies.get(name)?.value;
+    ctx.cookies.delete(name, { path: '/', domain: options.domain });
+
+    if (!raw) return null;
+
+    try {
+        const decoded = Buffer.from(raw.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8');
+        const pending = JSON.parse(decoded);
+        if (typeof pending?.state !== 'string' || typeof pending?.codeVerifier !== 'string' || typeof pending?.redirectURI !== 'string') {
+            return null;
+        }
+        return pending;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Normalize configured scopes to the space-delimited form used by OAuth
+ */
+export function formatScope(scope?: string | string[]): string | undefined {
+    if (!scope) return undefined;
+    return Array.isArray(scope) ? scope.join(' ') : scope;
+}
+
+/**
+ * Build an HTTP Basic Authorization header for OAuth client authentication
+ * (RFC 6749, section 2.3.1)
+ */
+export function createBasicAuthorization(clientId: string, clientSecret?: string): string {
+    const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret ?? '')}`;
+    return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+/**
+ * Client credentials sent to OAuth endpoints other than the authorization-code flow
+ */
+export interface ClientCredentials {
+    clientId?: string;
+    clientSecret?: string;
+    clientAuth?: 'body' | 'basic';
+}
+
+/**
+ * Add client authentication to a token endpoint request, either as body
+ * fields or as an HTTP Basic Authorization header
+ */
+export function applyClientAuthentication(
+    data: Record<string, string>,
+    headers: Record<string, string>,
+    credentials: ClientCredentials
+): void {
+    const { clientId, clientSecret } = credentials;
+    if (!clientId) return;
+
+    if (credentials.clientAuth === 'basic') {
+        headers['Authorization'] = createBasicAuthorization(clientId, clientSecret);
+        return;
+    }
+
+    data.client_id = clientId;
+    if (clientSecret) data.client_secret = clientSecret;
+}
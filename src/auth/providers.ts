@@ -0,0 +1,103 @@
+// packages/astro-tokenkit/src/auth/providers.ts
+
+import type { AuthConfig, AuthProviders } from '../types';
+
+/**
+ * Provider name used when auth is a single AuthConfig
+ */
+export const DEFAULT_AUTH_PROVIDER = 'default';
+
+/**
+ * AuthConfig keys whose values are objects. A record containing any of
+ * them is a single AuthConfig, so these names cannot be used as providers.
+ */
+const OBJECT_AUTH_KEYS = new Set([
+    'headers',
+    'loginData',
+    'loginParams',
+    'refreshData',
+    'refreshParams',
+    'fields',
+    'oauth',
+    'verify',
+    'introspect',
+    'exchange',
+    'revoke',
+    'mfa',
+    'impersonation',
+    'claims',
+    'policy',
+    'cookies',
+    'storage',
+    'tracer',
+]);
+
+/**
+ * Resolved provider records, cached by the configured auth object so
+ * repeated lookups return the same AuthConfig instances.
+ */
+const resolved = new WeakMap<object, Map<string, AuthConfig>>();
+
+/**
+ * Check whether auth is a record of named providers rather than a single AuthConfig
+ */
+export function isAuthProviders(auth: AuthConfig | AuthProviders | undefined): auth is AuthProviders {
+    if (!auth || typeof auth !== 'object') return false;
+
+    const entries = Object.entries(auth);
+    return entries.length > 0 && entries.every(([key, value]) =>
+        !OBJECT_AUTH_KEYS.has(key) &&
+        value !== null &&
+        typeof value === 'object' &&
+        !Array.isArray(value)
+    );
+}
+
+/**
+ * Resolve auth into named providers. Each named provider gets its own
+ * cookie (and session key) namespace unless cookies.prefix is set.
+ */
+export function getAuthProviders(auth: AuthConfig | AuthProviders | undefined): Map<string, AuthConfig> {
+    if (!auth) return new Map();
+
+    const cached = resolved.get(auth);
+    if (cached) return cached;
+
+    const providers = new Map<string, AuthConfig>();
+    if (isAuthProviders(auth)) {
+        for (const [name, config] of Object.entries(auth)) {
+            providers.set(name, {
+                ...config,
+                cookies: {
+                    ...config.cookies,
+                    prefix: config.cookies?.prefix ?? name,
+                },
+            });
+        }
+    } else {
+        providers.set(DEFAULT_AUTH_PROVIDER, auth);
+    }
+
+    resolved.set(auth, providers);
+    return providers;
+}
+
+/**
+ * Select a provider by name (default: the first provider), throwing a
+ * descriptive error for unknown names
+ */
+export function selectAuthProvider(
+    auth: AuthConfig | AuthProviders | undefined,
+    name?: string
+): { name: string; config: AuthConfig } | undefined {
+    const providers = getAuthProviders(auth);
+    const selected = name ?? providers.keys().next().value;
+    if (selected === undefined) return undefined;
+
+    const config = providers.get(selected);
+    if (!config) {
+        throw new Error(`[TokenKit] Unknown auth provider "${selected}". Configured providers: ${[...providers.keys()].join(', ') || 'none'}.`);
+    }
+
+    return { name: selected, config };
+}
@@ -0,0 +1,81 @@
+// packages/astro-tokenkit/src/auth/revocation.ts
+
+import type { AuthConfig, TokenRevocationConfig } from '../types';
+import { AuthError } from '../types';
+import { applyClientAuthentication } from './oauth';
+import { safeFetch } from '../utils/fetch';
+
+/**
+ * token_type_hint values defined by RFC 7009
+ */
+export type RevocationTokenType = 'refresh_token' | 'access_token';
+
+/**
+ * Tokens revoked when auth.revoke does not list them. The refresh token
+ * goes first: most servers revoke the tokens issued from it as well.
+ */
+export const DEFAULT_REVOKED_TOKENS: RevocationTokenType[] = ['refresh_token', 'access_token'];
+
+/**
+ * Normalize auth.revoke (which may be `true` or an endpoint path) into a configuration object
+ */
+export function normalizeRevocationConfig(revoke: AuthConfig['revoke']): TokenRevocationConfig | null {
+    if (!revoke) return null;
+    if (revoke === true) return {};
+    return typeof revoke === 'string' ? { endpoint: revoke } : revoke;
+}
+
+/**
+ * Revoke a single token at the revocation endpoint.
+ * Throws an AuthError when the endpoint cannot be reached or does not answer 2xx.
+ */
+export async function revokeToken(
+    url: string,
+    token: string,
+    tokenType: RevocationTokenType,
+    config: AuthConfig,
+    revocation: TokenRevocationConfig,
+    extraHeaders?: Record<string, string>
+): Promise<void> {
+    const contentType = revocation.contentType ?? 'application/x-www-form-urlencoded';
+    const data: Record<string, string> = {
+        ...revocation.data,
+        token,
+        token_type_hint: tokenType,
+    };
+    const headers: Record<string, string> = {
+        'Content-Type': contentType,
+        ...config.headers,
+        ...extraHeaders,
+    };
+    applyClientAuthentication(data, headers, {
+        clientId: revocation.clientId ?? config.oauth?.clientId ?? config.clientId,
+        clientSecret: revocation.clientSecret ?? config.oauth?.clientSecret ?? config.clientSecret,
+        clientAuth: revocation.clientAuth,
+    });
+
+    const timeout = config.timeout ?? 10000;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    let response: Response;
+    try {
+        response = await safeFetch(url, {
+            method: 'POST',
+            headers,
+            body: contentType === 'application/json'
+                ? JSON.stringify(data)
+                : new URLSearchParams(data).toString(),
+            signal: controller.signal,
+        }, config);
+    } catch (error: any) {
+        throw new AuthError(`Token revocation (${tokenType}) failed: ${error.message}`, undefined, undefined, undefined, error);
+    } finally {
+        clearTimeout(timeoutId);
+    }
+
+    // RFC 7009, section 2.2: invalid tokens also yield 200, so any error status is a real failure
+    if (!response.ok) {
+        throw new AuthError(`Token revocation (${tokenType}) failed: ${response.status} ${response.statusText}`, response.status, response);
+    }
+}
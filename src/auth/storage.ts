@@ -8,6 +8,32 @@ import type {
     TokenStorageRecord,
     TokenSessionProvider
 } from '../types';
+import { getEncryptionSecrets, sealRecord, unsealRecord } from './encryption';
+import { logger } from '../utils/logger';
+import { getJWTExpiry } from './detector';
+
+/**
+ * Largest value written as a single cookie. Browsers cap name + value at
+ * about 4096 bytes; the remainder leaves room for the name and attributes.
+ */
+const MAX_COOKIE_VALUE_SIZE = 3800;
+
+/**
+ * Most chunks read back for one cookie, so crafted requests cannot make us
+ * join arbitrarily many values
+ */
+const MAX_COOKIE_CHUNKS = 20;
+
+/**
+ * Cookie header size that triggers a debug warning. Common server defaults
+ * (nginx, Apache, many proxies) reject request headers above 8KB.
+ */
+const COOKIE_HEADER_WARN_SIZE = 6 * 1024;
+
+/**
+ * Default maximum JSON size of a session payload persisted in cookies
+ */
+const DEFAULT_MAX_PAYLOAD_SIZE = 2048;
 
 type ResolvedTokenSessionProvider = Required<Pick<TokenSessionProvider, 'get' | 'set' | 'delete'>> & Pick<TokenSessionProvider, 'destroy'>;
 
@@ -20,6 +46,11 @@ export interface CookieNames {
     expiresAt: string;
     lastRefreshAt: string;
     tokenType: string;
+    sessionPayload: string;
+    /** Stashed record of the session that started impersonation */
+    impersonator: string;
+    /** Single encrypted cookie used when storage.encryption is set */
+    sealed: string;
 }
 
 /**
@@ -33,6 +64,9 @@ export function getCookieNames(prefix?: string): CookieNames {
         expiresAt: `${p}access_expires_at`,
         lastRefreshAt: `${p}last_refresh_at`,
         tokenType: `${p}token_type`,
+        sessionPayload: `${p}session_payload`,
+        impersonator: `${p}impersonator`,
+        sealed: `${p}tokenkit`,
     };
 }
 
@@ -50,6 +84,113 @@ export function getCookieOptions(config: CookieConfig = {}) {
     };
 }
 
+function getChunkName(name: string, index: number): string {
+    return `${name}.${index}`;
+}
+
+function countCookieChunks(ctx: TokenKitContext, name: string): number {
+    let count = 0;
+    while (count < MAX_COOKIE_CHUNKS && ctx.cookies.get(getChunkName(name, count))) {
+        count++;
+    }
+    return count;
+}
+
+/**
+ * Write a cookie, splitting values over MAX_COOKIE_VALUE_SIZE into numbered
+ * chunk cookies (`name.0`, `name.1`, ...). Returns the written name/value pairs.
+ */
+function setChunkedCookie(
+    ctx: TokenKitContext,
+    name: string,
+    value: string,
+    options: ReturnType<typeof getCookieOptions>,
+    maxAge: number
+): Array<[string, string]> {
+    const previousChunks = countCookieChunks(ctx, name);
+    const written: Array<[string, string]> = [];
+    let chunkCount = 0;
+
+    if (value.length <= MAX_COOKIE_VALUE_SIZE) {
+        ctx.cookies.set(name, value, { ...options, maxAge, path: '/' });
+        written.push([name, value]);
+    } else {
+        for (let offset = 0; offset < value.length; offset += MAX_COOKIE_VALUE_SIZE) {
+            const chunkName = getChunkName(name, chunkCount++);
+            const chunk = value.slice(offset, offset + MAX_COOKIE_VALUE_SIZE);
+            ctx.cookies.set(chunkName, chunk, { ...options, maxAge, path: '/' });
+            written.push([chunkName, chunk]);
+        }
+        if (ctx.cookies.get(name)) {
+            ctx.cookies.delete(name, { ...options, path: '/' });
+        }
+    }
+
+    // Remove chunks left over from a previously larger value
+    for (let index = chunkCount; index < previousChunks; index++) {
+        ctx.cookies.delete(getChunkName(name, index), { ...options, path: '/' });
+    }
+
+    return written;
+}
+
+/**
+ * Read a cookie written by setChunkedCookie, joining its chunks
+ */
+function getChunkedCookie(ctx: TokenKitContext, name: string): string | undefined {
+    const value = ctx.cookies.get(name)?.value;
+    if (value) return value;
+
+    const count = countCookieChunks(ctx, name);
+    if (count === 0) return undefined;
+
+    let joined = '';
+    for (let index = 0; index < count; index++) {
+        joined += ctx.cookies.get(getChunkName(name, index))?.value ?? '';
+    }
+    return joined || undefined;
+}
+
+/**
+ * Delete a cookie and every chunk of it
+ */
+function deleteChunkedCookie(ctx: TokenKitContext, name: string, options: ReturnType<typeof getCookieOptions>, onlyPresent = false): void {
+    const chunks = countCookieChunks(ctx, name);
+    if (!onlyPresent || ctx.cookies.get(name)) {
+        ctx.cookies.delete(name, { ...options, path: '/' });
+    }
+    for (let index = 0; index < chunks; index++) {
+        ctx.cookies.delete(getChunkName(name, index), { ...options, path: '/' });
+    }
+}
+
+/**
+ * Log a debug warning when TokenKit cookies plus the other request cookies
+ * approach common request header limits
+ */
+function warnOnLargeCookieHeader(ctx: TokenKitContext, written: Array<[string, string]>, names: CookieNames, debug: boolean): void {
+    const own = new Set(Object.values(names));
+    const isOwnCookie = (name: string) => own.has(name) || own.has(name.replace(/\.\d+$/, ''));
+
+    let size = written.reduce((total, [name, value]) => total + name.length + value.length + 3, 0);
+    const header = ctx.request?.headers?.get?.('cookie');
+    if (typeof header === 'string') {
+        for (const pair of header.split(';')) {
+            const name = pair.trim().split('=')[0];
+            if (name && !isOwnCookie(name)) size += pair.trim().length + 2;
+        }
+    }
+
+    if (size >= COOKIE_HEADER_WARN_SIZE) {
+        logger.debug('[TokenKit][storage] cookie header is close to common server limits', debug, {
+            estimatedBytes: size,
+            warnAt: COOKIE_HEADER_WARN_SIZE,
+            tokenKitCookies: written.length,
+            hint: 'Large tokens are split across chunk cookies, but proxies and servers often reject request headers above 8KB. Consider session storage.',
+        });
+    }
+}
+
 function getStorageType(storageConfig?: TokenStorageConfig): 'cookie' | 'session' {
     return storageConfig?.type ?? 'cookie';
 }
@@ -59,6 +200,10 @@ function getSessionKey(cookieConfig: CookieConfig = {}, storageConfig: TokenStor
     return cookieConfig.prefix ? `${cookieConfig.prefix}_tokenkit` : 'tokenkit';
 }
 
+function getImpersonatorKey(cookieConfig: CookieConfig = {}, storageConfig: TokenStorageConfig = {}): string {
+    return `${getSessionKey(cookieConfig, storageConfig)}_impersonator`;
+}
+
 function getSessionProvider(ctx: TokenKitContext, storageConfig: TokenStorageConfig = {}): ResolvedTokenSessionProvider | null {
     const session = storageConfig.provider ?? ctx.session;
     if (!session?.get || !session?.set || !session?.delete) return null;
@@ -81,16 +226,65 @@ function getSessionProvider(ctx: TokenKitContext, storageConfig: TokenStorageCon
     };
 }
 
-function bundleToRecord(bundle: TokenBundle, now: number): TokenStorageRecord {
+function bundleToRecord(bundle: TokenBundle, now: number, sessionPayload = bundle.sessionPayload): TokenStorageRecord {
     return {
         accessToken: bundle.accessToken,
         refreshToken: bundle.refreshToken,
         expiresAt: bundle.accessExpiresAt,
         lastRefreshAt: now,
         tokenType: bundle.tokenType,
+        ...(bundle.refreshExpiresAt ? { refreshExpiresAt: bundle.refreshExpiresAt } : {}),
+        ...(sessionPayload ? { sessionPayload } : {}),
     };
 }
 
+/**
+ * Serialize the session payload for cookie storage, or return undefined
+ * when it is missing or larger than storage.maxPayloadSize
+ */
+function serializeSessionPayload(
+    payload: Record<string, any> | undefined,
+    storageConfig: TokenStorageConfig,
+    debug: boolean
+): string | undefined {
+    if (!payload) return undefined;
+
+    const json = JSON.stringify(payload);
+    const maxSize = storageConfig.maxPayloadSize ?? DEFAULT_MAX_PAYLOAD_SIZE;
+    if (Buffer.byteLength(json) > maxSize) {
+        logger.debug('[TokenKit][storage] session payload too large for cookie storage, not persisted', debug, {
+            bytes: Buffer.byteLength(json),
+            maxPayloadSize: maxSize,
+        });
+        return undefined;
+    }
+    return json;
+}
+
+function parseJSONCookie(value: string | undefined): Record<string, any> | null {
+    if (!value) return null;
+    try {
+        const payload = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+        return payload && typeof payload === 'object' && !Array.isArray(payload) ? payload : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Default cookie and session lifetime when the refresh token expiry is unknown
+ */
+const DEFAULT_RECORD_MAX_AGE = 7 * 24 * 60 * 60;
+
+/**
+ * Remaining lifetime of a stored record: until its refresh token expires, read from
+ * the record or the refresh token itself, and DEFAULT_RECORD_MAX_AGE when unknown
+ */
+function getRecordMaxAge(record: TokenStorageRecord, now = Math.floor(Date.now() / 1000)): number {
+    const refreshExpiresAt = record.refreshExpiresAt ?? getJWTExpiry(record.refreshToken);
+    return refreshExpiresAt ? Math.max(0, refreshExpiresAt - now) : DEFAULT_RECORD_MAX_AGE;
+}
+
 /**
  * Store token bundle in the configured backend
  */
@@ -98,16 +292,42 @@ export async function storeTokens(
     ctx: TokenKitContext,
     bundle: TokenBundle,
     cookieConfig: CookieConfig = {},
-    storageConfig: TokenStorageConfig = {}
+    storageConfig: TokenStorageConfig = {},
+    debug = false
 ): Promise<void> {
-    const names = getCookieNames(cookieConfig.prefix);
-    const options = getCookieOptions(cookieConfig);
     const now = Math.floor(Date.now() / 1000);
 
     // Calculate max age
     const refreshMaxAge = bundle.refreshExpiresAt
         ? Math.max(0, bundle.refreshExpiresAt - now)
-        : 7 * 24 * 60 * 60; // Default 7 days
+        : DEFAULT_RECORD_MAX_AGE;
+
+    await writeRecord(ctx, bundleToRecord(bundle, now), refreshMaxAge, cookieConfig, storageConfig, debug);
+}
+
+/**
+ * Store a previously retrieved record exactly as it was (e.g. when impersonation stops)
+ */
+export async function restoreTokens(
+    ctx: TokenKitContext,
+    record: TokenStorageRecord,
+    cookieConfig: CookieConfig = {},
+    storageConfig: TokenStorageConfig = {},
+    debug = false
+): Promise<void> {
+    await writeRecord(ctx, record, getRecordMaxAge(record), cookieConfig, storageConfig, debug);
+}
+
+async function writeRecord(
+    ctx: TokenKitContext,
+    record: TokenStorageRecord,
+    maxAge: number,
+    cookieConfig: CookieConfig,
+    storageConfig: TokenStorageConfig,
+    debug: boolean
+): Promise<void> {
+    const names = getCookieNames(cookieConfig.prefix);
+    const options = getCookieOptions(cookieConfig);
 
     if (getStorageType(storageConfig) === 'session') {
         const provider = getSessionProvider(ctx, storageConfig);
@@ -115,49 +335,73 @@ export async function storeTokens(
             throw new Error('TokenKit session storage requires Astro ctx.session or a custom storage provider');
         }
 
-        await provider.set(ctx, getSessionKey(cookieConfig, storageConfig), bundleToRecord(bundle, now), {
-            ttl: refreshMaxAge,
+        await provider.set(ctx, getSessionKey(cookieConfig, storageConfig), record, {
+            ttl: maxAge,
         });
         return;
     }
 
+    const written: Array<[string, string]> = [];
+    const sessionPayload = serializeSessionPayload(record.sessionPayload, storageConfig, debug);
+
+    if (storageConfig.encryption) {
+        const secrets = getEncryptionSecrets(storageConfig.encryption);
+        const sealed = sealRecord({
+            ...record,
+            sessionPayload: sessionPayload ? record.sessionPayload : undefined,
+        }, secrets, names.sealed);
+        written.push(...setChunkedCookie(ctx, names.sealed, sealed, options, maxAge));
+        // Remove plain cookies written before encryption was enabled
+        deletePlainCookies(ctx, names, options, true);
+        warnOnLargeCookieHeader(ctx, written, names, debug);
+        return;
+    }
+
     // Keep the access-token metadata until the refresh token expires so server-side
     // navigation can still detect an expired access token and rotate it.
-    ctx.cookies.set(names.accessToken, bundle.accessToken, {
-        ...options,
-        maxAge: refreshMaxAge,
-        path: '/',
-    });
+    // Token values may exceed the browser cookie size limit and are chunked.
+    written.push(...setChunkedCookie(ctx, names.accessToken, record.accessToken, options, maxAge));
 
-    // Set refresh token (restricted path for security)
-    ctx.cookies.set(names.refreshToken, bundle.refreshToken, {
-        ...options,
-        maxAge: refreshMaxAge,
-        path: '/',
-    });
+    // Set refresh token
+    written.push(...setChunkedCookie(ctx, names.refreshToken, record.refreshToken, options, maxAge));
 
     // Set expiration timestamp
-    ctx.cookies.set(names.expiresAt, bundle.accessExpiresAt.toString(), {
+    ctx.cookies.set(names.expiresAt, record.expiresAt.toString(), {
         ...options,
-        maxAge: refreshMaxAge,
+        maxAge,
         path: '/',
     });
+    written.push([names.expiresAt, record.expiresAt.toString()]);
 
     // Set last refresh timestamp
-    ctx.cookies.set(names.lastRefreshAt, now.toString(), {
+    ctx.cookies.set(names.lastRefreshAt, record.lastRefreshAt.toString(), {
         ...options,
-        maxAge: refreshMaxAge,
+        maxAge,
         path: '/',
     });
+    written.push([names.lastRefreshAt, record.lastRefreshAt.toString()]);
 
     // Set token type if available
-    if (bundle.tokenType) {
-        ctx.cookies.set(names.tokenType, bundle.tokenType, {
+    if (record.tokenType) {
+        ctx.cookies.set(names.tokenType, record.tokenType, {
             ...options,
-            maxAge: refreshMaxAge,
+            maxAge,
             path: '/',
         });
+        written.push([names.tokenType, record.tokenType]);
+    } else {
+        deleteChunkedCookie(ctx, names.tokenType, options, true);
+    }
+
+    // Persist the session payload (e.g. the user object from the login response)
+    if (sessionPayload) {
+        const encoded = Buffer.from(sessionPayload, 'utf8').toString('base64url');
+        written.push(...setChunkedCookie(ctx, names.sessionPayload, encoded, options, maxAge));
+    } else {
+        deleteChunkedCookie(ctx, names.sessionPayload, options, true);
     }
+
+    warnOnLargeCookieHeader(ctx, written, names, debug);
 }
 
 /**
@@ -172,41 +416,70 @@ export async function retrieveTokens(
     refreshToken: string | null;
     expiresAt: number | null;
     lastRefreshAt: number | null;
+    refreshExpiresAt: number | null;
     tokenType: string | null;
+    sessionPayload: Record<string, any> | null;
+    impersonating: boolean;
 }> {
     if (getStorageType(storageConfig) === 'session') {
         const provider = getSessionProvider(ctx, storageConfig);
         if (!provider) {
-            return { accessToken: null, refreshToken: null, expiresAt: null, lastRefreshAt: null, tokenType: null };
+            return { accessToken: null, refreshToken: null, expiresAt: null, lastRefreshAt: null, refreshExpiresAt: null, tokenType: null, sessionPayload: null, impersonating: false };
         }
 
         const record = await provider.get(ctx, getSessionKey(cookieConfig, storageConfig));
+        const impersonator = record ? await provider.get(ctx, getImpersonatorKey(cookieConfig, storageConfig)) : null;
         return {
             accessToken: record?.accessToken || null,
             refreshToken: record?.refreshToken || null,
             expiresAt: record?.expiresAt || null,
             lastRefreshAt: record?.lastRefreshAt || null,
+            refreshExpiresAt: record?.refreshExpiresAt || null,
             tokenType: record?.tokenType || null,
+            sessionPayload: record?.sessionPayload || null,
+            impersonating: !!impersonator,
         };
     }
 
-    return retrieveCookieTokens(ctx, cookieConfig);
+    return retrieveCookieTokens(ctx, cookieConfig, storageConfig);
 }
 
 export function retrieveCookieTokens(
     ctx: TokenKitContext,
-    cookieConfig: CookieConfig = {}
+    cookieConfig: CookieConfig = {},
+    storageConfig: TokenStorageConfig = {}
 ): {
     accessToken: string | null;
     refreshToken: string | null;
     expiresAt: number | null;
     lastRefreshAt: number | null;
+    refreshExpiresAt: number | null;
     tokenType: string | null;
+    sessionPayload: Record<string, any> | null;
+    impersonating: boolean;
 } {
     const names = getCookieNames(cookieConfig.prefix);
+    const impersonating = !!(ctx.cookies.get(names.impersonator) || ctx.cookies.get(getChunkName(names.impersonator, 0)));
+
+    if (storageConfig.encryption) {
+        const secrets = getEncryptionSecrets(storageConfig.encryption);
+        const sealed = getChunkedCookie(ctx, names.sealed);
+        // Tampered cookies and cookies sealed with unknown secrets read as missing
+        const record = sealed ? unsealRecord(sealed, secrets, names.sealed) : null;
+        return {
+            accessToken: typeof record?.accessToken === 'string' && record.accessToken ? record.accessToken : null,
+            refreshToken: typeof record?.refreshToken === 'string' && record.refreshToken ? record.refreshToken : null,
+            expiresAt: typeof record?.expiresAt === 'number' ? record.expiresAt : null,
+            lastRefreshAt: typeof record?.lastRefreshAt === 'number' ? record.lastRefreshAt : null,
+            refreshExpiresAt: typeof record?.refreshExpiresAt === 'number' ? record.refreshExpiresAt : null,
+            tokenType: typeof record?.tokenType === 'string' && record.tokenType ? record.tokenType : null,
+            sessionPayload: record?.sessionPayload && typeof record.sessionPayload === 'object' ? record.sessionPayload : null,
+            impersonating,
+        };
+    }
 
-    const accessToken = ctx.cookies.get(names.accessToken)?.value || null;
-    const refreshToken = ctx.cookies.get(names.refreshToken)?.value || null;
+    const accessToken = getChunkedCookie(ctx, names.accessToken) || null;
+    const refreshToken = getChunkedCookie(ctx, names.refreshToken) || null;
     const tokenType = ctx.cookies.get(names.tokenType)?.value || null;
 
     const expiresAtStr = ctx.cookies.get(names.expiresAt)?.value;
@@ -215,21 +488,102 @@ export function retrieveCookieTokens(
     const lastRefreshAtStr = ctx.cookies.get(names.lastRefreshAt)?.value;
     const lastRefreshAt = lastRefreshAtStr ? parseInt(lastRefreshAtStr, 10) : null;
 
-    return { accessToken, refreshToken, expiresAt, lastRefreshAt, tokenType };
+    const sessionPayload = parseJSONCookie(getChunkedCookie(ctx, names.sessionPayload));
+
+    // Plain cookies do not keep the refresh expiry; getRecordMaxAge() reads it from a JWT refresh token
+    return { accessToken, refreshToken, expiresAt, lastRefreshAt, refreshExpiresAt: null, tokenType, sessionPayload, impersonating };
+}
+
+/**
+ * Read the stashed record of the session that started impersonation.
+ * Nested impersonations chain further records through `impersonator`.
+ */
+export async function retrieveImpersonator(
+    ctx: TokenKitContext,
+    cookieConfig: CookieConfig = {},
+    storageConfig: TokenStorageConfig = {}
+): Promise<TokenStorageRecord | null> {
+    if (getStorageType(storageConfig) === 'session') {
+        const provider = getSessionProvider(ctx, storageConfig);
+        return (await provider?.get(ctx, getImpersonatorKey(cookieConfig, storageConfig))) ?? null;
+    }
+
+    const names = getCookieNames(cookieConfig.prefix);
+    const value = getChunkedCookie(ctx, names.impersonator);
+    if (!value) return null;
+
+    const record = storageConfig.encryption
+        ? unsealRecord(value, getEncryptionSecrets(storageConfig.encryption), names.impersonator)
+        : parseJSONCookie(value) as TokenStorageRecord | null;
+    return record?.accessToken && record.refreshToken ? record : null;
+}
+
+/**
+ * Stash (or with null, remove) the record of the session that started impersonation
+ */
+export async function storeImpersonator(
+    ctx: TokenKitContext,
+    record: TokenStorageRecord | null,
+    cookieConfig: CookieConfig = {},
+    storageConfig: TokenStorageConfig = {}
+): Promise<void> {
+    if (getStorageType(storageConfig) === 'session') {
+        const provider = getSessionProvider(ctx, storageConfig);
+        if (!provider) {
+            throw new Error('TokenKit session storage requires Astro ctx.session or a custom storage provider');
+        }
+
+        const key = getImpersonatorKey(cookieConfig, storageConfig);
+        if (record) {
+            await provider.set(ctx, key, record, { ttl: getRecordMaxAge(record) });
+        } else {
+            await provider.delete(ctx, key);
+        }
+        return;
+    }
+
+    const names = getCookieNames(cookieConfig.prefix);
+    const options = getCookieOptions(cookieConfig);
+    if (!record) {
+        deleteChunkedCookie(ctx, names.impersonator, options, true);
+        return;
+    }
+
+    const value = storageConfig.encryption
+        ? sealRecord(record, getEncryptionSecrets(storageConfig.encryption), names.impersonator)
+        : Buffer.from(JSON.stringify(record), 'utf8').toString('base64url');
+    setChunkedCookie(ctx, names.impersonator, value, options, getRecordMaxAge(record));
+}
+
+function deletePlainCookies(
+    ctx: TokenKitContext,
+    names: CookieNames,
+    options: ReturnType<typeof getCookieOptions>,
+    onlyPresent = false
+): void {
+    for (const name of [names.accessToken, names.refreshToken, names.expiresAt, names.lastRefreshAt, names.tokenType, names.sessionPayload]) {
+        deleteChunkedCookie(ctx, name, options, onlyPresent);
+    }
 }
 
 export function clearCookieTokens(
     ctx: TokenKitContext,
-    cookieConfig: CookieConfig = {}
+    cookieConfig: CookieConfig = {},
+    storageConfig: TokenStorageConfig = {}
 ): void {
     const names = getCookieNames(cookieConfig.prefix);
     const options = getCookieOptions(cookieConfig);
 
-    ctx.cookies.delete(names.accessToken, { ...options, path: '/' });
-    ctx.cookies.delete(names.refreshToken, { ...options, path: '/' });
-    ctx.cookies.delete(names.expiresAt, { ...options, path: '/' });
-    ctx.cookies.delete(names.lastRefreshAt, { ...options, path: '/' });
-    ctx.cookies.delete(names.tokenType, { ...options, path: '/' });
+    // Clearing auth state also drops a stashed impersonator session
+    deleteChunkedCookie(ctx, names.impersonator, options, true);
+
+    if (storageConfig.encryption) {
+        deleteChunkedCookie(ctx, names.sealed, options);
+        deletePlainCookies(ctx, names, options, true);
+        return;
+    }
+
+    deletePlainCookies(ctx, names, options);
 }
 
 /**
@@ -247,10 +601,11 @@ export async function clearTokens(
                 await provider.destroy(ctx);
             } else if (provider.delete) {
                 await provider.delete(ctx, getSessionKey(cookieConfig, storageConfig));
+                await provider.delete(ctx, getImpersonatorKey(cookieConfig, storageConfig));
             }
         }
         return;
     }
 
-    clearCookieTokens(ctx, cookieConfig);
+    clearCookieTokens(ctx, cookieConfig, storageConfig);
 }
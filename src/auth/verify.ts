@@ -0,0 +1,304 @@
+// packages/astro-tokenkit/src/auth/verify.ts
+
+import { createPublicKey, verify as verifySignature, constants, type KeyObject } from 'node:crypto';
+import type { AuthConfig, TokenVerificationConfig } from '../types';
+import { AuthError } from '../types';
+import { safeFetch } from '../utils/fetch';
+import { parseTime } from '../utils/time';
+
+/**
+ * Algorithms accepted when auth.verify.algorithms is not set
+ */
+export const DEFAULT_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512', 'EdDSA'];
+
+/**
+ * Cached keys are re-fetched after this many seconds even without an unknown kid
+ */
+const JWKS_MAX_AGE = 10 * 60;
+
+/**
+ * Minimum seconds between JWKS fetches triggered by unknown key ids
+ */
+const JWKS_COOLDOWN = 30;
+
+/**
+ * Status of verification failures caused by the JWKS rather than the token.
+ * They are retryable and must not invalidate a stored session.
+ */
+const JWKS_UNAVAILABLE = 503;
+
+interface SigningKey {
+    key: KeyObject;
+    alg?: string;
+    kty: string;
+    crv?: string;
+}
+
+/**
+ * Curves of the ECDSA algorithms (RFC 7518, section 3.4)
+ */
+const EC_CURVES: Record<string, string> = { ES256: 'P-256', ES384: 'P-384', ES512: 'P-521' };
+
+interface JwksEntry {
+    keys: Map<string, SigningKey>;
+    fetchedAt: number;
+    pending?: Promise<void>;
+}
+
+/**
+ * Process-wide JWKS cache keyed by JWKS URI
+ */
+const JWKS_KEY = Symbol.for('astro-tokenkit.jwks');
+const globalStorage = globalThis as any;
+
+if (!globalStorage[JWKS_KEY]) {
+    globalStorage[JWKS_KEY] = new Map<string, JwksEntry>();
+}
+
+const jwksCache = globalStorage[JWKS_KEY] as Map<string, JwksEntry>;
+
+/**
+ * Clear cached signing keys (mainly for testing)
+ */
+export function clearJwksCache(): void {
+    jwksCache.clear();
+}
+
+/**
+ * Options resolved for a single verification
+ */
+export interface VerifyJWTOptions {
+    jwksUri: string;
+    issuer?: string | string[];
+    audience?: string | string[];
+    algorithms?: string[];
+    clockTolerance?: number;
+}
+
+function decodeSegment(segment: string): any {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+function toList(value?: string | string[]): string[] {
+    if (value === undefined) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+async function fetchJwks(jwksUri: string, config: AuthConfig, entry: JwksEntry): Promise<void> {
+    const timeout = config.timeout ?? 30000;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    let response: Response;
+    try {
+        response = await safeFetch(jwksUri, {
+            method: 'GET',
+            headers: { Accept: 'application/json' },
+            signal: controller.signal,
+        }, config);
+    } catch (error: any) {
+        throw new AuthError(`Failed to fetch JWKS from ${jwksUri}: ${error.message}`, JWKS_UNAVAILABLE, undefined, undefined, error);
+    } finally {
+        clearTimeout(timeoutId);
+    }
+
+    if (!response.ok) {
+        throw new AuthError(`Failed to fetch JWKS from ${jwksUri}: ${response.status} ${response.statusText}`, JWKS_UNAVAILABLE, response);
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!body || !Array.isArray(body.keys)) {
+        throw new AuthError(`Invalid JWKS returned from ${jwksUri}`, JWKS_UNAVAILABLE, response);
+    }
+
+    const keys = new Map<string, SigningKey>();
+    body.keys.forEach((jwk: any, index: number) => {
+        if (jwk.use && jwk.use !== 'sig') return;
+        try {
+            keys.set(jwk.kid ?? `__index_${index}`, {
+                key: createPublicKey({ key: jwk, format: 'jwk' }),
+                alg: jwk.alg,
+                kty: jwk.kty,
+                crv: jwk.crv,
+            });
+        } catch {
+            // Skip keys Node cannot import (unsupported curves or key types)
+        }
+    });
+
+    entry.keys = keys;
+    entry.fetchedAt = Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Resolve a signing key, re-fetching the JWKS when the key id is unknown
+ * (key rotation) or the cached set is stale. Returns undefined only when a
+ * fresh JWKS does not have the key; an unknown key id during the refetch
+ * cooldown throws a retryable 503.
+ */
+async function getSigningKey(jwksUri: string, kid: string | undefined, config: AuthConfig) {
+    let entry = jwksCache.get(jwksUri);
+    if (!entry) {
+        entry = { keys: new Map(), fetchedAt: 0 };
+        jwksCache.set(jwksUri, entry);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const find = () => kid !== undefined
+        ? entry!.keys.get(kid)
+        : entry!.keys.size === 1 ? entry!.keys.values().next().value : undefined;
+
+    const stale = now - entry.fetchedAt > JWKS_MAX_AGE;
+    const canRefetch = now - entry.fetchedAt >= JWKS_COOLDOWN;
+    if (stale || (!find() && canRefetch)) {
+        if (!entry.pending) {
+            entry.pending = fetchJwks(jwksUri, config, entry).finally(() => {
+                entry!.pending = undefined;
+            });
+        }
+        await entry.pending;
+        return find();
+    }
+
+    const key = find();
+    if (!key) {
+        throw new AuthError(`No cached signing key for kid "${kid}"; the JWKS is re-fetched at most every ${JWKS_COOLDOWN} seconds`, JWKS_UNAVAILABLE);
+    }
+    return key;
+}
+
+/**
+ * Whether a key of this type (and curve) can produce signatures of alg
+ */
+function keyMatchesAlgorithm(alg: string, signingKey: SigningKey): boolean {
+    if (alg.startsWith('RS') || alg.startsWith('PS')) return signingKey.kty === 'RSA';
+    if (alg.startsWith('ES')) return signingKey.kty === 'EC' && signingKey.crv === EC_CURVES[alg];
+    if (alg === 'EdDSA') return signingKey.kty === 'OKP';
+    return false;
+}
+
+function verifyWithKey(alg: string, data: Buffer, signature: Buffer, key: KeyObject): boolean {
+    const hash = alg === 'EdDSA' ? null : `sha${alg.slice(2)}`;
+
+    if (alg.startsWith('RS')) {
+        return verifySignature(hash, data, key, signature);
+    }
+
+    if (alg.startsWith('PS')) {
+        return verifySignature(hash, data, {
+            key,
+            padding: constants.RSA_PKCS1_PSS_PADDING,
+            saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+        }, signature);
+    }
+
+    if (alg.startsWith('ES')) {
+        return verifySignature(hash, data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+    }
+
+    if (alg === 'EdDSA') {
+        return verifySignature(null, data, key, signature);
+    }
+
+    return false;
+}
+
+/**
+ * Verify a JWT signature against a JWKS and validate its registered claims.
+ * Returns the verified payload or throws an AuthError describing the failure.
+ */
+export async function verifyJWT(token: string, options: VerifyJWTOptions, config: AuthConfig): Promise<Record<string, any>> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        throw new AuthError('Token is not a JWS compact serialization', 401);
+    }
+
+    let header: any;
+    let payload: any;
+    try {
+        header = decodeSegment(parts[0]);
+        payload = decodeSegment(parts[1]);
+    } catch {
+        throw new AuthError('Token header or payload is not valid JSON', 401);
+    }
+
+    const algorithms = options.algorithms ?? DEFAULT_ALGORITHMS;
+    if (typeof header.alg !== 'string' || header.alg === 'none' || !algorithms.includes(header.alg)) {
+        throw new AuthError(`Token algorithm "${header.alg}" is not allowed`, 401);
+    }
+
+    const signingKey = await getSigningKey(options.jwksUri, header.kid, config);
+    if (!signingKey) {
+        throw new AuthError(`No signing key found for kid "${header.kid}"`, 401);
+    }
+    if (signingKey.alg && signingKey.alg !== header.alg) {
+        throw new AuthError(`Signing key "${header.kid}" does not allow algorithm "${header.alg}"`, 401);
+    }
+
+    if (!keyMatchesAlgorithm(header.alg, signingKey)) {
+        throw new AuthError(`Signing key "${header.kid}" (${signingKey.kty}) cannot verify algorithm "${header.alg}"`, 401);
+    }
+
+    // Malformed signatures make node:crypto throw; they are invalid tokens, not outages
+    let valid: boolean;
+    try {
+        valid = verifyWithKey(
+            header.alg,
+            Buffer.from(`${parts[0]}.${parts[1]}`),
+            Buffer.from(parts[2], 'base64url'),
+            signingKey.key
+        );
+    } catch (error: any) {
+        throw new AuthError(`Token signature could not be verified: ${error.message}`, 401, undefined, undefined, error);
+    }
+    if (!valid) {
+        throw new AuthError('Token signature is invalid', 401);
+    }
+
+    if (!payload || typeof payload !== 'object') {
+        throw new AuthError('Token payload is not an object', 401);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = options.clockTolerance ?? 0;
+
+    if (typeof payload.exp !== 'number') {
+        throw new AuthError('Token has no exp claim', 401);
+    }
+    if (now - tolerance >= payload.exp) {
+        throw new AuthError('Token has expired', 401);
+    }
+    if (typeof payload.nbf === 'number' && now + tolerance < payload.nbf) {
+        throw new AuthError('Token is not yet valid', 401);
+    }
+
+    const issuers = toList(options.issuer);
+    if (issuers.length && !issuers.includes(payload.iss)) {
+        throw new AuthError(`Token issuer "${payload.iss}" is not accepted`, 401);
+    }
+
+    const audiences = toList(options.audience);
+    if (audiences.length) {
+        const tokenAudiences = toList(payload.aud);
+        if (!tokenAudiences.some((aud) => audiences.includes(aud))) {
+            throw new AuthError('Token audience is not accepted', 401);
+        }
+    }
+
+    return payload;
+}
+
+/**
+ * Normalize auth.verify (which may be `true`) into a configuration object
+ */
+export function normalizeVerifyConfig(verify: AuthConfig['verify']): TokenVerificationConfig | null {
+    if (!verify) return null;
+    return verify === true ? {} : verify;
+}
+
+/**
+ * Convert a clock tolerance setting to seconds
+ */
+export function getClockTolerance(config: TokenVerificationConfig): number {
+    return config.clockTolerance !== undefined ? parseTime(config.clockTolerance) : 0;
+}
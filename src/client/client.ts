@@ -4,44 +4,112 @@ import type {
     APIResponse,
     AuthConfig,
     AuthOptions,
+    AuthorizeOptions,
+    ClaimRequirement,
     ClientConfig,
     EtagCacheEntry,
     EtagCacheInvalidationOptions,
+    ExchangedToken,
+    ImpersonateOptions,
+    LoginChallenge,
+    LoginChallengeConfig,
     LoginOptions,
+    LoginResponseOf,
+    LoginResultOf,
+    OAuthCallbackResult,
     RefreshOptions,
     RequestConfig,
     RequestOptions,
     SendOptions,
-    Session,
+    SessionOf,
     TokenBundle,
+    TokenExchangeOptions,
     TokenKitConfig,
+    TelemetrySpan,
     TokenKitContext,
+    TokenKitEventListener,
+    TokenKitEventName,
+    TokenKitTypes,
     UploadFileInput,
     UploadFilesOptions,
-    UploadFormOptions
+    UploadFormOptions,
+    UserOf
 } from '../types';
 import {APIError, AuthError, NetworkError, TimeoutError} from '../types';
 import {TokenManager} from '../auth/manager';
-import {getContextStore} from './context';
+import {ClientCredentialsManager} from '../auth/client-credentials';
+import {selectAuthProvider} from '../auth/providers';
+import {getContextStore, hasContext} from './context';
 import {calculateDelay, shouldRetry, sleep} from '../utils/retry';
 import {getConfig, getTokenManager} from '../config';
 import {createMiddleware} from '../middleware';
 import {safeFetch} from '../utils/fetch';
 import {logger} from '../utils/logger';
+import {EventBus, getEventBus, redactError, redactURL} from '../utils/events';
+import {SPAN_KIND_CLIENT, SPAN_KIND_INTERNAL, injectTraceparent, setRequestAttributes, setResponseStatus, shouldPropagateTrace, withSpan} from '../utils/tracing';
 import {MIME_TYPES, shouldSetContentTypeHeader} from '../utils/mime';
 
 /**
- * API Client
+ * API Client.
+ * T declares the app's user, claims, and login response types (see TokenKitTypes).
  */
-export class APIClient {
-    private customConfig?: Partial<TokenKitConfig>;
-    private _localTokenManager?: TokenManager;
-    private _lastUsedAuth?: AuthConfig;
-    private _lastUsedBaseURL?: string;
+export class APIClient<T extends TokenKitTypes = TokenKitTypes> {
+    private customConfig?: Partial<TokenKitConfig<T>>;
+    private _localTokenManagers = new Map<string, { manager: TokenManager<T>; auth: AuthConfig; baseURL: string }>();
+    private _appTokenManager?: ClientCredentialsManager;
+    private _appTokenAuth?: AuthConfig;
+    private _appTokenBaseURL?: string;
     private defaultEtagCache = new Map<string, EtagCacheEntry>();
+    private events: EventBus;
+    private boundContext?: TokenKitContext;
 
-    constructor(config?: Partial<TokenKitConfig>) {
+    constructor(config?: Partial<TokenKitConfig<T>>) {
         this.customConfig = config;
+        // The api singleton shares the global bus; other clients pass their events on to it
+        this.events = config ? new EventBus(getEventBus()) : getEventBus();
+    }
+
+    /**
+     * Subscribe to lifecycle events (login, logout, refresh, requests, retries,
+     * ETag cache). Returns a function that removes the listener.
+     */
+    on<E extends TokenKitEventName>(event: E, listener: TokenKitEventListener<E>): () => void {
+        return this.events.on(event, listener);
+    }
+
+    /**
+     * Subscribe to the next occurrence of a lifecycle event only
+     */
+    once<E extends TokenKitEventName>(event: E, listener: TokenKitEventListener<E>): () => void {
+        return this.events.once(event, listener);
+    }
+
+    off<E extends TokenKitEventName>(event: E, listener: TokenKitEventListener<E>): void {
+        this.events.off(event, listener);
+    }
+
+    /**
+     * Client bound to one request context, optionally using another auth
+     * provider. Its calls do not depend on the middleware's async scope, and it
+     * shares token managers, event listeners and the ETag cache with this client.
+     */
+    withContext(ctx: TokenKitContext, provider?: string): APIClient<T> {
+        const client = new APIClient<T>(provider === undefined ? this.customConfig : { ...this.customConfig, authProvider: provider });
+        client.boundContext = ctx;
+        client.events = this.events;
+        client._localTokenManagers = this._localTokenManagers;
+        client._appTokenManager = this._appTokenManager;
+        client._appTokenAuth = this._appTokenAuth;
+        client._appTokenBaseURL = this._appTokenBaseURL;
+        client.defaultEtagCache = this.defaultEtagCache;
+        return client;
+    }
+
+    /**
+     * Context of the current request: the bound one, or the middleware's async scope
+     */
+    private getContext(): TokenKitContext {
+        return this.boundContext ?? getContextStore();
     }
 
     /**
@@ -62,46 +130,97 @@ export class APIClient {
     }
 
     /**
-     * Get token manager
+     * Get token manager for this client's auth provider
+     */
+    public get tokenManager(): TokenManager<T> | undefined {
+        return this.getTokenManager();
+    }
+
+    /**
+     * Get token manager for a named auth provider (default: this client's provider)
      */
-    public get tokenManager(): TokenManager | undefined {
+    private getTokenManager(provider?: string): TokenManager<T> | undefined {
         const config = this.config;
-        if (!config.auth) return undefined;
+        const selected = selectAuthProvider(config.auth, provider ?? config.authProvider);
+        if (!selected || selected.config.grant === 'client_credentials') return undefined;
 
         const globalConfig = getConfig();
-        const globalManager = getTokenManager();
+        const globalManager = getTokenManager(selected.name);
 
         // Reuse global manager if it matches our configuration
         if (globalManager && 
             config.auth === globalConfig.auth && 
             config.baseURL === globalConfig.baseURL) {
+            // Its events go to the global bus; a client with its own listeners receives them too
+            if (this.events !== getEventBus()) globalManager.forwardEvents(this.events);
             return globalManager;
         }
 
         // Otherwise create/reuse a local manager for this client
-        if (!this._localTokenManager || 
-            this._lastUsedAuth !== config.auth || 
-            this._lastUsedBaseURL !== config.baseURL) {
-            
-            // Merge client-level fetch, SSL and debug settings into auth config
-            const authConfig: AuthConfig = {
-                ...config.auth,
+        const local = this._localTokenManagers.get(selected.name);
+        if (local &&
+            local.auth === selected.config &&
+            local.baseURL === config.baseURL) {
+            return local.manager;
+        }
+
+        // Merge client-level fetch, SSL and debug settings into auth config
+        const authConfig: AuthConfig = {
+            ...selected.config,
+            headers: {
+                ...config.headers,
+                ...selected.config.headers,
+            },
+            resolveHeaders: selected.config.resolveHeaders ?? config.resolveHeaders,
+            fetch: selected.config.fetch ?? config.fetch,
+            tracer: selected.config.tracer ?? config.tracer,
+            dangerouslyIgnoreCertificateErrors: selected.config.dangerouslyIgnoreCertificateErrors ?? config.dangerouslyIgnoreCertificateErrors,
+            debug: selected.config.debug ?? config.debug,
+        };
+
+        const manager = new TokenManager<T>(authConfig, config.baseURL, this.events);
+        this._localTokenManagers.set(selected.name, {
+            manager,
+            auth: selected.config,
+            baseURL: config.baseURL,
+        });
+
+        return manager;
+    }
+
+    /**
+     * Auth configuration of this client's provider
+     */
+    private get authConfig(): AuthConfig | undefined {
+        return selectAuthProvider(this.config.auth, this.config.authProvider)?.config;
+    }
+
+    /**
+     * Get the app token manager for clients using the client-credentials grant
+     */
+    public get appTokenManager(): ClientCredentialsManager | undefined {
+        const config = this.config;
+        const auth = this.authConfig;
+        if (auth?.grant !== 'client_credentials') return undefined;
+
+        if (!this._appTokenManager ||
+            this._appTokenAuth !== auth ||
+            this._appTokenBaseURL !== config.baseURL) {
+            this._appTokenManager = new ClientCredentialsManager({
+                ...auth,
                 headers: {
                     ...config.headers,
-                    ...config.auth.headers,
+                    ...auth.headers,
                 },
-                resolveHeaders: config.auth.resolveHeaders ?? config.resolveHeaders,
-                fetch: config.auth.fetch ?? config.fetch,
-                dangerouslyIgnoreCertificateErrors: config.auth.dangerouslyIgnoreCertificateErrors ?? config.dangerouslyIgnoreCertificateErrors,
-                debug: config.auth.debug ?? config.debug,
-            };
-            
-            this._localTokenManager = new TokenManager(authConfig, config.baseURL);
-            this._lastUsedAuth = config.auth;
-            this._lastUsedBaseURL = config.baseURL;
+                fetch: auth.fetch ?? config.fetch,
+                dangerouslyIgnoreCertificateErrors: auth.dangerouslyIgnoreCertificateErrors ?? config.dangerouslyIgnoreCertificateErrors,
+                debug: auth.debug ?? config.debug,
+            }, config.baseURL);
+            this._appTokenAuth = auth;
+            this._appTokenBaseURL = config.baseURL;
         }
 
-        return this._localTokenManager;
+        return this._appTokenManager;
     }
 
     /**
@@ -276,35 +395,80 @@ export class APIClient {
      * Generic request method
      */
     async request<T = any>(config: RequestConfig): Promise<APIResponse<T>> {
-        const ctx = getContextStore();
+        return withSpan(this.config.tracer, 'tokenkit.request', { kind: SPAN_KIND_INTERNAL }, (span) => this.requestWithRetry<T>(config, span));
+    }
+
+    /**
+     * Run a request, retrying failed attempts per the retry config
+     */
+    private async requestWithRetry<T>(config: RequestConfig, span?: TelemetrySpan): Promise<APIResponse<T>> {
+        // App-token clients can run outside Astro (build scripts, background jobs)
+        const ctx = this.appTokenManager && !this.boundContext && !hasContext() ? undefined : this.getContext();
+        const info = this.describeRequest(config);
+        const startedAt = Date.now();
         let attempt = 0;
 
+        setRequestAttributes(span, info.method, info.url);
+        this.events.emit('request:start', info);
+
         while (true) {
             attempt++;
 
             try {
-                return await this.executeRequest<T>(config, ctx, attempt);
+                const response = await this.executeRequest<T>(config, ctx, attempt);
+                setResponseStatus(span, response.status);
+                this.events.emit('request:end', { ...info, status: response.status, durationMs: Date.now() - startedAt });
+                return response;
             } catch (error) {
                 // Check if we should retry
                 if (shouldRetry((error as APIError).status, attempt, this.config.retry)) {
                     const delay = calculateDelay(attempt, this.config.retry);
+                    this.events.emit('request:retry', { ...info, attempt, delayMs: delay, error: redactError(error) });
                     await sleep(delay);
                     continue;
                 }
 
                 // No more retries
+                this.events.emit('request:end', {
+                    ...info,
+                    status: (error as APIError).status,
+                    durationMs: Date.now() - startedAt,
+                    error: redactError(error),
+                });
                 throw error;
             }
         }
     }
 
     /**
-     * Execute single request
+     * Method and redacted URL of a request, for events
+     */
+    private describeRequest(config: RequestConfig): { method: string; url: string } {
+        let url: string;
+        try {
+            url = this.buildURL(config.url, config.params);
+        } catch {
+            url = config.url;
+        }
+        return { method: config.method.toUpperCase(), url: redactURL(url) };
+    }
+
+    /**
+     * Execute single request, in a client span per attempt
      */
     private async executeRequest<T>(
         config: RequestConfig,
-        ctx: TokenKitContext,
+        ctx: TokenKitContext | undefined,
         attempt: number
+    ): Promise<APIResponse<T>> {
+        return withSpan(this.config.tracer, config.method.toUpperCase(), { kind: SPAN_KIND_CLIENT }, (span) => this.sendRequest<T>(config, ctx, attempt, span));
+    }
+
+    private async sendRequest<T>(
+        config: RequestConfig,
+        ctx: TokenKitContext | undefined,
+        attempt: number,
+        span?: TelemetrySpan
     ): Promise<APIResponse<T>> {
         const debug = this.config.debug;
 
@@ -321,7 +485,7 @@ export class APIClient {
         // Ensure valid session (if auth is enabled)
         if (this.tokenManager && !requestConfig.skipAuth) {
             logger.debug(`[TokenKit] Ensuring valid session for ${method} ${requestConfig.url}`, !!debug);
-            await this.tokenManager.ensure(ctx, requestConfig.auth, requestConfig.headers);
+            await this.tokenManager.ensure(ctx!, requestConfig.auth, requestConfig.headers);
         }
 
         // Build full URL
@@ -330,6 +494,11 @@ export class APIClient {
         // Build headers
         const headers = await this.buildHeaders(requestConfig, ctx, fullURL) as Record<string, string>;
         if (method !== 'GET') this.removeHeader(headers, 'if-none-match');
+        if (shouldPropagateTrace(fullURL, this.config.baseURL, this.config.tracePropagationOrigins)) {
+            injectTraceparent(headers, span);
+        }
+        setRequestAttributes(span, method, fullURL);
+        if (attempt > 1) span?.setAttribute('http.request.resend_count', attempt - 1);
 
         const etagEnabled = method === 'GET' && requestConfig.etag === true;
         const etagKey = etagEnabled ? this.resolveEtagKey(fullURL, headers) : undefined;
@@ -380,12 +549,13 @@ export class APIClient {
             }, this.config);
 
             clearTimeout(timeoutId);
+            setResponseStatus(span, response.status);
 
             // Handle 401 (try refresh and retry once)
             if (response.status === 401 && this.tokenManager && !requestConfig.skipAuth && attempt === 1) {
                 logger.debug('[TokenKit] Received 401, attempting force refresh and retry...', !!debug);
                 // Clear and try fresh session (force refresh)
-                const session = await this.tokenManager.ensure(ctx, requestConfig.auth, requestConfig.headers, true);
+                const session = await this.tokenManager.ensure(ctx!, requestConfig.auth, requestConfig.headers, true);
                 if (session) {
                     logger.debug('[TokenKit] Force refresh successful, retrying request...', !!debug);
                     // Retry with new token (re-apply interceptors for the new request)
@@ -394,6 +564,17 @@ export class APIClient {
                 logger.debug('[TokenKit] Force refresh failed or returned no session', !!debug);
             }
 
+            // App tokens can be revoked before they expire; fetch a new one and retry once
+            if (response.status === 401 && this.appTokenManager && !requestConfig.skipAuth && attempt === 1) {
+                logger.debug('[TokenKit] Received 401, discarding app token and retrying...', !!debug);
+                this.appTokenManager.invalidate();
+                return this.executeRequest<T>(config, ctx, attempt + 1);
+            }
+
+            if (etagEnabled) {
+                this.events.emit(response.status === 304 && cachedResponse ? 'etag:hit' : 'etag:miss', { method, url: redactURL(fullURL) });
+            }
+
             // A 304 has no response body. Reuse the last successful representation
             // while exposing the current response metadata to the caller.
             if (response.status === 304 && cachedResponse) {
@@ -558,11 +739,13 @@ export class APIClient {
     /**
      * Build request headers
      */
-    private async buildHeaders(config: RequestConfig, ctx: TokenKitContext, targetURL: string): Promise<HeadersInit> {
-        const resolvedHeaders = await this.config.resolveHeaders?.(ctx, {
-            operation: 'request',
-            request: config,
-        });
+    private async buildHeaders(config: RequestConfig, ctx: TokenKitContext | undefined, targetURL: string): Promise<HeadersInit> {
+        const resolvedHeaders = ctx
+            ? await this.config.resolveHeaders?.(ctx, {
+                operation: 'request',
+                request: config,
+            })
+            : undefined;
         const headers: Record<string, string> = {
             ...this.config.headers,
             ...resolvedHeaders,
@@ -571,11 +754,21 @@ export class APIClient {
 
         // Add auth token if available (only for safe URLs)
         if (this.tokenManager && !config.skipAuth && this.isSafeURL(targetURL)) {
-            const session = await this.tokenManager.getSessionAsync(ctx);
+            const session = await this.tokenManager.getSessionAsync(ctx!);
             if (session?.accessToken) {
-                const injectFn = this.config.auth?.injectToken ?? ((token, type) => `${type ?? 'Bearer'} ${token}`);
-                headers['Authorization'] = injectFn(session.accessToken, session.tokenType);
+                const injectFn = this.authConfig?.injectToken ?? ((token, type) => `${type ?? 'Bearer'} ${token}`);
+                if (config.audience) {
+                    // Downstream services get a token issued for their audience instead of the session token
+                    const exchanged = await this.tokenManager.exchange(ctx!, { audience: config.audience });
+                    headers['Authorization'] = injectFn(exchanged.accessToken, exchanged.tokenType);
+                } else {
+                    headers['Authorization'] = injectFn(session.accessToken, session.tokenType);
+                }
             }
+        } else if (this.appTokenManager && !config.skipAuth && this.isSafeURL(targetURL)) {
+            const token = await this.appTokenManager.getToken();
+            const injectFn = this.authConfig?.injectToken ?? ((token, type) => `${type ?? 'Bearer'} ${token}`);
+            headers['Authorization'] = injectFn(token.accessToken, token.tokenType);
         }
 
         return headers;
@@ -585,7 +778,7 @@ export class APIClient {
         return Object.keys(headers).some((key) => key.toLowerCase() === name.toLowerCase());
     }
 
-    private async applyResponseInterceptors<T>(response: APIResponse<T>, ctx: TokenKitContext): Promise<APIResponse<T>> {
+    private async applyResponseInterceptors<T>(response: APIResponse<T>, ctx: TokenKitContext | undefined): Promise<APIResponse<T>> {
         if (!this.config.interceptors?.response) return response;
 
         let interceptedResponse = response;
@@ -708,15 +901,97 @@ export class APIClient {
     }
 
     /**
-     * Login
+     * Login. Resolves to a LoginChallenge only for clients with auth.mfa
+     * (see TokenKitTypes.mfa).
+     */
+    login(credentials: any, options?: LoginOptions<LoginResponseOf<T>, UserOf<T>>): Promise<APIResponse<LoginResultOf<T>>>;
+    async login(credentials: any, options?: LoginOptions<LoginResponseOf<T>, UserOf<T>>): Promise<APIResponse<TokenBundle<UserOf<T>> | LoginChallenge>> {
+        const tokenManager = this.getTokenManager(options?.provider);
+        if (!tokenManager) {
+            throw new Error('Auth is not configured for this client');
+        }
+
+        const context = this.getContext();
+        return await tokenManager.login(context, credentials, options);
+    }
+
+    /**
+     * Complete a login that returned a LoginChallenge (e.g. MFA)
      */
-    async login(credentials: any, options?: LoginOptions): Promise<APIResponse<TokenBundle>> {
+    async completeLogin(challengeId: string, code: string, options?: LoginOptions<LoginResponseOf<T>, UserOf<T>>): Promise<APIResponse<TokenBundle<UserOf<T>>>> {
+        const tokenManager = this.getTokenManager(options?.provider);
+        if (!tokenManager) {
+            throw new Error('Auth is not configured for this client');
+        }
+
+        const context = this.getContext();
+        return await tokenManager.completeLogin(context, challengeId, code, options);
+    }
+
+    /**
+     * Start the OAuth authorization-code flow.
+     * Returns a redirect response to the identity provider's authorize endpoint.
+     */
+    async authorize(options?: AuthorizeOptions): Promise<Response> {
+        const tokenManager = this.getTokenManager(options?.provider);
+        if (!tokenManager) {
+            throw new Error('Auth is not configured for this client');
+        }
+
+        const context = this.getContext();
+        const url = await tokenManager.createAuthorizationURL(context, options);
+        return new Response(null, {
+            status: 302,
+            headers: { Location: url },
+        });
+    }
+
+    /**
+     * Complete the OAuth authorization-code flow from the callback request
+     */
+    async handleCallback(): Promise<OAuthCallbackResult<UserOf<T>>> {
+        if (!this.tokenManager) {
+            throw new Error('Auth is not configured for this client');
+        }
+
+        const context = this.getContext();
+        return await this.tokenManager.handleCallback(context);
+    }
+
+    /**
+     * Exchange the current session token for a token issued to another audience
+     */
+    async exchange(options: TokenExchangeOptions): Promise<ExchangedToken> {
         if (!this.tokenManager) {
             throw new Error('Auth is not configured for this client');
         }
 
-        const context = getContextStore();
-        return await this.tokenManager.login(context, credentials, options);
+        const context = this.getContext();
+        return await this.tokenManager.exchange(context, options);
+    }
+
+    /**
+     * Act as another user until stopImpersonating() is called
+     */
+    async impersonate(targetUserId: string, options?: ImpersonateOptions): Promise<SessionOf<T>> {
+        if (!this.tokenManager) {
+            throw new Error('Auth is not configured for this client');
+        }
+
+        const context = this.getContext();
+        return await this.tokenManager.impersonate(context, targetUserId, options);
+    }
+
+    /**
+     * Restore the session that started impersonating
+     */
+    async stopImpersonating(): Promise<SessionOf<T> | null> {
+        if (!this.tokenManager) {
+            throw new Error('Auth is not configured for this client');
+        }
+
+        const context = this.getContext();
+        return await this.tokenManager.stopImpersonating(context);
     }
 
     /**
@@ -727,7 +1002,7 @@ export class APIClient {
             throw new Error('Auth is not configured for this client');
         }
 
-        const context = getContextStore();
+        const context = this.getContext();
         await this.tokenManager.logout(context);
     }
 
@@ -737,7 +1012,7 @@ export class APIClient {
     isAuthenticated(): boolean {
         if (!this.tokenManager) return false;
 
-        const context = getContextStore();
+        const context = this.getContext();
         return this.tokenManager.isAuthenticated(context);
     }
 
@@ -747,47 +1022,81 @@ export class APIClient {
     async isAuthenticatedAsync(): Promise<boolean> {
         if (!this.tokenManager) return false;
 
-        const context = getContextStore();
+        const context = this.getContext();
         return this.tokenManager.isAuthenticatedAsync(context);
     }
 
     /**
      * Get current session
      */
-    getSession(): Session | null {
+    getSession(): SessionOf<T> | null {
         if (!this.tokenManager) return null;
 
-        const context = getContextStore();
+        const context = this.getContext();
         return this.tokenManager.getSession(context);
     }
 
     /**
      * Get current session
      */
-    async getSessionAsync(): Promise<Session | null> {
+    async getSessionAsync(): Promise<SessionOf<T> | null> {
         if (!this.tokenManager) return null;
 
-        const context = getContextStore();
+        const context = this.getContext();
         return this.tokenManager.getSessionAsync(context);
     }
 
+    /**
+     * Get the session payload persisted with the tokens, e.g. the user
+     * object from the login response
+     */
+    async getUser<TUser = UserOf<T>>(): Promise<TUser | null> {
+        if (!this.tokenManager) return null;
+
+        const context = this.getContext();
+        return this.tokenManager.getUser<TUser>(context);
+    }
+
+    /**
+     * Check a permission (e.g. 'orders:write') or claim requirement against the current session
+     */
+    async can(requirement: string | ClaimRequirement): Promise<boolean> {
+        if (!this.tokenManager) return false;
+
+        const context = this.getContext();
+        return this.tokenManager.can(context, requirement);
+    }
+
+    /**
+     * Require roles or permissions for a page or endpoint.
+     * Throws AuthError 401 without a session and 403 when a claim is missing.
+     */
+    async requireClaims(requirement: string | ClaimRequirement): Promise<SessionOf<T>> {
+        if (!this.tokenManager) {
+            throw new Error('Auth is not configured for this client');
+        }
+
+        const context = this.getContext();
+        return this.tokenManager.requireClaims(context, requirement);
+    }
+
     /**
      * Get a valid session, refreshing tokens when possible
      */
-    async getValidSessionAsync(options?: AuthOptions): Promise<Session | null> {
+    async getValidSessionAsync(options?: AuthOptions): Promise<SessionOf<T> | null> {
         if (!this.tokenManager) return null;
 
-        const context = getContextStore();
+        const context = this.getContext();
         return this.tokenManager.ensure(context, options);
     }
 
     /**
      * Manually refresh the current session, even if the access token is still valid
      */
-    async refreshSessionAsync(options?: RefreshOptions): Promise<Session | null> {
+    async refreshSessionAsync(options?: RefreshOptions): Promise<SessionOf<T> | null> {
         if (!this.tokenManager) return null;
 
-        const context = getContextStore();
+        const context = this.getContext();
         const { headers, ...authOptions } = options ?? {};
         return this.tokenManager.ensure(context, authOptions, headers, true);
     }
@@ -806,8 +1115,14 @@ export const api = new APIClient();
  * Create API client.
  * 
  * If no configuration is provided, it returns the global `api` singleton.
+ * Pass TokenKitTypes to type sessions, users, and login responses:
+ * `createClient<{ user: Me; claims: Claims }>()`.
  */
-export function createClient(config?: Partial<TokenKitConfig>): APIClient {
+export function createClient<T extends TokenKitTypes = TokenKitTypes>(
+    config: Partial<TokenKitConfig<T>> & { auth: { mfa: LoginChallengeConfig } }
+): APIClient<T & { mfa: true }>;
+export function createClient<T extends TokenKitTypes = TokenKitTypes>(config?: Partial<TokenKitConfig<T>>): APIClient<T>;
+export function createClient<T extends TokenKitTypes = TokenKitTypes>(config?: Partial<TokenKitConfig<T>>): APIClient<T> {
     if (!config) return api;
-    return new APIClient(config);
+    return new APIClient<T>(config);
 }
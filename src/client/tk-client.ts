@@ -1,7 +1,7 @@
 import { IdleManager } from './idle-manager';
 
-// Global config injected by Vite
-declare const __TOKENKIT_CONFIG__: any;
+// Browser-safe settings injected by Vite (see getClientConfig())
+declare const __TOKENKIT_CLIENT_CONFIG__: any;
 
 const IDLE_LOGOUT_COOKIE = '_tk_idle_logout';
 const DEFAULT_KEEPALIVE_INTERVAL_SECONDS = 60;
@@ -30,7 +30,7 @@ function reloadAfterIdle(config: any) {
 }
 
 function touchAstroSession(config: any) {
-    if (!config.auth || config.idle.keepAlive !== true) return;
+    if (!config.hasAuth || config.idle.keepAlive !== true) return;
 
     const interval = Math.max(1, config.idle.keepAliveInterval ?? DEFAULT_KEEPALIVE_INTERVAL_SECONDS) * 1000;
     const now = Date.now();
@@ -51,7 +51,7 @@ function touchAstroSession(config: any) {
 }
 
 if (typeof window !== 'undefined') {
-    const config = typeof __TOKENKIT_CONFIG__ !== 'undefined' ? __TOKENKIT_CONFIG__ : {};
+    const config = typeof __TOKENKIT_CLIENT_CONFIG__ !== 'undefined' ? __TOKENKIT_CLIENT_CONFIG__ : {};
     
     // Initialize Idle Monitoring if configured
     if (config.idle && config.idle.timeout > 0) {
@@ -61,21 +61,17 @@ if (typeof window !== 'undefined') {
             onIdle: () => {
                 // Mark the browser session for server-side cleanup on the next
                 // Astro request, even when no remote logout endpoint is configured.
-                if (config.idle.autoLogout !== false && config.auth) {
+                if (config.idle.autoLogout !== false && config.hasAuth) {
                     markIdleLogout();
 
                     callConfiguredIdleHandler(config.idle.onIdle);
 
-                    if (!config.auth.logout) {
+                    if (!config.logout) {
                         reloadAfterIdle(config);
                         return;
                     }
 
-                    const logoutURL = config.auth.logout.startsWith('http') 
-                        ? config.auth.logout 
-                        : (config.baseURL || '') + config.auth.logout;
-                    
-                    fetch(logoutURL, { 
+                    fetch(config.logout, { 
                         method: 'POST',
                         credentials: 'include'
                     }).finally(() => {
@@ -2,9 +2,14 @@
 
 import type { TokenKitConfig } from "./types";
 import { TokenManager } from "./auth/manager";
+import { assertValidIssuer } from "./auth/discovery";
+import { DEFAULT_AUTH_PROVIDER, getAuthProviders, selectAuthProvider } from "./auth/providers";
+import { logger } from "./utils/logger";
+import { getRoutesConfig } from "./routes/shared";
 
 const CONFIG_KEY = Symbol.for('astro-tokenkit.config');
 const MANAGER_KEY = Symbol.for('astro-tokenkit.manager');
+const MANAGERS_KEY = Symbol.for('astro-tokenkit.managers');
 
 const globalStorage = globalThis as any;
 
@@ -42,24 +47,53 @@ export function setConfig(userConfig: TokenKitConfig): void {
         throw new Error("[TokenKit] getContextStore and setContextStore must be defined together.");
     }
 
+    const providers = getAuthProviders(finalConfig.auth);
+    for (const auth of providers.values()) {
+        if (auth.issuer) {
+            assertValidIssuer(auth.issuer);
+        }
+    }
+
+    // Fail fast on an unknown default provider
+    const defaultProvider = selectAuthProvider(finalConfig.auth, finalConfig.authProvider);
+    for (const provider of [finalConfig.protect?.provider, getRoutesConfig(finalConfig).provider]) {
+        if (provider) selectAuthProvider(finalConfig.auth, provider);
+    }
+
     globalStorage[CONFIG_KEY] = finalConfig;
 
-    // Re-initialize global token manager if auth changed
-    if (finalConfig.auth) {
+    // Re-initialize a token manager per auth provider. App-token providers
+    // (client_credentials) have no user session for the middleware to manage.
+    const managers = new Map<string, TokenManager>();
+    for (const [name, auth] of providers) {
+        if (auth.grant === 'client_credentials') continue;
+
         const authConfig = {
-            ...finalConfig.auth,
+            ...auth,
             headers: {
                 ...finalConfig.headers,
-                ...finalConfig.auth.headers,
+                ...auth.headers,
             },
-            resolveHeaders: finalConfig.auth.resolveHeaders ?? finalConfig.resolveHeaders,
-            fetch: finalConfig.auth.fetch ?? finalConfig.fetch,
-            dangerouslyIgnoreCertificateErrors: finalConfig.auth.dangerouslyIgnoreCertificateErrors ?? finalConfig.dangerouslyIgnoreCertificateErrors,
+            resolveHeaders: auth.resolveHeaders ?? finalConfig.resolveHeaders,
+            fetch: auth.fetch ?? finalConfig.fetch,
+            tracer: auth.tracer ?? finalConfig.tracer,
+            dangerouslyIgnoreCertificateErrors: auth.dangerouslyIgnoreCertificateErrors ?? finalConfig.dangerouslyIgnoreCertificateErrors,
         };
-        globalStorage[MANAGER_KEY] = new TokenManager(authConfig, finalConfig.baseURL);
-    } else {
-        globalStorage[MANAGER_KEY] = undefined;
+        const manager = new TokenManager(authConfig, finalConfig.baseURL);
+        managers.set(name, manager);
+
+        // Warm the discovery cache so a misconfigured issuer is reported at startup
+        // rather than on the first login or refresh.
+        if (authConfig.issuer) {
+            const issuer = authConfig.issuer;
+            manager.discover().catch((error) => {
+                logger.error(`[TokenKit] ${error.message}. Auth requests will retry discovery for ${issuer}.`);
+            });
+        }
     }
+
+    globalStorage[MANAGERS_KEY] = managers;
+    globalStorage[MANAGER_KEY] = defaultProvider ? managers.get(defaultProvider.name) : undefined;
 }
 
 /**
@@ -70,17 +104,43 @@ export function getConfig(): ResolvedConfig {
 }
 
 /**
- * Get global token manager
+ * Get global token manager for a named auth provider (default: the default provider)
  */
-export function getTokenManager(): TokenManager | undefined {
-    return globalStorage[MANAGER_KEY];
+export function getTokenManager(provider?: string): TokenManager | undefined {
+    if (provider === undefined) return globalStorage[MANAGER_KEY];
+    return getTokenManagers().get(provider);
+}
+
+/**
+ * Get the global token managers of all user-session auth providers, keyed by provider name
+ */
+export function getTokenManagers(): ReadonlyMap<string, TokenManager> {
+    const managers = globalStorage[MANAGERS_KEY] as Map<string, TokenManager> | undefined;
+    if (managers) return managers;
+
+    // Managers installed through setTokenManager() without setConfig()
+    const manager = globalStorage[MANAGER_KEY] as TokenManager | undefined;
+    return manager ? new Map([[DEFAULT_AUTH_PROVIDER, manager]]) : new Map();
 }
 
 /**
  * Set global token manager (mainly for testing)
  */
-export function setTokenManager(manager: TokenManager | undefined): void {
-    globalStorage[MANAGER_KEY] = manager;
+export function setTokenManager(manager: TokenManager | undefined, provider?: string): void {
+    if (provider === undefined) {
+        // Replaces every provider with this single default manager
+        globalStorage[MANAGER_KEY] = manager;
+        globalStorage[MANAGERS_KEY] = undefined;
+        return;
+    }
+
+    const managers = new Map(getTokenManagers());
+    if (manager) {
+        managers.set(provider, manager);
+    } else {
+        managers.delete(provider);
+    }
+    globalStorage[MANAGERS_KEY] = managers;
 }
 
 // Handle injected configuration from Astro integration
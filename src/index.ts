@@ -10,12 +10,26 @@ export { tokenKit, defineMiddleware } from './integration';
 export { createMiddleware } from './middleware';
 
 // Configuration
-export { setConfig, getConfig, setTokenManager, getTokenManager } from './config';
+export { setConfig, getConfig, setTokenManager, getTokenManager, getTokenManagers } from './config';
 
 // Types
 export type {
     ClientConfig,
     AuthConfig,
+    AuthProviders,
+    OAuthConfig,
+    AuthorizeOptions,
+    OAuthCallbackResult,
+    OIDCDiscoveryDocument,
+    TokenVerificationConfig,
+    AuthGrant,
+    AppToken,
+    TokenExchangeConfig,
+    TokenExchangeOptions,
+    ExchangedToken,
+    TokenRevocationConfig,
+    TokenIntrospectionConfig,
+    IntrospectionResult,
     RefreshPolicy,
     CookieConfig,
     RetryConfig,
@@ -37,18 +51,55 @@ export type {
     APIResponse,
     Session,
     TokenBundle,
+    TokenKitTypes,
+    UserOf,
+    ClaimsOf,
+    LoginResponseOf,
+    LoginResultOf,
+    SessionOf,
     FieldMapping,
     RequestInterceptor,
     ResponseInterceptor,
     ErrorInterceptor,
     TokenKitContext,
     TokenKitConfig,
+    RouteProtectionConfig,
+    AuthRoutesConfig,
+    CsrfConfig,
     RefreshOptions,
     LoginOptions,
+    LoginChallenge,
+    LoginChallengeConfig,
+    LoginChallengeStore,
+    PendingLoginChallenge,
+    ImpersonationConfig,
+    ImpersonateOptions,
+    ClaimsMapping,
+    ClaimRequirement,
+    SessionClaims,
+    RouteClaimRule,
+    TelemetryTracer,
+    TelemetrySpan,
+    TelemetrySpanOptions,
+    TelemetryAttributeValue,
+    TokenKitEvents,
+    TokenKitEventName,
+    TokenKitEventListener,
+    TokenKitEventError,
+    RedactedTokenBundle,
+    RequestEventInfo,
     OnLoginCallback,
     OnErrorCallback,
     OnSessionInvalidCallback,
+    OnLogoutErrorCallback,
+    OnRefreshTokenReuseCallback,
+    RefreshTokenRecord,
+    RefreshTokenFamilyStore,
+    ReuseDetectionConfig,
+    RefreshLockProvider,
+    RefreshLockConfig,
     TokenStorageConfig,
+    CookieEncryptionConfig,
     TokenStorageRecord,
     TokenStorageType,
     TokenSessionProvider,
@@ -62,6 +113,21 @@ export {
     TimeoutError,
 } from './types';
 
+// Refresh token families
+export { MemoryRefreshTokenFamilyStore } from './auth/families';
+
+// Login challenges
+export { MemoryLoginChallengeStore, isLoginChallenge } from './auth/challenge';
+
+// Astro.locals.tokenkit (also augments App.Locals)
+export type { TokenKitLocals } from './locals';
+
+// CSRF helpers
+export { getCsrfToken, csrfField } from './auth/csrf';
+
+// Refresh locks
+export { MemoryRefreshLock, FileSystemRefreshLock } from './auth/lock';
+
 // Utilities (for advanced users)
 export { runWithContext, getContextStore } from './client/context';
 export { parseTime, formatTime } from './utils/time';
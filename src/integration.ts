@@ -5,6 +5,9 @@ import { createMiddleware } from './middleware';
 import type { TokenKitConfig } from './types';
 import { setConfig } from './config';
 import { logger } from './utils/logger';
+import { DEFAULT_OAUTH_CALLBACK_PATH } from './auth/oauth';
+import { getAuthProviders, selectAuthProvider } from './auth/providers';
+import { getAuthRoutes } from './routes/shared';
 
 /**
  * Astro integration for TokenKit
@@ -12,9 +15,11 @@ import { logger } from './utils/logger';
  * This integration facilitates the setup of TokenKit in an Astro project.
  * It performs the following:
  * - Sets the global configuration for the API client.
- * - Injects the configuration into the client-side via Vite's `define`.
+ * - Injects the configuration into server bundles, and only the idle settings into the browser bundle.
  * - Automatically registers the TokenKit middleware (unless `autoMiddleware` is set to `false`).
  * - Injects a client-side script (`astro-tokenkit/client-init`) to handle idle session monitoring and automatic logout.
+ * - Injects the OAuth callback route when `auth.oauth` is configured.
+ * - Injects login, logout, and refresh endpoints when `routes` is set.
  * 
  * @param config - TokenKit configuration options.
  * 
@@ -47,7 +52,7 @@ export function tokenKit(config: TokenKitConfig): AstroIntegration {
         logger.warn('[TokenKit] Passing a function to "idle.onIdle" in astro.config.mjs is not supported because it is not serializable. Use a string name of a global function or window.addEventListener("tk:idle", ...) instead.');
     }
 
-    // Create a serializable version of the config for the runtime
+    // Create a serializable version of the config for the server runtime
     const serializableConfig = JSON.parse(JSON.stringify(config, (key, value) => {
         if (typeof value === 'function') return undefined;
         return value;
@@ -56,12 +61,15 @@ export function tokenKit(config: TokenKitConfig): AstroIntegration {
     return {
         name: 'astro-tokenkit',
         hooks: {
-            'astro:config:setup': ({ updateConfig, addMiddleware, injectScript }) => {
+            'astro:config:setup': ({ updateConfig, addMiddleware, injectScript, injectRoute }) => {
                 updateConfig({
                     vite: {
+                        // Vite defines every entry on window during dev, so only
+                        // browser-safe settings go through define
                         define: {
-                            '__TOKENKIT_CONFIG__': JSON.stringify(serializableConfig)
-                        }
+                            '__TOKENKIT_CLIENT_CONFIG__': JSON.stringify(getClientConfig(config))
+                        },
+                        plugins: [serverConfigPlugin(serializableConfig)],
                     }
                 });
 
@@ -73,6 +81,28 @@ export function tokenKit(config: TokenKitConfig): AstroIntegration {
                     });
                 }
 
+                // Register the authorization-code callback for each OAuth provider
+                const callbackPaths = new Set<string>();
+                for (const auth of getAuthProviders(config.auth).values()) {
+                    if (auth.oauth) callbackPaths.add(auth.oauth.callbackPath ?? DEFAULT_OAUTH_CALLBACK_PATH);
+                }
+                for (const pattern of callbackPaths) {
+                    injectRoute({
+                        pattern,
+                        entrypoint: 'astro-tokenkit/oauth-callback',
+                        prerender: false,
+                    });
+                }
+
+                // Prebuilt login, logout, and refresh endpoints
+                for (const [name, pattern] of Object.entries(getAuthRoutes(config))) {
+                    injectRoute({
+                        pattern,
+                        entrypoint: `astro-tokenkit/${name}`,
+                        prerender: false,
+                    });
+                }
+
                 // Always inject the client-side script for idle monitoring
                 injectScript('page', `import 'astro-tokenkit/client-init';`);
 
@@ -82,6 +112,48 @@ export function tokenKit(config: TokenKitConfig): AstroIntegration {
     };
 }
 
+/**
+ * Settings of the browser bootstrap (astro-tokenkit/client-init). Never
+ * includes auth endpoints' secrets or storage keys.
+ */
+export interface TokenKitClientConfig {
+    idle?: TokenKitConfig['idle'];
+    /** Whether a user-session auth provider is configured */
+    hasAuth: boolean;
+    /** Absolute or baseURL-relative logout endpoint of the default provider */
+    logout?: string;
+}
+
+export function getClientConfig(config: TokenKitConfig): TokenKitClientConfig {
+    const auth = selectAuthProvider(config.auth, config.authProvider)?.config;
+    const hasAuth = !!auth && auth.grant !== 'client_credentials';
+    const logout = hasAuth && auth.logout
+        ? (auth.logout.startsWith('http') ? auth.logout : (config.baseURL || '') + auth.logout)
+        : undefined;
+
+    return JSON.parse(JSON.stringify({
+        idle: config.idle,
+        hasAuth,
+        logout,
+    }, (key, value) => typeof value === 'function' ? undefined : value));
+}
+
+/**
+ * Replace __TOKENKIT_CONFIG__ in server modules only, so the full config
+ * (client secrets, encryption keys) never reaches the browser
+ */
+export function serverConfigPlugin(config: unknown) {
+    const serialized = `(${JSON.stringify(config)})`;
+
+    return {
+        name: 'astro-tokenkit:server-config',
+        transform(code: string, _id: string, options?: { ssr?: boolean }) {
+            if (!options?.ssr || !code.includes('__TOKENKIT_CONFIG__')) return null;
+            return { code: code.replace(/\b__TOKENKIT_CONFIG__\b/g, serialized), map: null };
+        },
+    };
+}
+
 /**
  * Helper to create the TokenKit middleware.
  * 
@@ -0,0 +1,54 @@
+// packages/astro-tokenkit/src/locals.ts
+
+import { api } from './client/client';
+import type { APIClient } from './client/client';
+import type { Session, SessionOf, TokenKitContext, TokenKitTypes, UserOf } from './types';
+
+/**
+ * TokenKit state of the current request, available as Astro.locals.tokenkit.
+ * Narrow it with `Astro.locals.tokenkit as TokenKitLocals<AppTypes>`.
+ */
+export interface TokenKitLocals<T extends TokenKitTypes = TokenKitTypes> {
+    /**
+     * Session resolved by the middleware: of protect.provider when set, else of
+     * the default auth provider, else of the first provider holding one
+     */
+    readonly session: SessionOf<T> | null;
+    /** Session payload persisted with the tokens (session.user) */
+    readonly user: UserOf<T> | null;
+    readonly isAuthenticated: boolean;
+    /** API client bound to the current request and the provider of the session */
+    readonly client: APIClient<T>;
+}
+
+declare global {
+    namespace App {
+        interface Locals {
+            tokenkit: TokenKitLocals;
+        }
+    }
+}
+
+/**
+ * Define locals.tokenkit as a lazy getter, so requests that never read it
+ * only pay for the property definition
+ */
+export function defineTokenKitLocals(ctx: TokenKitContext, session: Session | null, provider?: string): void {
+    const { locals } = ctx;
+    if (!locals || typeof locals !== 'object') return;
+
+    let value: TokenKitLocals | undefined;
+    Object.defineProperty(locals, 'tokenkit', {
+        configurable: true,
+        enumerable: false,
+        get() {
+            value ??= {
+                session,
+                user: session?.user ?? null,
+                isAuthenticated: !!session,
+                client: api.withContext(ctx, provider),
+            };
+            return value;
+        },
+    });
+}
@@ -2,23 +2,33 @@
 
 import type {MiddlewareHandler} from 'astro';
 import {runWithContext as defaultRunWithContext} from './client/context';
-import {getConfig, getTokenManager} from './config';
+import {getConfig, getTokenManager, getTokenManagers} from './config';
+import {isAuthProviders, selectAuthProvider} from './auth/providers';
 import {logger} from './utils/logger';
+import {matchesRoute} from './utils/routes';
+import {satisfiesClaims} from './auth/authorization';
+import {ensureCsrfToken, getCsrfConfig, requiresCsrfCheck, verifyCsrfRequest} from './auth/csrf';
+import {getInjectedAuthPaths, wantsJSON} from './routes/shared';
+import {defineTokenKitLocals} from './locals';
+import type {TokenManager} from './auth/manager';
+import type {RouteProtectionConfig, Session} from './types';
 
 const LOGGED_KEY = Symbol.for('astro-tokenkit.middleware.logged');
 const IDLE_LOGOUT_COOKIE = '_tk_idle_logout';
+const DEFAULT_LOGIN_REDIRECT = '/login';
+const DEFAULT_API_ROUTES = ['/api/**'];
 
 /**
- * Create middleware for context binding and automatic token rotation
+ * Create middleware for context binding, automatic token rotation, CSRF checks, and route protection
  */
 export function createMiddleware(): MiddlewareHandler {
     return async (ctx, next) => {
-        const tokenManager = getTokenManager();
+        const tokenManagers = getTokenManagers();
         const config = getConfig();
 
         const globalStorage = globalThis as any;
         if (!globalStorage[LOGGED_KEY]) {
-            const authStatus = tokenManager ? 'enabled' : 'disabled';
+            const authStatus = tokenManagers.size ? 'enabled' : 'disabled';
             let contextStrategy = 'default';
 
             if (config.runWithContext) {
@@ -34,22 +44,74 @@ export function createMiddleware(): MiddlewareHandler {
         }
 
         const runLogic = async () => {
-            // Proactively ensure a valid session if auth is configured
-            if (tokenManager) {
-                try {
-                    if (ctx.cookies.get(IDLE_LOGOUT_COOKIE)?.value === '1') {
-                        await tokenManager.clear(ctx);
-                        ctx.cookies.delete(IDLE_LOGOUT_COOKIE, { path: '/' });
-                        return next();
+            // Rejected before any token work, so forged requests never trigger a refresh
+            const csrf = getCsrfConfig(config);
+            if (csrf) {
+                const cookies = selectAuthProvider(config.auth, config.authProvider)?.config.cookies;
+                const csrfToken = await ensureCsrfToken(ctx, csrf, cookies);
+                if (requiresCsrfCheck(ctx.request.method, ctx.url.pathname, csrf)) {
+                    const reason = await verifyCsrfRequest(ctx, csrfToken, csrf);
+                    if (reason) {
+                        logger.debug(`[TokenKit] Rejected ${ctx.request.method} ${ctx.url.pathname}: CSRF ${reason}`, !!config.debug);
+                        return rejectCsrf(ctx.request);
                     }
+                }
+            }
+
+            // Sessions that count for route protection
+            const sessions: Array<{ tokenManager: TokenManager; session: Session }> = [];
+            // Session exposed as locals.tokenkit: of the preferred provider, else of the first one holding a session
+            let localSession: { provider: string; session: Session } | undefined;
+            const preferredManager = getTokenManager(config.protect?.provider);
+
+            // Proactively ensure a valid session for every configured provider
+            if (tokenManagers.size) {
+                if (ctx.cookies.get(IDLE_LOGOUT_COOKIE)?.value === '1') {
+                    for (const [provider, tokenManager] of tokenManagers) {
+                        try {
+                            await tokenManager.clear(ctx);
+                        } catch (error: any) {
+                            logger.debug(`[TokenKit] Idle logout failed for provider "${provider}":`, !!config.debug, error.message || error);
+                        }
+                    }
+                    ctx.cookies.delete(IDLE_LOGOUT_COOKIE, { path: '/' });
+                } else {
+                    // Named providers are only rotated when they hold a session, so
+                    // signing in to one does not invalidate the others
+                    const namedProviders = isAuthProviders(config.auth);
+                    for (const [provider, tokenManager] of tokenManagers) {
+                        try {
+                            if (namedProviders && !await tokenManager.hasStoredTokens(ctx)) continue;
+
+                            // This handles token rotation (refresh) if needed
+                            const session = await tokenManager.ensure(ctx);
+                            if (session && (!localSession || tokenManager === preferredManager)) {
+                                localSession = { provider, session };
+                            }
+                            if (session && (!config.protect?.provider || config.protect.provider === provider)) {
+                                sessions.push({ tokenManager, session });
+                            }
+                        } catch (error: any) {
+                            // Log only the message to avoid leaking sensitive data in the error object
+                            logger.debug(`[TokenKit] Automatic token rotation failed for provider "${provider}":`, !!config.debug, error.message || error);
+                        }
+                    }
+                }
+            }
 
-                    // This handles token rotation (refresh) if needed
-                    await tokenManager.ensure(ctx);
-                } catch (error: any) {
-                    // Log only the message to avoid leaking sensitive data in the error object
-                    logger.debug('[TokenKit] Automatic token rotation failed:', !!config.debug, error.message || error);
+            // Checked after rotation so a just-refreshed session counts as authenticated
+            if (config.protect) {
+                const denied = authorizeRoute(ctx.url, config.protect, sessions, getInjectedAuthPaths(config));
+                if (denied) {
+                    logger.debug(`[TokenKit] Blocked request to ${ctx.url.pathname} (${denied.status})`, !!config.debug);
+                    return denied;
                 }
             }
+
+            // Single-auth configs bind the client to their only provider implicitly
+            const localProvider = isAuthProviders(config.auth) ? localSession?.provider : undefined;
+            defineTokenKitLocals(ctx, localSession?.session ?? null, localProvider);
+
             return next();
         };
 
@@ -72,6 +134,86 @@ export function createMiddleware(): MiddlewareHandler {
     };
 }
 
+/**
+ * Apply the protect config to a request. Returns the response to send
+ * instead of rendering the route, or null to continue.
+ */
+function authorizeRoute(
+    url: URL,
+    protect: RouteProtectionConfig,
+    sessions: Array<{ tokenManager: TokenManager; session: Session }>,
+    publicPaths: string[]
+): Response | null {
+    const login = getLoginURL(url, protect);
+    if (login.origin === url.origin && matchesRoute(url.pathname, [login.pathname])) return null;
+    if (matchesRoute(url.pathname, publicPaths)) return null;
+
+    // Claim rules apply to their paths even when those are excluded
+    const rules = (protect.rules ?? []).filter((rule) => matchesRoute(url.pathname, rule.paths));
+
+    if (!sessions.length) {
+        const isProtected = rules.length > 0 || (
+            !(protect.exclude && matchesRoute(url.pathname, protect.exclude)) &&
+            matchesRoute(url.pathname, protect.include ?? ['/**'])
+        );
+        return isProtected ? denyAccess(url, protect) : null;
+    }
+
+    const allowed = sessions.some(({ tokenManager, session }) => {
+        const claims = tokenManager.getClaims(session);
+        return rules.every((rule) => satisfiesClaims(claims, rule));
+    });
+    return allowed ? null : forbidAccess(url, protect);
+}
+
+/**
+ * 403 for signed-in users missing a required claim
+ */
+function forbidAccess(url: URL, protect: RouteProtectionConfig): Response {
+    if (matchesRoute(url.pathname, protect.apiRoutes ?? DEFAULT_API_ROUTES)) {
+        return new Response(JSON.stringify({ error: 'forbidden', message: 'Insufficient permissions' }), {
+            status: 403,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+    return new Response('Forbidden', { status: 403 });
+}
+
+function getLoginURL(url: URL, protect: RouteProtectionConfig): URL {
+    return new URL(protect.loginRedirect ?? DEFAULT_LOGIN_REDIRECT, url.origin);
+}
+
+/**
+ * JSON 401 for API routes, otherwise a redirect to the login page that keeps
+ * the requested path for after sign-in
+ */
+function denyAccess(url: URL, protect: RouteProtectionConfig): Response {
+    if (matchesRoute(url.pathname, protect.apiRoutes ?? DEFAULT_API_ROUTES)) {
+        return new Response(JSON.stringify({ error: 'unauthorized', message: 'Authentication required' }), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    const login = getLoginURL(url, protect);
+    login.searchParams.set(protect.returnToParam ?? 'returnTo', `${url.pathname}${url.search}`);
+    const location = login.origin === url.origin
+        ? `${login.pathname}${login.search}${login.hash}`
+        : login.toString();
+
+    return new Response(null, { status: 302, headers: { Location: location } });
+}
+
+function rejectCsrf(request: Request): Response {
+    if (wantsJSON(request)) {
+        return new Response(JSON.stringify({ error: 'invalid_csrf_token' }), {
+            status: 403,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+    return new Response('Invalid CSRF token', { status: 403 });
+}
+
 /**
  * Standard Astro middleware export for autoinjection
  */
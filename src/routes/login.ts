@@ -0,0 +1,77 @@
+// packages/astro-tokenkit/src/routes/login.ts
+
+import type { APIRoute } from 'astro';
+import { getConfig, getTokenManager } from '../config';
+import { isLoginChallenge } from '../auth/challenge';
+import { DEFAULT_CSRF_FIELD, getCsrfConfig } from '../auth/csrf';
+import { logger } from '../utils/logger';
+import { sanitizeReturnTo } from '../utils/redirect';
+import { getReturnToParam, getRoutesConfig, jsonResponse, readRequestData, wantsJSON, withParams } from './shared';
+
+export const prerender = false;
+
+/**
+ * Login endpoint injected by the TokenKit integration. Accepts form posts
+ * (answered with redirects) and JSON requests (answered with JSON).
+ */
+export const POST: APIRoute = async (ctx) => {
+    const config = getConfig();
+    const routes = getRoutesConfig(config);
+    const tokenManager = getTokenManager(routes.provider);
+
+    if (!tokenManager) {
+        return new Response('TokenKit auth is not configured', { status: 500 });
+    }
+
+    const json = wantsJSON(ctx.request);
+    const returnToParam = getReturnToParam(config);
+
+    let data: Record<string, any>;
+    try {
+        data = await readRequestData(ctx.request);
+    } catch {
+        return jsonResponse({ error: 'invalid_request' }, 400);
+    }
+
+    // The return path and CSRF token are not credentials and never reach the auth server
+    const csrf = getCsrfConfig(config);
+    if (csrf) {
+        delete data[csrf.fieldName ?? DEFAULT_CSRF_FIELD];
+    }
+    const { [returnToParam]: bodyReturnTo, ...credentials } = data;
+    const requestedReturnTo = bodyReturnTo ?? ctx.url.searchParams.get(returnToParam) ?? undefined;
+    const returnTo = sanitizeReturnTo(requestedReturnTo, routes.successRedirect ?? '/');
+    const failureRedirect = routes.failureRedirect ?? config.protect?.loginRedirect ?? '/login';
+    const keepReturnTo = requestedReturnTo !== undefined ? returnTo : undefined;
+
+    try {
+        const { data: result } = await tokenManager.login(ctx, credentials);
+
+        if (isLoginChallenge(result)) {
+            if (json) {
+                const { body: _, ...challenge } = result;
+                return jsonResponse({ ...challenge, returnTo });
+            }
+            return ctx.redirect(withParams(routes.challengeRedirect ?? failureRedirect, {
+                challenge: result.challengeId,
+                [returnToParam]: keepReturnTo,
+            }), 303);
+        }
+
+        if (json) {
+            return jsonResponse({ authenticated: true, expiresAt: result.accessExpiresAt, returnTo });
+        }
+        return ctx.redirect(returnTo, 303);
+    } catch (error: any) {
+        logger.debug('[TokenKit] Login route failed:', !!config.debug, error.message || error);
+
+        // 4xx from the auth server means rejected credentials; anything else is an upstream failure
+        const rejected = typeof error.status === 'number' && error.status >= 400 && error.status < 500;
+        const code = rejected ? 'invalid_credentials' : 'login_failed';
+
+        if (json) {
+            return jsonResponse({ error: code }, rejected ? error.status : 502);
+        }
+        return ctx.redirect(withParams(failureRedirect, { error: code, [returnToParam]: keepReturnTo }), 303);
+    }
+};
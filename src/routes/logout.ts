@@ -0,0 +1,37 @@
+// packages/astro-tokenkit/src/routes/logout.ts
+
+import type { APIRoute } from 'astro';
+import { getConfig, getTokenManager } from '../config';
+import { sanitizeReturnTo } from '../utils/redirect';
+import { getReturnToParam, getRoutesConfig, jsonResponse, readRequestData, wantsJSON } from './shared';
+
+export const prerender = false;
+
+/**
+ * Logout endpoint injected by the TokenKit integration. POST only, so a
+ * link or image on another site cannot sign the user out.
+ */
+export const POST: APIRoute = async (ctx) => {
+    const config = getConfig();
+    const routes = getRoutesConfig(config);
+    const tokenManager = getTokenManager(routes.provider);
+
+    if (!tokenManager) {
+        return new Response('TokenKit auth is not configured', { status: 500 });
+    }
+
+    const returnToParam = getReturnToParam(config);
+    const data = await readRequestData(ctx.request).catch(() => ({} as Record<string, any>));
+    const returnTo = sanitizeReturnTo(
+        data[returnToParam] ?? ctx.url.searchParams.get(returnToParam),
+        routes.logoutRedirect ?? '/'
+    );
+
+    // Clears the local session even when the auth server cannot be reached
+    await tokenManager.logout(ctx);
+
+    if (wantsJSON(ctx.request)) {
+        return jsonResponse({ authenticated: false, returnTo });
+    }
+    return ctx.redirect(returnTo, 303);
+};
@@ -0,0 +1,41 @@
+// packages/astro-tokenkit/src/routes/oauth-callback.ts
+
+import type { APIRoute } from 'astro';
+import { getConfig, getTokenManager } from '../config';
+import { DEFAULT_OAUTH_CALLBACK_PATH, getOAuthStateCookieName } from '../auth/oauth';
+import { getAuthProviders } from '../auth/providers';
+import { logger } from '../utils/logger';
+import { sanitizeReturnTo } from '../utils/redirect';
+
+export const prerender = false;
+
+/**
+ * OAuth authorization-code callback injected by the TokenKit integration.
+ * Exchanges the code for tokens and redirects back into the app.
+ */
+export const GET: APIRoute = async (ctx) => {
+    const config = getConfig();
+
+    // Providers sharing a callback path are told apart by their state cookie
+    const candidates = [...getAuthProviders(config.auth)].filter(([, auth]) =>
+        auth.oauth && (auth.oauth.callbackPath ?? DEFAULT_OAUTH_CALLBACK_PATH) === ctx.url.pathname
+    );
+    const [provider, auth] = candidates.find(([, auth]) =>
+        ctx.cookies.get(getOAuthStateCookieName(auth.cookies?.prefix))
+    ) ?? candidates[0] ?? [];
+
+    const tokenManager = provider !== undefined ? getTokenManager(provider) : undefined;
+    const oauth = auth?.oauth;
+
+    if (!tokenManager || !oauth) {
+        return new Response('TokenKit OAuth is not configured', { status: 500 });
+    }
+
+    try {
+        const { returnTo } = await tokenManager.handleCallback(ctx);
+        return ctx.redirect(returnTo, 302);
+    } catch (error: any) {
+        logger.debug('[TokenKit] OAuth callback failed:', !!config.debug, error.message || error);
+        return ctx.redirect(sanitizeReturnTo(oauth.errorRedirect), 302);
+    }
+};
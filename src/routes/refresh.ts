@@ -0,0 +1,32 @@
+// packages/astro-tokenkit/src/routes/refresh.ts
+
+import type { APIRoute } from 'astro';
+import { getConfig, getTokenManager } from '../config';
+import { logger } from '../utils/logger';
+import { getRoutesConfig, jsonResponse } from './shared';
+
+export const prerender = false;
+
+/**
+ * Refresh endpoint injected by the TokenKit integration. Rotates the
+ * session even when the access token is still valid and answers with JSON.
+ */
+export const POST: APIRoute = async (ctx) => {
+    const config = getConfig();
+    const tokenManager = getTokenManager(getRoutesConfig(config).provider);
+
+    if (!tokenManager) {
+        return new Response('TokenKit auth is not configured', { status: 500 });
+    }
+
+    try {
+        const session = await tokenManager.ensure(ctx, undefined, undefined, true);
+        if (session) {
+            return jsonResponse({ authenticated: true, expiresAt: session.expiresAt });
+        }
+    } catch (error: any) {
+        logger.debug('[TokenKit] Refresh route failed:', !!config.debug, error.message || error);
+    }
+
+    return jsonResponse({ error: 'unauthorized', authenticated: false }, 401);
+};
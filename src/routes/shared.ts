@@ -0,0 +1,108 @@
+// packages/astro-tokenkit/src/routes/shared.ts
+
+import type { AuthRoutesConfig, TokenKitConfig } from '../types';
+import { DEFAULT_OAUTH_CALLBACK_PATH } from '../auth/oauth';
+import { getAuthProviders } from '../auth/providers';
+
+/**
+ * Default paths of the prebuilt auth endpoints
+ */
+export const DEFAULT_AUTH_ROUTES = {
+    login: '/api/auth/login',
+    logout: '/api/auth/logout',
+    refresh: '/api/auth/refresh',
+} as const;
+
+export type AuthRouteName = keyof typeof DEFAULT_AUTH_ROUTES;
+
+/**
+ * Routes config as an object ({} when routes are disabled)
+ */
+export function getRoutesConfig(config: TokenKitConfig): AuthRoutesConfig {
+    return typeof config.routes === 'object' && config.routes ? config.routes : {};
+}
+
+/**
+ * Paths of the enabled prebuilt endpoints
+ */
+export function getAuthRoutes(config: TokenKitConfig): Partial<Record<AuthRouteName, string>> {
+    if (!config.routes) return {};
+
+    const routes = getRoutesConfig(config);
+    const paths: Partial<Record<AuthRouteName, string>> = {};
+    for (const name of Object.keys(DEFAULT_AUTH_ROUTES) as AuthRouteName[]) {
+        const path = routes[name];
+        if (path === false) continue;
+        paths[name] = path ?? DEFAULT_AUTH_ROUTES[name];
+    }
+    return paths;
+}
+
+/**
+ * Injected endpoints that handle authentication themselves, so route
+ * protection never blocks them
+ */
+export function getInjectedAuthPaths(config: TokenKitConfig): string[] {
+    const paths = new Set(Object.values(getAuthRoutes(config)));
+    for (const auth of getAuthProviders(config.auth).values()) {
+        if (auth.oauth) paths.add(auth.oauth.callbackPath ?? DEFAULT_OAUTH_CALLBACK_PATH);
+    }
+    return [...paths];
+}
+
+/**
+ * Query parameter carrying the path to return to after sign-in
+ */
+export function getReturnToParam(config: TokenKitConfig): string {
+    return config.protect?.returnToParam ?? 'returnTo';
+}
+
+/**
+ * Whether the caller expects JSON rather than a redirect
+ */
+export function wantsJSON(request: Request): boolean {
+    const contentType = request.headers.get('content-type') ?? '';
+    const accept = request.headers.get('accept') ?? '';
+    return contentType.includes('application/json') || (accept.includes('application/json') && !accept.includes('text/html'));
+}
+
+/**
+ * Read a JSON or form request body into a plain object
+ */
+export async function readRequestData(request: Request): Promise<Record<string, any>> {
+    const contentType = request.headers.get('content-type') ?? '';
+    if (contentType.includes('application/json')) {
+        const body = await request.json();
+        return body && typeof body === 'object' && !Array.isArray(body) ? body : {};
+    }
+
+    if (contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data')) {
+        const form = await request.formData();
+        const data: Record<string, any> = {};
+        for (const [key, value] of form) {
+            if (typeof value === 'string') data[key] = value;
+        }
+        return data;
+    }
+
+    return {};
+}
+
+/**
+ * Add query parameters to a relative or absolute URL
+ */
+export function withParams(target: string, params: Record<string, string | undefined>): string {
+    const base = 'http://tokenkit.invalid';
+    const url = new URL(target, base);
+    for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined) url.searchParams.set(key, value);
+    }
+    return url.origin === base ? `${url.pathname}${url.search}${url.hash}` : url.toString();
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+    });
+}
@@ -4,16 +4,51 @@ import type { AstroCookies } from 'astro';
 import type { AsyncLocalStorage } from 'node:async_hooks';
 import type { KnownMimeType } from './utils/mime';
 
+/**
+ * App-declared shapes of the session payload and auth responses, e.g.
+ * createClient<{ user: Me; claims: Claims; loginResponse: LoginResponse }>().
+ * They describe decoded JSON and are not validated at runtime.
+ */
+export interface TokenKitTypes {
+    /** Session payload persisted with the tokens (TokenBundle.sessionPayload, Session.user, api.getUser()) */
+    user?: Record<string, any>;
+    /** Session.payload: access token claims */
+    claims?: Record<string, any>;
+    /** Body returned by the login endpoint (parseLogin, onLogin) */
+    loginResponse?: any;
+    /** Whether login() may resolve to a LoginChallenge (auth.mfa). Inferred by createClient() when its config sets auth.mfa. */
+    mfa?: boolean;
+}
+
+/** Declared user type, or Record<string, any> */
+export type UserOf<T extends TokenKitTypes> = T extends { user: infer U extends Record<string, any> } ? U : Record<string, any>;
+
+/** Declared claims type, or Record<string, any> */
+export type ClaimsOf<T extends TokenKitTypes> = T extends { claims: infer C extends Record<string, any> } ? C : Record<string, any>;
+
+/** Declared login response type, or any */
+export type LoginResponseOf<T extends TokenKitTypes> = T extends { loginResponse: infer R } ? R : any;
+
+/** Result of login(): a LoginChallenge is only possible when mfa is declared */
+export type LoginResultOf<T extends TokenKitTypes> = T extends { mfa: true }
+    ? TokenBundle<UserOf<T>> | LoginChallenge
+    : TokenBundle<UserOf<T>>;
+
+/** Session with the declared claims and user types */
+export type SessionOf<T extends TokenKitTypes> = Session<ClaimsOf<T>, UserOf<T>>;
+
 /**
  * Token bundle returned from auth endpoints
  */
-export interface TokenBundle {
+export interface TokenBundle<TUser = Record<string, any>> {
     accessToken: string;
     refreshToken: string;
     accessExpiresAt: number; // Unix timestamp in seconds
     tokenType?: string;
     refreshExpiresAt?: number;
-    sessionPayload?: Record<string, any>;
+    sessionPayload?: TUser;
+    /** OpenID Connect ID token, when returned separately from the access token */
+    idToken?: string;
 }
 
 /**
@@ -28,11 +63,16 @@ export interface TokenKitContext {
 /**
  * Session information
  */
-export interface Session {
+export interface Session<TClaims = Record<string, any>, TUser = Record<string, any>> {
     accessToken: string;
     expiresAt: number;
     tokenType?: string;
-    payload?: Record<string, any>;
+    /** Access token claims: verified or introspected when enabled, otherwise decoded from the JWT */
+    payload?: TClaims;
+    /** Session payload persisted with the tokens (TokenBundle.sessionPayload) */
+    user?: TUser;
+    /** True while an impersonated session is active (see api.impersonate()) */
+    impersonating?: boolean;
 }
 
 /**
@@ -53,6 +93,8 @@ export interface RequestOptions {
     signal?: AbortSignal;
     /** Auth override options for automatic refresh if triggered */
     auth?: AuthOptions;
+    /** Send an exchanged token for this audience instead of the session access token */
+    audience?: string;
 }
 
 export interface EtagCacheEntry<T = any> {
@@ -167,12 +209,13 @@ export interface FieldMapping {
     expiresIn?: string;
     tokenType?: string;
     sessionPayload?: string;
+    idToken?: string;
 }
 
 /**
  * Callback after successful login
  */
-export type OnLoginCallback = (bundle: TokenBundle, body: any, ctx: TokenKitContext) => void | Promise<void>;
+export type OnLoginCallback<TBody = any, TUser = Record<string, any>> = (bundle: TokenBundle<TUser>, body: TBody, ctx: TokenKitContext) => void | Promise<void>;
 
 /**
  * Callback after failed login
@@ -199,16 +242,87 @@ export interface RefreshOptions extends AuthOptions {
     headers?: Record<string, string>;
 }
 
+/**
+ * Result of a login that requires a second step (e.g. MFA).
+ * Complete it with api.completeLogin(challengeId, code).
+ */
+export interface LoginChallenge {
+    type: 'challenge';
+    challengeId: string;
+    /** Challenge method reported by the server (e.g. 'totp', 'sms') */
+    method?: string;
+    /** Unix timestamp in seconds after which the challenge can no longer be completed */
+    expiresAt: number;
+    /** Raw login response body */
+    body: any;
+}
+
+/**
+ * Pending login challenge held server-side between login and completeLogin
+ */
+export interface PendingLoginChallenge {
+    challengeId: string;
+    /** SHA-256 hash of the value in the browser's challenge cookie */
+    bindingHash: string;
+    /** Unix timestamp in seconds */
+    expiresAt: number;
+    method?: string;
+    /** Verification attempts made so far */
+    attempts?: number;
+}
+
+/**
+ * Store for pending login challenges. Use a shared store (e.g. Redis) when
+ * the two login steps may reach different server instances.
+ */
+export interface LoginChallengeStore {
+    get(challengeId: string): PendingLoginChallenge | undefined | Promise<PendingLoginChallenge | undefined>;
+    set(challengeId: string, challenge: PendingLoginChallenge): void | Promise<void>;
+    delete(challengeId: string): void | Promise<void>;
+    /**
+     * Atomically count a verification attempt and return the updated challenge
+     * (undefined when it is missing or expired). Without it, a challenge is
+     * removed from the store while its code is verified.
+     */
+    increment?(challengeId: string): PendingLoginChallenge | undefined | Promise<PendingLoginChallenge | undefined>;
+}
+
+/**
+ * Two-step login (MFA and other challenge responses)
+ */
+export interface LoginChallengeConfig {
+    /** Endpoint that verifies the challenge code and returns tokens (relative to baseURL) */
+    verify: string;
+    /** Detect a challenge response (default: a truthy mfa_required, mfaRequired, challenge_required or challengeRequired field) */
+    detect?: (body: any) => boolean;
+    /** Response field holding the challenge id (default: challenge_id, challengeId, mfa_token or mfaToken) */
+    challengeIdField?: string;
+    /** Request field the challenge id is sent in (default: 'challenge_id') */
+    challengeRequestField?: string;
+    /** Request field the code is sent in (default: 'code') */
+    codeField?: string;
+    /** Extra data sent with every verify request */
+    data?: Record<string, any>;
+    /** How long a challenge can be completed (default: '5m') */
+    ttl?: string | number;
+    /** Verification attempts before the challenge expires (default: 5) */
+    maxAttempts?: number;
+    /** Store for pending challenges (default: process memory) */
+    store?: LoginChallengeStore;
+}
+
 /**
  * Login options
  */
-export interface LoginOptions extends AuthOptions {
+export interface LoginOptions<TBody = any, TUser = Record<string, any>> extends AuthOptions {
+    /** Named auth provider to log in with (default: the client's provider) */
+    provider?: string;
     /** Extra headers for this specific login request */
     headers?: Record<string, string>;
     /** Request timeout in ms for this login request */
     timeout?: number;
     /** Callback after successful login */
-    onLogin?: OnLoginCallback;
+    onLogin?: OnLoginCallback<TBody, TUser>;
     /** Callback after failed login */
     onError?: OnErrorCallback;
 }
@@ -228,16 +342,430 @@ export type OnRefreshErrorCallback = (error: AuthError, ctx: TokenKitContext) =>
  */
 export type OnSessionInvalidCallback = (error: AuthError, ctx: TokenKitContext) => void | Promise<void>;
 
+/**
+ * OnLogoutError callback
+ */
+export type OnLogoutErrorCallback = (error: AuthError, ctx: TokenKitContext) => void | Promise<void>;
+
+/**
+ * OnRefreshTokenReuse callback
+ */
+export type OnRefreshTokenReuseCallback = (error: AuthError, ctx: TokenKitContext, details: { familyId: string }) => void | Promise<void>;
+
+/**
+ * Token bundle as exposed in events: expiry metadata only, never the tokens
+ */
+export interface RedactedTokenBundle {
+    accessExpiresAt: number;
+    refreshExpiresAt?: number;
+    tokenType?: string;
+    hasSessionPayload: boolean;
+}
+
+/**
+ * Error as exposed in events, without the response body or request headers
+ */
+export interface TokenKitEventError {
+    name: string;
+    message: string;
+    status?: number;
+}
+
+/**
+ * Outbound request as exposed in events. Credentials and sensitive query
+ * values are redacted from the URL.
+ */
+export interface RequestEventInfo {
+    method: string;
+    url: string;
+}
+
+/**
+ * Lifecycle events and their payloads (see api.on())
+ */
+export interface TokenKitEvents {
+    'login:success': { bundle: RedactedTokenBundle };
+    'login:error': { error: TokenKitEventError };
+    /** Local tokens were cleared; logout endpoint or revocation failures also emit logout:error */
+    'logout:success': {};
+    'logout:error': { error: TokenKitEventError };
+    'refresh:success': { bundle: RedactedTokenBundle };
+    'refresh:error': { error: TokenKitEventError };
+    'session:invalid': { error: TokenKitEventError };
+    'request:start': RequestEventInfo;
+    'request:end': RequestEventInfo & { status?: number; durationMs: number; error?: TokenKitEventError };
+    'request:retry': RequestEventInfo & { attempt: number; delayMs: number; error: TokenKitEventError };
+    'etag:hit': RequestEventInfo;
+    'etag:miss': RequestEventInfo;
+}
+
+export type TokenKitEventName = keyof TokenKitEvents;
+
+export type TokenKitEventListener<E extends TokenKitEventName> = (payload: TokenKitEvents[E]) => void | Promise<void>;
+
+/**
+ * Lineage record of a refresh token, keyed by a SHA-256 hash of the token
+ */
+export interface RefreshTokenRecord {
+    /** Family shared by every token rotated from the same login */
+    familyId: string;
+    /** Unix timestamp (seconds) when the token was rotated; unset for the current token */
+    rotatedAt?: number;
+    /** Unix timestamp (seconds) after which the record can be discarded */
+    expiresAt: number;
+}
+
+/**
+ * Storage for refresh token lineage. Use a shared backend when running
+ * several server instances.
+ */
+export interface RefreshTokenFamilyStore {
+    get(tokenId: string): RefreshTokenRecord | undefined | Promise<RefreshTokenRecord | undefined>;
+    set(tokenId: string, record: RefreshTokenRecord): void | Promise<void>;
+    revokeFamily(familyId: string): void | Promise<void>;
+    isFamilyRevoked(familyId: string): boolean | Promise<boolean>;
+}
+
+/**
+ * Refresh token reuse detection
+ */
+export interface ReuseDetectionConfig {
+    /** Lineage store (default: process memory) */
+    store?: RefreshTokenFamilyStore;
+    /** Accept a superseded token this long after its rotation, e.g. for concurrent requests across instances (default: '5s') */
+    gracePeriod?: string | number;
+}
+
+/**
+ * Lock store that serializes refreshes of one refresh token across processes.
+ * Keys are SHA-256 hashes of the refresh token.
+ */
+export interface RefreshLockProvider {
+    /** Try to take the lock; returns false when another holder has it */
+    acquire(key: string, ttlMs: number): boolean | Promise<boolean>;
+    /** Release a lock taken with acquire() */
+    release(key: string): void | Promise<void>;
+    /** Bundle published by the instance that rotated the token, if still available */
+    getResult(key: string): TokenBundle | null | undefined | Promise<TokenBundle | null | undefined>;
+    /** Publish a rotated bundle to instances waiting on the same token */
+    setResult(key: string, bundle: TokenBundle, ttlMs: number): void | Promise<void>;
+}
+
+/**
+ * Cross-process refresh lock configuration
+ */
+export interface RefreshLockConfig {
+    /** Lock store shared by all instances */
+    provider: RefreshLockProvider;
+    /** How long to wait for another instance's refresh (e.g., '30s' or 30, default: the auth timeout) */
+    waitTimeout?: string | number;
+    /** Delay between lock and result checks in ms (default: 100) */
+    pollInterval?: number;
+    /** How long a rotated bundle is handed to waiting instances (e.g., '30s' or 30, default: 30s) */
+    resultTTL?: string | number;
+}
+
+/**
+ * OAuth 2.0 authorization-code + PKCE configuration
+ */
+export interface OAuthConfig {
+    /** Authorization endpoint (absolute URL or relative to baseURL). Discovered when auth.issuer is set. */
+    authorize?: string;
+    /** Token endpoint used for the code exchange (default: auth.login) */
+    token?: string;
+    /** OAuth client identifier */
+    clientId: string;
+    /** Client secret for confidential clients (optional with PKCE) */
+    clientSecret?: string;
+    /** Requested scopes */
+    scope?: string | string[];
+    /** Redirect URI registered with the identity provider (default: callbackPath on the current origin) */
+    redirectURI?: string;
+    /** Callback route injected by the integration (default: '/api/auth/callback') */
+    callbackPath?: string;
+    /** Extra query parameters for the authorization request (e.g. prompt, audience) */
+    authorizeParams?: Record<string, any>;
+    /** Redirect after a successful callback when no returnTo was requested (default: '/') */
+    successRedirect?: string;
+    /** Redirect after a failed callback (default: '/') */
+    errorRedirect?: string;
+}
+
+/**
+ * Authorization request options
+ */
+export interface AuthorizeOptions {
+    /** Named auth provider to authorize with (default: the client's provider) */
+    provider?: string;
+    /** Relative path to return to after the callback completes */
+    returnTo?: string;
+    /** Override the configured scopes for this request */
+    scope?: string | string[];
+    /** Extra query parameters for this authorization request */
+    params?: Record<string, any>;
+}
+
+/**
+ * Result of a completed authorization-code callback
+ */
+export interface OAuthCallbackResult<TUser = Record<string, any>> {
+    bundle: TokenBundle<TUser>;
+    /** Sanitized relative path to redirect to */
+    returnTo: string;
+}
+
+/**
+ * JWT signature and claim verification
+ */
+export interface TokenVerificationConfig {
+    /** JWKS endpoint (default: jwks_uri from OpenID Connect discovery) */
+    jwksUri?: string;
+    /** Accepted `iss` values (default: the discovered or configured issuer) */
+    issuer?: string | string[];
+    /** Accepted `aud` values for access tokens */
+    audience?: string | string[];
+    /** Accepted signing algorithms (default: RS*, PS*, ES* and EdDSA) */
+    algorithms?: string[];
+    /** Clock tolerance for exp/nbf checks (e.g., '30s' or 30) */
+    clockTolerance?: string | number;
+    /** Verify ID tokens returned by login, callback and refresh (default: true) */
+    idToken?: boolean;
+}
+
+/**
+ * OpenID Connect discovery document (subset used by TokenKit)
+ */
+export interface OIDCDiscoveryDocument {
+    issuer: string;
+    authorization_endpoint?: string;
+    token_endpoint: string;
+    revocation_endpoint?: string;
+    end_session_endpoint?: string;
+    introspection_endpoint?: string;
+    userinfo_endpoint?: string;
+    jwks_uri?: string;
+    [key: string]: any;
+}
+
+/**
+ * How the client obtains tokens.
+ * - `user`: per-user sessions stored in cookies or Astro sessions (default)
+ * - `client_credentials`: an application token cached in process memory
+ */
+export type AuthGrant = 'user' | 'client_credentials';
+
+/**
+ * Application token obtained through the client-credentials grant
+ */
+export interface AppToken {
+    accessToken: string;
+    tokenType?: string;
+    /** Unix timestamp in seconds */
+    expiresAt: number;
+    /** Unix timestamp in seconds */
+    issuedAt: number;
+    scope?: string;
+}
+
+/**
+ * RFC 7009 token revocation configuration
+ */
+export interface TokenRevocationConfig {
+    /** Revocation endpoint (absolute URL or relative to baseURL). Discovered from revocation_endpoint when auth.issuer is set. */
+    endpoint?: string;
+    /** Request encoding (default: 'application/x-www-form-urlencoded') */
+    contentType?: 'application/x-www-form-urlencoded' | 'application/json';
+    /** Tokens to revoke, in order (default: ['refresh_token', 'access_token']) */
+    tokens?: Array<'refresh_token' | 'access_token'>;
+    /** Client identifier (default: oauth.clientId, then auth.clientId) */
+    clientId?: string;
+    /** Client secret (default: oauth.clientSecret, then auth.clientSecret) */
+    clientSecret?: string;
+    /** How client credentials are sent: body fields or HTTP Basic (default: 'body') */
+    clientAuth?: 'body' | 'basic';
+    /** Extra fields sent with every revocation request */
+    data?: Record<string, string>;
+}
+
+/**
+ * RFC 7662 token introspection configuration
+ */
+export interface TokenIntrospectionConfig {
+    /** Introspection endpoint (absolute URL or relative to baseURL). Discovered from introspection_endpoint when auth.issuer is set. */
+    endpoint?: string;
+    /** Client identifier (default: oauth.clientId, then auth.clientId) */
+    clientId?: string;
+    /** Client secret (default: oauth.clientSecret, then auth.clientSecret) */
+    clientSecret?: string;
+    /** How client credentials are sent: form body fields or HTTP Basic (default: 'body') */
+    clientAuth?: 'body' | 'basic';
+    /** Maximum time an introspection result is cached per token (e.g., '1m' or 60). Results never outlive the token's exp. */
+    cacheTTL?: string | number;
+    /** Extra form fields sent with every introspection request */
+    data?: Record<string, string>;
+}
+
+/**
+ * RFC 7662 introspection response
+ */
+export interface IntrospectionResult {
+    active: boolean;
+    scope?: string;
+    client_id?: string;
+    username?: string;
+    token_type?: string;
+    exp?: number;
+    iat?: number;
+    nbf?: number;
+    sub?: string;
+    aud?: string | string[];
+    iss?: string;
+    [key: string]: any;
+}
+
+/**
+ * Claim paths for roles and permissions. Paths are dot-separated
+ * ('realm_access.roles') or full namespaced keys ('https://example.com/roles').
+ */
+export interface ClaimsMapping {
+    /** Default: roles, role, realm_access.roles, and namespaced '.../roles' claims */
+    roles?: string | string[];
+    /** Default: permissions, scope, scp, and namespaced '.../permissions' claims */
+    permissions?: string | string[];
+}
+
+/**
+ * Roles and permissions extracted from a session
+ */
+export interface SessionClaims {
+    roles: string[];
+    permissions: string[];
+}
+
+/**
+ * Authorization requirement: any of the roles and all of the permissions
+ */
+export interface ClaimRequirement {
+    roles?: string[];
+    permissions?: string[];
+}
+
+/**
+ * Route-level authorization rule enforced by the middleware
+ */
+export interface RouteClaimRule extends ClaimRequirement {
+    /** Path patterns the rule applies to */
+    paths: string[];
+}
+
+/**
+ * Impersonation configuration
+ */
+export interface ImpersonationConfig {
+    /** Endpoint that issues tokens for the target user (relative to baseURL). Called with the current access token. */
+    endpoint: string;
+    /** Request field holding the target user id (default: 'user_id') */
+    targetField?: string;
+    /** Endpoint notified when impersonation stops (optional). Called with the impersonated access token. */
+    stopEndpoint?: string;
+    /** Extra data sent with every impersonation request */
+    data?: Record<string, any>;
+}
+
+/**
+ * Options for a single impersonation request
+ */
+export interface ImpersonateOptions {
+    /** Extra headers for this request */
+    headers?: Record<string, string>;
+    /** Extra data for this request */
+    data?: Record<string, any>;
+    /** Request timeout in ms */
+    timeout?: number;
+}
+
+/**
+ * RFC 8693 token exchange configuration
+ */
+export interface TokenExchangeConfig {
+    /** Token endpoint for exchanges (default: oauth.token, then auth.login or the discovered token_endpoint) */
+    endpoint?: string;
+    /** Client identifier (default: oauth.clientId, then auth.clientId) */
+    clientId?: string;
+    /** Client secret (default: oauth.clientSecret, then auth.clientSecret) */
+    clientSecret?: string;
+    /** How client credentials are sent: form body fields or HTTP Basic (default: 'body') */
+    clientAuth?: 'body' | 'basic';
+    /** subject_token_type sent with the exchange (default: 'urn:ietf:params:oauth:token-type:access_token') */
+    subjectTokenType?: string;
+    /** requested_token_type sent with the exchange (optional) */
+    requestedTokenType?: string;
+    /** Default scopes per audience, used when an exchange does not specify a scope */
+    scopes?: Record<string, string | string[]>;
+    /** Extra form fields sent with every exchange */
+    data?: Record<string, string>;
+}
+
+/**
+ * Options for a single token exchange
+ */
+export interface TokenExchangeOptions {
+    /** Target service the exchanged token is issued for */
+    audience: string;
+    /** Requested scopes (default: exchange.scopes[audience]) */
+    scope?: string | string[];
+    /** Target resource URI (RFC 8707) */
+    resource?: string;
+}
+
+/**
+ * Audience-specific token obtained through RFC 8693 token exchange
+ */
+export interface ExchangedToken extends AppToken {
+    audience: string;
+    /** issued_token_type returned by the token endpoint */
+    issuedTokenType?: string;
+}
+
 /**
  * Auth configuration
  */
-export interface AuthConfig {
-    /** Login endpoint (relative to baseURL) */
-    login: string;
-    /** Refresh endpoint (relative to baseURL) */
-    refresh: string;
+export interface AuthConfig<T extends TokenKitTypes = TokenKitTypes> {
+    /** Token grant used by this client (default: 'user') */
+    grant?: AuthGrant;
+
+    /** OAuth client identifier for the client-credentials grant and discovered token endpoints */
+    clientId?: string;
+    /** OAuth client secret for the client-credentials grant and discovered token endpoints */
+    clientSecret?: string;
+    /** Scopes requested with the client-credentials grant */
+    scope?: string | string[];
+    /** How client credentials are sent: form body fields or HTTP Basic (default: 'body') */
+    clientAuth?: 'body' | 'basic';
+
+    /**
+     * OpenID Connect issuer URL. When set, endpoints that are not configured
+     * explicitly are read from `<issuer>/.well-known/openid-configuration`.
+     */
+    issuer?: string;
+
+    /** Login endpoint (relative to baseURL). Required unless discovered from issuer. */
+    login?: string;
+    /** Refresh endpoint (relative to baseURL). Required unless discovered from issuer. */
+    refresh?: string;
     /** Logout endpoint (optional, relative to baseURL) */
     logout?: string;
+    /** RFC 7009 revocation on logout: endpoint path, config, or `true` to use the discovered revocation_endpoint */
+    revoke?: boolean | string | TokenRevocationConfig;
+
+    /** Two-step login: recognize challenge responses (e.g. MFA) and the endpoint that completes them */
+    mfa?: LoginChallengeConfig;
+
+    /** Act as another user and return to the original session later */
+    impersonation?: ImpersonationConfig;
+
+    /** Where roles and permissions live in the access token claims */
+    claims?: ClaimsMapping;
 
     /** Content type for auth requests (default: 'application/json') */
     contentType?: 'application/json' | 'application/x-www-form-urlencoded';
@@ -266,10 +794,28 @@ export interface AuthConfig {
     /** Field mapping (auto-detected if not provided) */
     fields?: FieldMapping;
 
+    /** OAuth 2.0 authorization-code + PKCE flow */
+    oauth?: OAuthConfig;
+
+    /** Verify JWT signatures against a JWKS before trusting token claims (opt-in) */
+    verify?: boolean | TokenVerificationConfig;
+
+    /** RFC 7662 introspection for opaque access tokens: endpoint path, config, or `true` to use the discovered introspection_endpoint */
+    introspect?: boolean | string | TokenIntrospectionConfig;
+
+    /** RFC 8693 token exchange for audience-specific downstream tokens */
+    exchange?: TokenExchangeConfig;
+
+    /** Detect replayed (superseded) refresh tokens and revoke their token family (opt-in) */
+    reuseDetection?: boolean | ReuseDetectionConfig;
+
+    /** Serialize refreshes of the same refresh token across processes (opt-in) */
+    refreshLock?: RefreshLockConfig;
+
     /** Custom login response parser */
-    parseLogin?: (body: any) => TokenBundle;
+    parseLogin?: (body: LoginResponseOf<T>) => TokenBundle<UserOf<T>>;
     /** Custom refresh response parser */
-    parseRefresh?: (body: any) => TokenBundle;
+    parseRefresh?: (body: any) => TokenBundle<UserOf<T>>;
 
     /** Custom token injection function (default: Bearer) */
     injectToken?: (token: string, type?: string) => string;
@@ -289,6 +835,9 @@ export interface AuthConfig {
     /** Custom fetch implementation */
     fetch?: typeof fetch;
 
+    /** OpenTelemetry tracer for login, logout, and refresh spans (default: the client's tracer) */
+    tracer?: TelemetryTracer;
+
     /** Dangerously ignore certificate errors (bypass SSL validation) */
     dangerouslyIgnoreCertificateErrors?: boolean;
 
@@ -301,10 +850,21 @@ export interface AuthConfig {
     /** Callback after failed refresh */
     onRefreshError?: OnRefreshErrorCallback;
 
-    /** Callback when stored session data is missing required token fields and refresh cannot be attempted */
+    /** Callback when the logout endpoint or token revocation fails (local tokens are still cleared) */
+    onLogoutError?: OnLogoutErrorCallback;
+
+    /** Callback when a superseded or revoked refresh token is presented */
+    onRefreshTokenReuse?: OnRefreshTokenReuseCallback;
+
+    /** Callback when stored session data is invalid: missing required token fields with no refresh possible, failing auth.verify, or inactive per auth.introspect */
     onSessionInvalid?: OnSessionInvalidCallback;
 }
 
+/**
+ * Named auth providers, each with its own cookie namespace and policy
+ */
+export type AuthProviders<T extends TokenKitTypes = TokenKitTypes> = Record<string, AuthConfig<T>>;
+
 /**
  * Refresh policy
  */
@@ -338,7 +898,13 @@ export interface TokenStorageRecord {
     refreshToken: string;
     expiresAt: number;
     lastRefreshAt: number;
+    /** Refresh token expiry (Unix seconds), when known; bounds how long the record is kept */
+    refreshExpiresAt?: number;
     tokenType?: string;
+    /** Session payload from the login or refresh response (e.g. the user object) */
+    sessionPayload?: Record<string, any>;
+    /** Stashed records only: the session that started this one's impersonation */
+    impersonator?: TokenStorageRecord;
 }
 
 export interface TokenSessionProvider {
@@ -348,6 +914,17 @@ export interface TokenSessionProvider {
     destroy?: (ctx: TokenKitContext) => void | Promise<void>;
 }
 
+/**
+ * Encrypted cookie storage configuration
+ */
+export interface CookieEncryptionConfig {
+    /**
+     * Secrets of at least 32 characters. The first one seals new cookies;
+     * all of them are tried when reading, so old secrets can be rotated out.
+     */
+    secrets: string | string[];
+}
+
 export interface TokenStorageConfig {
     /** Where token data is persisted (default: cookie) */
     type?: TokenStorageType;
@@ -355,6 +932,10 @@ export interface TokenStorageConfig {
     key?: string;
     /** Custom session provider. Defaults to ctx.session when available. */
     provider?: TokenSessionProvider;
+    /** Seal the token record into one AES-256-GCM encrypted cookie (cookie storage only) */
+    encryption?: CookieEncryptionConfig;
+    /** Maximum JSON size in bytes of a session payload persisted in cookies (default: 2048). Larger payloads are not persisted. */
+    maxPayloadSize?: number;
 }
 
 /**
@@ -456,15 +1037,47 @@ export interface InterceptorsConfig {
     error?: ErrorInterceptor | ErrorInterceptor[];
 }
 
+export type TelemetryAttributeValue = string | number | boolean;
+
+/**
+ * Span options used by TokenKit (subset of OpenTelemetry SpanOptions)
+ */
+export interface TelemetrySpanOptions {
+    /** SpanKind: 0 internal, 2 client */
+    kind?: number;
+    attributes?: Record<string, TelemetryAttributeValue>;
+}
+
+/**
+ * Span methods used by TokenKit (subset of the OpenTelemetry Span API)
+ */
+export interface TelemetrySpan {
+    spanContext(): { traceId: string; spanId: string; traceFlags: number };
+    setAttribute(key: string, value: TelemetryAttributeValue): unknown;
+    setStatus(status: { code: number; message?: string }): unknown;
+    recordException(exception: Error | string): unknown;
+    end(): void;
+}
+
+/**
+ * OpenTelemetry tracer, e.g. trace.getTracer('my-app') from @opentelemetry/api
+ */
+export interface TelemetryTracer {
+    startActiveSpan<F extends (span: TelemetrySpan) => unknown>(name: string, options: TelemetrySpanOptions, fn: F): ReturnType<F>;
+}
+
 /**
  * Client configuration
  */
-export interface ClientConfig {
+export interface ClientConfig<T extends TokenKitTypes = TokenKitTypes> {
     /** Base URL for all requests */
     baseURL: string;
 
-    /** Auth configuration (optional for non-auth clients) */
-    auth?: AuthConfig;
+    /** Auth configuration, or a record of named auth providers (optional for non-auth clients) */
+    auth?: AuthConfig<T> | AuthProviders<T>;
+
+    /** Auth provider used by this client when auth is a record (default: the first provider) */
+    authProvider?: string;
 
     /** Default headers for all requests */
     headers?: Record<string, string>;
@@ -502,6 +1115,15 @@ export interface ClientConfig {
     /** Enable debug logging */
     debug?: boolean;
 
+    /** OpenTelemetry tracer for request, login, logout, and refresh spans (tracing is off without one) */
+    tracer?: TelemetryTracer;
+
+    /**
+     * Additional origins that receive the traceparent header on api requests.
+     * Requests to the baseURL origin and the auth endpoints always do; other hosts never see trace ids unless listed.
+     */
+    tracePropagationOrigins?: string[];
+
     etagCache?: EtagCacheProvider;
     etagKeyResolver?: EtagKeyResolver;
     shouldCacheResponse?: ShouldCacheResponse;
@@ -510,15 +1132,94 @@ export interface ClientConfig {
     dangerouslyIgnoreCertificateErrors?: boolean;
 }
 
+/**
+ * Route protection enforced by the middleware.
+ * Path patterns: '/account' (exact), '/users/*' (one segment), '/admin/**' (any depth).
+ */
+export interface RouteProtectionConfig {
+    /** Paths that require a session (default: every path) */
+    include?: string[];
+    /** Paths that stay public even when included */
+    exclude?: string[];
+    /** Where unauthenticated page requests are redirected (default: '/login'). Always public. */
+    loginRedirect?: string;
+    /** Query parameter carrying the originally requested path (default: 'returnTo') */
+    returnToParam?: string;
+    /** Paths answered with a JSON 401 instead of a redirect (default: ['/api/**']) */
+    apiRoutes?: string[];
+    /** Auth provider whose session is required (default: a session of any provider) */
+    provider?: string;
+    /** Claim checks for matching paths; failing requests get a 403 */
+    rules?: RouteClaimRule[];
+}
+
+/**
+ * Prebuilt auth endpoints injected by the integration.
+ * Set a path to false to skip that endpoint.
+ */
+export interface AuthRoutesConfig {
+    /** Form or JSON login endpoint (default: '/api/auth/login') */
+    login?: string | false;
+    /** Logout endpoint (default: '/api/auth/logout') */
+    logout?: string | false;
+    /** Session refresh endpoint (default: '/api/auth/refresh') */
+    refresh?: string | false;
+    /** Redirect after login when the request has no returnTo (default: '/') */
+    successRedirect?: string;
+    /** Redirect after a failed form login (default: protect.loginRedirect or '/login') */
+    failureRedirect?: string;
+    /** Redirect when a form login needs a second step (default: failureRedirect) */
+    challengeRedirect?: string;
+    /** Redirect after logout when the request has no returnTo (default: '/') */
+    logoutRedirect?: string;
+    /** Auth provider used by the endpoints (default: the default provider) */
+    provider?: string;
+}
+
+/**
+ * CSRF protection enforced by the middleware for unsafe methods
+ * (POST, PUT, PATCH, DELETE)
+ */
+export interface CsrfConfig {
+    /**
+     * 'double-submit' (default) keeps the token in a cookie readable by scripts;
+     * 'synchronizer' keeps it in the Astro session
+     */
+    strategy?: 'double-submit' | 'synchronizer';
+    /** Cookie holding the double-submit token (default: 'csrf_token') */
+    cookieName?: string;
+    /** Request header carrying the token (default: 'x-csrf-token') */
+    headerName?: string;
+    /** Form field carrying the token (default: '_csrf') */
+    fieldName?: string;
+    /** Paths that are checked (default: every path) */
+    include?: string[];
+    /** Paths that are never checked, e.g. webhooks */
+    exclude?: string[];
+    /** Reject requests whose Origin or Referer is another origin (default: true) */
+    checkOrigin?: boolean;
+    /** Other origins allowed to submit, e.g. 'https://admin.example.com' */
+    trustedOrigins?: string[];
+}
+
 /**
  * TokenKit Global Configuration
  */
-export interface TokenKitConfig extends Partial<ClientConfig> {
+export interface TokenKitConfig<T extends TokenKitTypes = TokenKitTypes> extends Partial<ClientConfig<T>> {
     /** 
      * Whether to automatically inject the middleware (default: true).
      * If false, you must manually export onRequest = api.middleware() in src/middleware.ts
      */
     autoMiddleware?: boolean;
+
+    /** Block unauthenticated requests to protected routes in the middleware */
+    protect?: RouteProtectionConfig;
+
+    /** Inject prebuilt login, logout, and refresh endpoints (true for the defaults) */
+    routes?: boolean | AuthRoutesConfig;
+
+    /** Require a CSRF token on unsafe requests (true for the defaults) */
+    csrf?: boolean | CsrfConfig;
 }
 
 /**
@@ -0,0 +1,135 @@
+// packages/astro-tokenkit/src/utils/events.ts
+
+import type { RedactedTokenBundle, TokenBundle, TokenKitEventError, TokenKitEventListener, TokenKitEventName, TokenKitEvents } from '../types';
+import { logger } from './logger';
+
+const EVENTS_KEY = Symbol.for('astro-tokenkit.events');
+
+/**
+ * Query parameters whose values are never exposed in events
+ */
+const SENSITIVE_PARAM = /token|secret|password|passwd|api[-_]?key|signature|code|session|credential|assertion/i;
+
+type AnyListener = (payload: any) => void | Promise<void>;
+
+/**
+ * Typed lifecycle event emitter. Listener errors are logged and never
+ * interrupt the operation that emitted the event. Events are passed on to
+ * the parent bus, so global listeners see events of every client.
+ */
+export class EventBus {
+    private listeners = new Map<TokenKitEventName, Set<AnyListener>>();
+    private forwards = new Set<EventBus>();
+
+    constructor(private parent?: EventBus) {}
+
+    /**
+     * Subscribe to an event. Returns a function that removes the listener.
+     */
+    on<E extends TokenKitEventName>(event: E, listener: TokenKitEventListener<E>): () => void {
+        let listeners = this.listeners.get(event);
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners.set(event, listeners);
+        }
+        listeners.add(listener);
+        return () => this.off(event, listener);
+    }
+
+    /**
+     * Subscribe to the next occurrence of an event only
+     */
+    once<E extends TokenKitEventName>(event: E, listener: TokenKitEventListener<E>): () => void {
+        const unsubscribe = this.on(event, (payload) => {
+            unsubscribe();
+            return listener(payload);
+        });
+        return unsubscribe;
+    }
+
+    off<E extends TokenKitEventName>(event: E, listener: TokenKitEventListener<E>): void {
+        this.listeners.get(event)?.delete(listener);
+    }
+
+    /**
+     * Also deliver this bus's events to the listeners of another bus, without
+     * passing them on to its parent a second time
+     */
+    forwardTo(target: EventBus): void {
+        if (target !== this) this.forwards.add(target);
+    }
+
+    emit<E extends TokenKitEventName>(event: E, payload: TokenKitEvents[E]): void {
+        this.notify(event, payload);
+        for (const target of this.forwards) {
+            target.notify(event, payload);
+        }
+        this.parent?.emit(event, payload);
+    }
+
+    private notify<E extends TokenKitEventName>(event: E, payload: TokenKitEvents[E]): void {
+        for (const listener of [...(this.listeners.get(event) ?? [])]) {
+            try {
+                const result = listener(payload);
+                if (result && typeof result.then === 'function') {
+                    result.then(undefined, (error) => reportListenerError(event, error));
+                }
+            } catch (error) {
+                reportListenerError(event, error);
+            }
+        }
+    }
+}
+
+function reportListenerError(event: TokenKitEventName, error: any): void {
+    logger.error(`[TokenKit] ${event} listener failed:`, error?.message ?? error);
+}
+
+/**
+ * Process-wide event bus used by the api singleton and the global token managers
+ */
+export function getEventBus(): EventBus {
+    const storage = globalThis as any;
+    if (!storage[EVENTS_KEY]) {
+        storage[EVENTS_KEY] = new EventBus();
+    }
+    return storage[EVENTS_KEY];
+}
+
+export function redactBundle(bundle: TokenBundle): RedactedTokenBundle {
+    return {
+        accessExpiresAt: bundle.accessExpiresAt,
+        refreshExpiresAt: bundle.refreshExpiresAt,
+        tokenType: bundle.tokenType,
+        hasSessionPayload: !!bundle.sessionPayload,
+    };
+}
+
+export function redactError(error: any): TokenKitEventError {
+    return {
+        name: error?.name ?? 'Error',
+        message: error?.message ?? String(error),
+        status: typeof error?.status === 'number' ? error.status : undefined,
+    };
+}
+
+/**
+ * Strip credentials and sensitive query values from a URL
+ */
+export function redactURL(url: string): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return url.split('?')[0];
+    }
+
+    parsed.username = '';
+    parsed.password = '';
+    for (const key of new Set(parsed.searchParams.keys())) {
+        if (SENSITIVE_PARAM.test(key)) {
+            parsed.searchParams.set(key, 'REDACTED');
+        }
+    }
+    return parsed.toString();
+}
@@ -0,0 +1,29 @@
+// packages/astro-tokenkit/src/utils/redirect.ts
+
+/**
+ * Return a same-origin relative path, or the fallback when the value could
+ * redirect the user to another origin (open redirect protection).
+ */
+export function sanitizeReturnTo(value: string | null | undefined, fallback: string = '/'): string {
+    if (!value || typeof value !== 'string') return fallback;
+
+    // Only accept absolute paths on the current origin. Reject protocol-relative
+    // URLs ("//evil.com") and backslash variants browsers normalize to them.
+    if (!value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+        return fallback;
+    }
+
+    // Control characters can be used to smuggle a different target past checks
+    if (/[\u0000-\u001f\u007f]/.test(value)) {
+        return fallback;
+    }
+
+    try {
+        const base = 'http://tokenkit.invalid';
+        const url = new URL(value, base);
+        if (url.origin !== base) return fallback;
+        return `${url.pathname}${url.search}${url.hash}`;
+    } catch {
+        return fallback;
+    }
+}
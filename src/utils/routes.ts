@@ -0,0 +1,52 @@
+// packages/astro-tokenkit/src/utils/routes.ts
+
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Compile a path pattern to a regular expression.
+ * Supports: '/admin' (exact), '/users/*' (one segment), '/admin/**' (any depth, including '/admin')
+ */
+function compilePattern(pattern: string): RegExp {
+    let regex = patternCache.get(pattern);
+    if (regex) return regex;
+
+    const normalized = normalizePath(pattern);
+    let source = '';
+    for (let i = 0; i < normalized.length; i++) {
+        const char = normalized[i];
+        if (char === '*') {
+            if (normalized[i + 1] === '*') {
+                i++;
+                // '/**' also matches the parent path itself
+                if (source.endsWith('/')) {
+                    source = `${source.slice(0, -1)}(?:/.*)?`;
+                } else {
+                    source += '.*';
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else {
+            source += char.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    regex = new RegExp(`^${source}$`);
+    patternCache.set(pattern, regex);
+    return regex;
+}
+
+/**
+ * Drop a trailing slash so '/admin/' and '/admin' are the same route
+ */
+function normalizePath(path: string): string {
+    return path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+}
+
+/**
+ * Check a pathname against a list of path patterns
+ */
+export function matchesRoute(pathname: string, patterns: string[]): boolean {
+    const path = normalizePath(pathname);
+    return patterns.some((pattern) => compilePattern(pattern).test(path));
+}
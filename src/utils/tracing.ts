@@ -0,0 +1,96 @@
+// packages/astro-tokenkit/src/utils/tracing.ts
+
+import type { TelemetrySpan, TelemetrySpanOptions, TelemetryTracer } from '../types';
+import { redactURL } from './events';
+
+/** OpenTelemetry SpanKind.INTERNAL */
+export const SPAN_KIND_INTERNAL = 0;
+/** OpenTelemetry SpanKind.CLIENT */
+export const SPAN_KIND_CLIENT = 2;
+/** OpenTelemetry SpanStatusCode.ERROR */
+const SPAN_STATUS_ERROR = 2;
+
+const INVALID_TRACE_ID = /^0+$/;
+
+/**
+ * Run fn inside an active span. Without a tracer fn runs directly and
+ * receives no span.
+ */
+export async function withSpan<T>(
+    tracer: TelemetryTracer | undefined,
+    name: string,
+    options: TelemetrySpanOptions,
+    fn: (span?: TelemetrySpan) => Promise<T>
+): Promise<T> {
+    if (!tracer) return fn();
+
+    return tracer.startActiveSpan(name, options, async (span) => {
+        try {
+            return await fn(span);
+        } catch (error: any) {
+            span.recordException(error instanceof Error ? error : String(error));
+            span.setAttribute('error.type', error?.name ?? 'Error');
+            span.setStatus({ code: SPAN_STATUS_ERROR, message: error?.message });
+            throw error;
+        } finally {
+            span.end();
+        }
+    });
+}
+
+/**
+ * HTTP client semantic attributes of an outbound request
+ */
+export function setRequestAttributes(span: TelemetrySpan | undefined, method: string, url: string): void {
+    if (!span) return;
+
+    span.setAttribute('http.request.method', method.toUpperCase());
+    span.setAttribute('url.full', redactURL(url));
+    try {
+        const parsed = new URL(url);
+        span.setAttribute('server.address', parsed.hostname);
+        span.setAttribute('server.port', Number(parsed.port) || (parsed.protocol === 'https:' ? 443 : 80));
+    } catch {
+        // Relative URLs have no server attributes
+    }
+}
+
+/**
+ * Record the response status; 4xx and 5xx mark client spans as failed
+ */
+export function setResponseStatus(span: TelemetrySpan | undefined, status: number): void {
+    if (!span) return;
+
+    span.setAttribute('http.response.status_code', status);
+    if (status >= 400) {
+        span.setAttribute('error.type', String(status));
+        span.setStatus({ code: SPAN_STATUS_ERROR });
+    }
+}
+
+/**
+ * Whether a request URL may receive the traceparent header: only the origin
+ * of baseURL and the explicitly listed origins see the trace ids
+ */
+export function shouldPropagateTrace(url: string, baseURL: string, origins: string[] = []): boolean {
+    try {
+        const { origin } = new URL(url);
+        return origin === new URL(baseURL).origin || origins.some((allowed) => new URL(allowed).origin === origin);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Propagate the span to the called service with a W3C traceparent header,
+ * unless the caller already set one
+ */
+export function injectTraceparent(headers: Record<string, string>, span: TelemetrySpan | undefined): void {
+    if (!span) return;
+    if (Object.keys(headers).some((key) => key.toLowerCase() === 'traceparent')) return;
+
+    const { traceId, spanId, traceFlags } = span.spanContext();
+    if (!traceId || INVALID_TRACE_ID.test(traceId)) return;
+
+    headers['traceparent'] = `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, '0')}`;
+}
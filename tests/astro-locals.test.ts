@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMiddleware, setConfig } from '../src';
+import { createJWT, createRequestContext, jsonResponse } from './helpers';
+
+function createContext(path: string, cookies: Record<string, string> = {}) {
+    return {
+        ...createRequestContext(path, {}, cookies),
+        locals: {} as Record<string, any>,
+    };
+}
+
+function session(payload: Record<string, any> = {}, expiresIn = 3600) {
+    return {
+        access_token: createJWT(payload),
+        refresh_token: 'rt-1',
+        access_expires_at: String(Math.floor(Date.now() / 1000) + expiresIn),
+    };
+}
+
+async function run(ctx: ReturnType<typeof createContext>, next = vi.fn().mockResolvedValue(new Response('page'))) {
+    await createMiddleware()(ctx as any, next);
+    return next;
+}
+
+describe('Astro.locals.tokenkit', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        setConfig({
+            baseURL: 'https://api.example.com',
+            auth: { login: '/auth/login', refresh: '/auth/refresh' },
+            getContextStore: undefined,
+            setContextStore: undefined,
+            runWithContext: undefined,
+            protect: undefined,
+        });
+    });
+
+    it('exposes the session, user and bound client', async () => {
+        const ctx = createContext('/account', {
+            ...session({ sub: 'u-1', roles: ['admin'] }),
+            session_payload: Buffer.from(JSON.stringify({ id: 'u-1', name: 'Ada' })).toString('base64url'),
+        });
+
+        await run(ctx);
+
+        const { tokenkit } = ctx.locals;
+        expect(tokenkit.isAuthenticated).toBe(true);
+        expect(tokenkit.session.accessToken).toBe(ctx.jar.get('access_token'));
+        expect(tokenkit.session.payload).toEqual({ sub: 'u-1', roles: ['admin'] });
+        expect(tokenkit.user).toEqual({ id: 'u-1', name: 'Ada' });
+    });
+
+    it('binds the client to the request outside the middleware scope', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ items: [] }));
+        global.fetch = fetchMock;
+        const ctx = createContext('/account', session({ sub: 'u-1' }));
+
+        await run(ctx);
+        await ctx.locals.tokenkit.client.get('/orders');
+
+        expect(fetchMock.mock.calls[0][0]).toBe('https://api.example.com/orders');
+        expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe(`Bearer ${ctx.jar.get('access_token')}`);
+    });
+
+    it('exposes the session of the named provider the request uses', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ items: [] }));
+        global.fetch = fetchMock;
+        setConfig({
+            auth: {
+                customer: { login: '/customer/login', refresh: '/customer/refresh' },
+                staff: { login: '/staff/login', refresh: '/staff/refresh' },
+            },
+        });
+        const staff = session({ sub: 'staff-1' });
+        const ctx = createContext('/admin', {
+            staff_access_token: staff.access_token,
+            staff_refresh_token: staff.refresh_token,
+            staff_access_expires_at: staff.access_expires_at,
+        });
+
+        await run(ctx);
+        await ctx.locals.tokenkit.client.get('/orders');
+
+        expect(ctx.locals.tokenkit.session.payload).toEqual({ sub: 'staff-1' });
+        expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe(`Bearer ${staff.access_token}`);
+    });
+
+    it('is available while the page renders and reflects a refreshed session', async () => {
+        global.fetch = vi.fn().mockResolvedValue(jsonResponse({
+            access_token: createJWT({ sub: 'u-1' }),
+            refresh_token: 'rt-2',
+            expires_in: 3600,
+        }));
+        const ctx = createContext('/account', session({ sub: 'u-1' }, -10));
+
+        let accessToken: string | undefined;
+        await run(ctx, vi.fn(async () => {
+            accessToken = ctx.locals.tokenkit.session?.accessToken;
+            return new Response('page');
+        }));
+
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        expect(accessToken).toBe(ctx.jar.get('access_token'));
+        expect(ctx.locals.tokenkit.session.payload).toEqual({ sub: 'u-1' });
+        expect(ctx.locals.tokenkit.user).toBeNull();
+    });
+
+    it('reports signed-out requests', async () => {
+        const ctx = createContext('/pricing');
+
+        await run(ctx);
+
+        expect(ctx.locals.tokenkit).toMatchObject({ session: null, user: null, isAuthenticated: false });
+    });
+
+    it('builds the value only when it is read', async () => {
+        const ctx = createContext('/account', session({ sub: 'u-1' }));
+
+        await run(ctx);
+
+        const descriptor = Object.getOwnPropertyDescriptor(ctx.locals, 'tokenkit')!;
+        expect(descriptor.get).toBeTypeOf('function');
+        expect(ctx.locals.tokenkit).toBe(ctx.locals.tokenkit);
+    });
+});
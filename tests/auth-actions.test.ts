@@ -0,0 +1,120 @@
+import { describe, it, expect, expectTypeOf, vi, beforeEach } from 'vitest';
+import { z } from 'astro/zod';
+import { api, setConfig, APIError, AuthError, TimeoutError } from '../src';
+import { createJWT, createRequestContext, jsonResponse } from './helpers';
+
+const action = vi.hoisted(() => ({ context: undefined as any }));
+
+vi.mock('astro:actions', async () => {
+    const { ActionError } = await import('../node_modules/astro/dist/actions/runtime/client.js');
+    return {
+        ActionError,
+        // Astro calls the handler with the context of the current action request
+        defineAction: ({ handler }: any) => {
+            const call = (input?: any) => handler(input, action.context);
+            return Object.assign(call, { orThrow: call });
+        },
+    };
+});
+
+const { ActionError } = await import('../node_modules/astro/dist/actions/runtime/client.js');
+const { defineAuthAction, toActionError } = await import('../src/actions');
+
+function createContext(cookies: Record<string, string> = {}) {
+    return createRequestContext('/_actions/orders', {}, cookies);
+}
+
+function session(payload: Record<string, any> = {}, expiresIn = 3600) {
+    return {
+        access_token: createJWT(payload),
+        refresh_token: 'rt-1',
+        access_expires_at: String(Math.floor(Date.now() / 1000) + expiresIn),
+    };
+}
+
+describe('defineAuthAction', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        setConfig({
+            baseURL: 'https://api.example.com',
+            auth: { login: '/auth/login', refresh: '/auth/refresh' },
+            getContextStore: undefined,
+            setContextStore: undefined,
+            runWithContext: undefined,
+        });
+    });
+
+    it('binds the action context and passes the refreshed session to the handler', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(jsonResponse({ access_token: 'at-2', refresh_token: 'rt-2', expires_in: 3600 }))
+            .mockResolvedValueOnce(jsonResponse({ id: 'o-1' }));
+        global.fetch = fetchMock;
+        action.context = createContext(session({}, -10));
+
+        const createOrder = defineAuthAction({
+            input: z.object({ item: z.string() }),
+            handler: async (input, _context, current) => {
+                const { data } = await api.post('/orders', input);
+                return { order: data, token: current.accessToken };
+            },
+        });
+
+        const result = await createOrder.orThrow({ item: 'book' });
+
+        expect(result).toEqual({ order: { id: 'o-1' }, token: 'at-2' });
+        expect(fetchMock.mock.calls[1][1].headers.Authorization).toBe('Bearer at-2');
+    });
+
+    it('rejects calls without a session with UNAUTHORIZED', async () => {
+        const handler = vi.fn();
+        action.context = createContext();
+
+        const error = await defineAuthAction({ handler }).orThrow({}).catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(ActionError);
+        expect(error).toMatchObject({ code: 'UNAUTHORIZED', status: 401 });
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('rejects sessions missing required claims with FORBIDDEN', async () => {
+        action.context = createContext(session({ scope: 'orders:read' }));
+        const deleteOrder = defineAuthAction({ requireClaims: 'orders:write', handler: vi.fn() });
+
+        await expect(deleteOrder.orThrow()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('translates API errors raised by the handler', async () => {
+        global.fetch = vi.fn().mockResolvedValue(jsonResponse({ error: 'conflict' }, 409));
+        action.context = createContext(session());
+        const createOrder = defineAuthAction({
+            handler: async () => {
+                await api.post('/orders', {});
+            },
+        });
+
+        await expect(createOrder.orThrow()).rejects.toMatchObject({ code: 'CONFLICT', status: 409 });
+    });
+
+    it('types the handler input and the action from the input schema', () => {
+        const createOrder = defineAuthAction({
+            input: z.object({ item: z.string(), quantity: z.number().default(1) }),
+            handler: (input) => {
+                expectTypeOf(input).toEqualTypeOf<{ item: string; quantity: number }>();
+                return { id: 'o-1' };
+            },
+        });
+
+        expectTypeOf(createOrder.orThrow).parameter(0).toEqualTypeOf<{ item: string; quantity?: number }>();
+        expectTypeOf(createOrder.orThrow).returns.resolves.toEqualTypeOf<{ id: string }>();
+    });
+
+    it('maps TokenKit errors to action error codes', () => {
+        expect(toActionError(new AuthError('expired', 401))).toMatchObject({ code: 'UNAUTHORIZED' });
+        expect(toActionError(new APIError('missing', 404))).toMatchObject({ code: 'NOT_FOUND' });
+        expect(toActionError(new APIError('odd', 499))).toMatchObject({ code: 'INTERNAL_SERVER_ERROR' });
+        expect(toActionError(new TimeoutError('slow'))).toMatchObject({ code: 'GATEWAY_TIMEOUT' });
+
+        const other = new Error('boom');
+        expect(toActionError(other)).toBe(other);
+    });
+});
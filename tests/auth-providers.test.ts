@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { api, createClient, createMiddleware, getTokenManager, getTokenManagers, runWithContext, setConfig } from '../src';
+import { createRequestContext, jsonResponse } from './helpers';
+
+describe('named auth providers', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        setConfig({
+            baseURL: 'https://api.example.com',
+            auth: {
+                customer: {
+                    login: 'https://customers.example.com/login',
+                    refresh: 'https://customers.example.com/refresh',
+                },
+                staff: {
+                    login: 'https://staff.example.com/login',
+                    refresh: 'https://staff.example.com/refresh',
+                    policy: { refreshBefore: '1m' },
+                },
+            },
+        });
+
+        fetchMock = vi.fn(async (url: string) => {
+            const origin = new URL(url).origin;
+            if (url.endsWith('/login') || url.endsWith('/refresh')) {
+                const prefix = origin.startsWith('https://staff') ? 'staff' : 'customer';
+                const kind = url.endsWith('/login') ? 'login' : 'refresh';
+                return jsonResponse({ access_token: `${prefix}-${kind}-at`, refresh_token: `${prefix}-rt`, expires_in: 3600 });
+            }
+            return jsonResponse({ ok: true });
+        });
+        global.fetch = fetchMock as any;
+    });
+
+    afterEach(() => {
+        setConfig({ auth: undefined, authProvider: undefined });
+    });
+
+    it('creates a token manager per provider', () => {
+        expect([...getTokenManagers().keys()]).toEqual(['customer', 'staff']);
+        expect(getTokenManager()).toBe(getTokenManager('customer'));
+    });
+
+    it('logs in with the requested provider into its own cookie namespace', async () => {
+        const ctx = createRequestContext();
+
+        await runWithContext(ctx as any, () => api.login({ username: 'ada' }, { provider: 'staff' }));
+
+        expect(fetchMock.mock.calls[0][0]).toBe('https://staff.example.com/login');
+        expect(ctx.jar.get('staff_access_token')).toBe('staff-login-at');
+        expect(ctx.jar.has('customer_access_token')).toBe(false);
+        expect(ctx.jar.has('access_token')).toBe(false);
+    });
+
+    it('selects the provider per client', async () => {
+        const expiresAt = String(Math.floor(Date.now() / 1000) + 3600);
+        const ctx = createRequestContext('/', {}, {
+            customer_access_token: 'customer-at',
+            customer_refresh_token: 'customer-rt',
+            customer_access_expires_at: expiresAt,
+            staff_access_token: 'staff-at',
+            staff_refresh_token: 'staff-rt',
+            staff_access_expires_at: expiresAt,
+        });
+        const staffApi = createClient({ authProvider: 'staff' });
+
+        await runWithContext(ctx as any, async () => {
+            await api.get('/orders');
+            await staffApi.get('/orders');
+        });
+
+        expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer customer-at');
+        expect(fetchMock.mock.calls[1][1].headers.Authorization).toBe('Bearer staff-at');
+    });
+
+    it('rotates every provider that has a session in the middleware', async () => {
+        const ctx = createRequestContext('/', {}, {
+            staff_access_token: 'staff-at',
+            staff_refresh_token: 'staff-rt',
+            staff_access_expires_at: String(Math.floor(Date.now() / 1000) - 10),
+        });
+        const next = vi.fn().mockResolvedValue(new Response());
+
+        await createMiddleware()(ctx as any, next);
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock.mock.calls[0][0]).toBe('https://staff.example.com/refresh');
+        expect(ctx.jar.get('staff_access_token')).toBe('staff-refresh-at');
+        expect(next).toHaveBeenCalled();
+    });
+
+    it('rejects unknown providers', async () => {
+        const ctx = createRequestContext();
+
+        await expect(runWithContext(ctx as any, () => api.login({}, { provider: 'admin' })))
+            .rejects.toThrow('Unknown auth provider "admin"');
+        expect(() => setConfig({ authProvider: 'admin' })).toThrow('Unknown auth provider "admin"');
+    });
+});
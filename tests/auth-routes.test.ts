@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMiddleware, setConfig, tokenKit } from '../src';
+import type { TokenKitConfig } from '../src';
+import { POST as login } from '../src/routes/login';
+import { POST as logout } from '../src/routes/logout';
+import { POST as refresh } from '../src/routes/refresh';
+import { createRequestContext } from './helpers';
+
+function createContext(path: string, init: RequestInit = {}, cookies: Record<string, string> = {}) {
+    return {
+        ...createRequestContext(path, { method: 'POST', ...init }, cookies),
+        redirect: (location: string, status = 302) => new Response(null, { status, headers: { Location: location } }),
+    };
+}
+
+function form(fields: Record<string, string>): RequestInit {
+    return { body: new URLSearchParams(fields) };
+}
+
+function json(body: Record<string, any>): RequestInit {
+    return { body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } };
+}
+
+function tokenResponse(body: Record<string, any>, status = 200) {
+    return {
+        ok: status < 400,
+        status,
+        statusText: status < 400 ? 'OK' : 'Unauthorized',
+        json: () => Promise.resolve(body),
+    };
+}
+
+const session = () => ({
+    access_token: 'at-1',
+    refresh_token: 'rt-1',
+    access_expires_at: String(Math.floor(Date.now() / 1000) + 3600),
+});
+
+function configure(extra: Partial<TokenKitConfig> = {}) {
+    setConfig({
+        baseURL: 'https://api.example.com',
+        auth: {
+            login: '/auth/login',
+            refresh: '/auth/refresh',
+            logout: '/auth/logout',
+        },
+        getContextStore: undefined,
+        setContextStore: undefined,
+        runWithContext: undefined,
+        protect: undefined,
+        csrf: undefined,
+        routes: true,
+        ...extra,
+    });
+}
+
+async function call(route: typeof login, ctx: ReturnType<typeof createContext>) {
+    return await route(ctx as any) as Response;
+}
+
+describe('injected auth routes', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        configure();
+    });
+
+    it('logs in from a form post, sets cookies, and redirects to returnTo', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(tokenResponse({ access_token: 'at-1', refresh_token: 'rt-1', expires_in: 3600 }));
+        global.fetch = fetchMock;
+        const ctx = createContext('/api/auth/login', form({ username: 'ada', password: 'pass', returnTo: '/orders?page=2' }));
+
+        const response = await call(login, ctx);
+
+        expect(response.status).toBe(303);
+        expect(response.headers.get('Location')).toBe('/orders?page=2');
+        expect(ctx.jar.get('access_token')).toBe('at-1');
+        expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ username: 'ada', password: 'pass' });
+    });
+
+    it('does not forward the CSRF field to the auth server', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(tokenResponse({ access_token: 'at-1', refresh_token: 'rt-1', expires_in: 3600 }));
+        global.fetch = fetchMock;
+        configure({ csrf: { fieldName: 'csrf_field' } });
+
+        await call(login, createContext('/api/auth/login', form({ username: 'ada', password: 'pass', csrf_field: 'token-1' })));
+
+        expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ username: 'ada', password: 'pass' });
+    });
+
+    it('rejects open redirects', async () => {
+        global.fetch = vi.fn().mockResolvedValue(tokenResponse({ access_token: 'at-1', refresh_token: 'rt-1', expires_in: 3600 }));
+        configure({ routes: { successRedirect: '/dashboard' } });
+
+        const response = await call(login, createContext('/api/auth/login?returnTo=//evil.example.com', form({ username: 'ada', password: 'pass' })));
+
+        expect(response.headers.get('Location')).toBe('/dashboard');
+    });
+
+    it('answers JSON logins with JSON', async () => {
+        global.fetch = vi.fn()
+            .mockResolvedValueOnce(tokenResponse({ access_token: 'at-1', refresh_token: 'rt-1', expires_in: 3600 }))
+            .mockResolvedValueOnce(tokenResponse({ error: 'invalid_grant' }, 401));
+
+        const ok = await call(login, createContext('/api/auth/login', json({ username: 'ada', password: 'pass' })));
+        expect(ok.status).toBe(200);
+        expect(await ok.json()).toMatchObject({ authenticated: true, returnTo: '/' });
+
+        const rejected = await call(login, createContext('/api/auth/login', json({ username: 'ada', password: 'nope' })));
+        expect(rejected.status).toBe(401);
+        expect(await rejected.json()).toEqual({ error: 'invalid_credentials' });
+    });
+
+    it('redirects failed form logins back to the login page with the error', async () => {
+        global.fetch = vi.fn().mockResolvedValue(tokenResponse({ error: 'invalid_grant' }, 401));
+        configure({ protect: { loginRedirect: '/signin' } });
+        const ctx = createContext('/api/auth/login', form({ username: 'ada', password: 'nope', returnTo: '/orders' }));
+
+        const response = await call(login, ctx);
+
+        expect(response.status).toBe(303);
+        expect(response.headers.get('Location')).toBe('/signin?error=invalid_credentials&returnTo=%2Forders');
+        expect(ctx.jar.has('access_token')).toBe(false);
+    });
+
+    it('logs out and redirects', async () => {
+        global.fetch = vi.fn().mockResolvedValue(tokenResponse({}));
+        configure({ routes: { logoutRedirect: '/goodbye' } });
+        const ctx = createContext('/api/auth/logout', {}, session());
+
+        const response = await call(logout, ctx);
+
+        expect(response.status).toBe(303);
+        expect(response.headers.get('Location')).toBe('/goodbye');
+        expect(ctx.jar.size).toBe(0);
+    });
+
+    it('refreshes the session and reports missing sessions with 401', async () => {
+        global.fetch = vi.fn().mockResolvedValue(tokenResponse({ access_token: 'at-2', refresh_token: 'rt-2', expires_in: 3600 }));
+        const ctx = createContext('/api/auth/refresh', {}, session());
+
+        const response = await call(refresh, ctx);
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ authenticated: true });
+        expect(ctx.jar.get('access_token')).toBe('at-2');
+
+        const missing = await call(refresh, createContext('/api/auth/refresh'));
+        expect(missing.status).toBe(401);
+    });
+
+    it('keeps injected endpoints reachable under route protection', async () => {
+        configure({ protect: {} });
+        const next = vi.fn().mockResolvedValue(new Response('ok'));
+
+        await createMiddleware()(createContext('/api/auth/login') as any, next);
+        expect(next).toHaveBeenCalledTimes(1);
+
+        const blocked = await createMiddleware()(createContext('/api/orders') as any, next) as Response;
+        expect(blocked.status).toBe(401);
+    });
+
+    it('injects the enabled routes from the integration', () => {
+        const injectRoute = vi.fn();
+        const integration = tokenKit({
+            baseURL: 'https://api.example.com',
+            auth: { login: '/auth/login', refresh: '/auth/refresh' },
+            routes: { login: '/session/login', refresh: false },
+        });
+
+        (integration.hooks['astro:config:setup'] as any)({
+            updateConfig: vi.fn(),
+            addMiddleware: vi.fn(),
+            injectScript: vi.fn(),
+            injectRoute,
+        });
+
+        expect(injectRoute.mock.calls.map(([route]) => route)).toEqual([
+            { pattern: '/session/login', entrypoint: 'astro-tokenkit/login', prerender: false },
+            { pattern: '/api/auth/logout', entrypoint: 'astro-tokenkit/logout', prerender: false },
+        ]);
+    });
+});
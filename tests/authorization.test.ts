@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createClient, createMiddleware, runWithContext, setConfig } from '../src';
+import { extractClaims } from '../src/auth/authorization';
+import { createJWT, createRequestContext } from './helpers';
+
+function createContext(payload?: Record<string, any>, path = '/') {
+    return createRequestContext(path, {}, payload ? {
+        access_token: createJWT(payload),
+        refresh_token: 'rt-1',
+        access_expires_at: String(Math.floor(Date.now() / 1000) + 3600),
+    } : {});
+}
+
+describe('claim extraction', () => {
+    it('reads Keycloak realm roles and space-separated scopes by default', () => {
+        const claims = extractClaims({
+            realm_access: { roles: ['admin', 'offline_access'] },
+            scope: 'openid orders:read orders:write',
+        });
+
+        expect(claims.roles).toEqual(['admin', 'offline_access']);
+        expect(claims.permissions).toEqual(['openid', 'orders:read', 'orders:write']);
+    });
+
+    it('reads Auth0 namespaced claims by default and through mappings', () => {
+        const payload = {
+            'https://shop.example.com/roles': ['support'],
+            'https://shop.example.com/app': { perms: ['tickets:close'] },
+            permissions: ['tickets:read'],
+        };
+
+        expect(extractClaims(payload)).toEqual({ roles: ['support'], permissions: ['tickets:read'] });
+        expect(extractClaims(payload, {
+            roles: 'https://shop.example.com/roles',
+            permissions: ['https://shop.example.com/app.perms', 'permissions'],
+        })).toEqual({ roles: ['support'], permissions: ['tickets:close', 'tickets:read'] });
+    });
+
+    it('reads Keycloak client roles through a mapping', () => {
+        const claims = extractClaims(
+            { resource_access: { shop: { roles: ['manager'] } } },
+            { roles: 'resource_access.shop.roles' }
+        );
+
+        expect(claims.roles).toEqual(['manager']);
+    });
+});
+
+describe('api.can and api.requireClaims', () => {
+    const client = createClient({
+        baseURL: 'https://api.example.com',
+        auth: { login: '/auth/login', refresh: '/auth/refresh' },
+    });
+
+    it('checks permissions and roles from the token claims', async () => {
+        const ctx = createContext({ roles: ['editor'], permissions: ['orders:read', 'orders:write'] });
+
+        await runWithContext(ctx as any, async () => {
+            expect(await client.can('orders:write')).toBe(true);
+            expect(await client.can('orders:delete')).toBe(false);
+            expect(await client.can({ roles: ['admin', 'editor'], permissions: ['orders:read'] })).toBe(true);
+            expect(await client.can({ roles: ['admin'] })).toBe(false);
+
+            const session = await client.requireClaims({ roles: ['editor'] });
+            expect(session.payload?.roles).toEqual(['editor']);
+            await expect(client.requireClaims({ roles: ['admin'] })).rejects.toMatchObject({ status: 403 });
+        });
+    });
+
+    it('reads claims from the access token, not the persisted login payload', async () => {
+        const ctx = createContext({ sub: 'u-1', roles: ['viewer'] });
+        ctx.jar.set('session_payload', Buffer.from(JSON.stringify({ id: 'u-1', roles: ['admin'] })).toString('base64url'));
+
+        await runWithContext(ctx as any, async () => {
+            expect(await client.can({ roles: ['admin'] })).toBe(false);
+            expect(await client.can({ roles: ['viewer'] })).toBe(true);
+
+            const session = await client.requireClaims({ roles: ['viewer'] });
+            expect(session.user?.roles).toEqual(['admin']);
+        });
+    });
+
+    it('treats a missing session as unauthenticated', async () => {
+        const ctx = createContext();
+
+        await runWithContext(ctx as any, async () => {
+            expect(await client.can('orders:read')).toBe(false);
+            await expect(client.requireClaims('orders:read')).rejects.toMatchObject({ status: 401 });
+        });
+    });
+});
+
+describe('middleware claim rules', () => {
+    beforeEach(() => {
+        setConfig({
+            baseURL: 'https://api.example.com',
+            auth: {
+                login: '/auth/login',
+                refresh: '/auth/refresh',
+                claims: { roles: 'realm_access.roles' },
+            },
+            getContextStore: undefined,
+            setContextStore: undefined,
+            runWithContext: undefined,
+            protect: {
+                include: ['/account/**'],
+                exclude: ['/admin/public'],
+                rules: [
+                    { paths: ['/admin/**', '/api/admin/**'], roles: ['admin'] },
+                    { paths: ['/admin/billing'], permissions: ['billing:read'] },
+                ],
+            },
+        });
+    });
+
+    async function run(ctx: ReturnType<typeof createContext>) {
+        const next = vi.fn().mockResolvedValue(new Response('page'));
+        const response = await createMiddleware()(ctx as any, next) as Response;
+        return { response, next };
+    }
+
+    it('lets requests through when every matching rule passes', async () => {
+        const admin = { realm_access: { roles: ['admin'] }, scope: 'billing:read' };
+
+        expect((await run(createContext(admin, '/admin/users'))).next).toHaveBeenCalled();
+        expect((await run(createContext(admin, '/admin/billing'))).next).toHaveBeenCalled();
+        expect((await run(createContext({ realm_access: { roles: [] } }, '/account'))).next).toHaveBeenCalled();
+    });
+
+    it('returns 403 when a signed-in user misses a claim', async () => {
+        const { response, next } = await run(createContext({ realm_access: { roles: ['admin'] } }, '/admin/billing'));
+        expect(next).not.toHaveBeenCalled();
+        expect(response.status).toBe(403);
+
+        const api = await run(createContext({ roles: ['admin'] }, '/api/admin/users'));
+        expect(api.response.status).toBe(403);
+        expect(await api.response.json()).toEqual({ error: 'forbidden', message: 'Insufficient permissions' });
+    });
+
+    it('requires a session on rule paths even when they are excluded', async () => {
+        const { response } = await run(createContext(undefined, '/admin/public'));
+
+        expect(response.status).toBe(302);
+        expect(response.headers.get('Location')).toBe('/login?returnTo=%2Fadmin%2Fpublic');
+    });
+});
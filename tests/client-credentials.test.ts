@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createClient } from '../src';
+import { clearAppTokenCache } from '../src/auth/client-credentials';
+
+function tokenResponse(accessToken: string, expiresIn = 3600) {
+    return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve({ access_token: accessToken, token_type: 'Bearer', expires_in: expiresIn }),
+    };
+}
+
+function apiResponse(status = 200) {
+    return {
+        ok: status < 400,
+        status,
+        statusText: status === 401 ? 'Unauthorized' : 'OK',
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve({ ok: status < 400 }),
+    };
+}
+
+describe('client credentials grant', () => {
+    const auth = {
+        grant: 'client_credentials' as const,
+        login: '/oauth/token',
+        clientId: 'reporting-job',
+        clientSecret: 'secret',
+        scope: ['orders:read'],
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        clearAppTokenCache();
+    });
+
+    it('fetches and caches an app token without an Astro context', async () => {
+        let issued = 0;
+        const fetchMock = vi.fn(async (url: string) => url.endsWith('/oauth/token')
+            ? tokenResponse(`app-token-${++issued}`)
+            : apiResponse());
+        global.fetch = fetchMock as any;
+
+        const client = createClient({ baseURL: 'https://api.example.com', auth });
+        const other = createClient({ baseURL: 'https://api.example.com', auth: { ...auth } });
+
+        await client.get('/orders');
+        await other.get('/orders');
+
+        const tokenCalls = fetchMock.mock.calls.filter(([url]) => url.endsWith('/oauth/token'));
+        expect(tokenCalls).toHaveLength(1);
+
+        const body = new URLSearchParams((tokenCalls[0] as any)[1].body);
+        expect(body.get('grant_type')).toBe('client_credentials');
+        expect(body.get('client_id')).toBe('reporting-job');
+        expect(body.get('client_secret')).toBe('secret');
+        expect(body.get('scope')).toBe('orders:read');
+
+        const apiCalls = fetchMock.mock.calls.filter(([url]) => url.endsWith('/orders')) as any[];
+        expect(apiCalls[1][1].headers.Authorization).toBe('Bearer app-token-1');
+    });
+
+    it('keys cached tokens by client and scope', async () => {
+        let issued = 0;
+        const fetchMock = vi.fn(async (url: string) => url.endsWith('/oauth/token')
+            ? tokenResponse(`app-token-${++issued}`)
+            : apiResponse());
+        global.fetch = fetchMock as any;
+
+        await createClient({ baseURL: 'https://api.example.com', auth }).get('/orders');
+        await createClient({ baseURL: 'https://api.example.com', auth: { ...auth, scope: 'orders:write' } }).post('/orders', {});
+
+        const apiCalls = fetchMock.mock.calls.filter(([url]) => url.endsWith('/orders')) as any[];
+        expect(apiCalls[0][1].headers.Authorization).toBe('Bearer app-token-1');
+        expect(apiCalls[1][1].headers.Authorization).toBe('Bearer app-token-2');
+    });
+
+    it('refreshes the app token before it expires', async () => {
+        let issued = 0;
+        const fetchMock = vi.fn(async (url: string) => url.endsWith('/oauth/token')
+            // Within the default 5 minute refreshBefore window
+            ? tokenResponse(`app-token-${++issued}`, 200)
+            : apiResponse());
+        global.fetch = fetchMock as any;
+
+        const client = createClient({ baseURL: 'https://api.example.com', auth });
+
+        await client.get('/orders');
+
+        // Step past the default 30 second minInterval
+        const now = Date.now();
+        const spy = vi.spyOn(Date, 'now').mockReturnValue(now + 40_000);
+        try {
+            await client.get('/orders');
+        } finally {
+            spy.mockRestore();
+        }
+
+        const apiCalls = fetchMock.mock.calls.filter(([url]) => url.endsWith('/orders')) as any[];
+        expect(apiCalls[0][1].headers.Authorization).toBe('Bearer app-token-1');
+        expect(apiCalls[1][1].headers.Authorization).toBe('Bearer app-token-2');
+    });
+
+    it('discards a rejected app token and retries once', async () => {
+        let issued = 0;
+        let apiCalls = 0;
+        const fetchMock = vi.fn(async (url: string) => {
+            if (url.endsWith('/oauth/token')) return tokenResponse(`app-token-${++issued}`);
+            return apiResponse(++apiCalls === 1 ? 401 : 200);
+        });
+        global.fetch = fetchMock as any;
+
+        const client = createClient({ baseURL: 'https://api.example.com', auth });
+        const response = await client.get('/orders');
+
+        expect(response.status).toBe(200);
+        const calls = fetchMock.mock.calls.filter(([url]) => url.endsWith('/orders')) as any[];
+        expect(calls[1][1].headers.Authorization).toBe('Bearer app-token-2');
+    });
+
+    it('supports HTTP Basic client authentication', async () => {
+        const fetchMock = vi.fn(async (url: string) => url.endsWith('/oauth/token')
+            ? tokenResponse('app-token')
+            : apiResponse());
+        global.fetch = fetchMock as any;
+
+        await createClient({
+            baseURL: 'https://api.example.com',
+            auth: { ...auth, clientAuth: 'basic' },
+        }).get('/orders');
+
+        const [, init] = fetchMock.mock.calls[0] as any;
+        expect(init.headers.Authorization).toBe(`Basic ${Buffer.from('reporting-job:secret').toString('base64')}`);
+        expect(new URLSearchParams(init.body).has('client_secret')).toBe(false);
+    });
+});
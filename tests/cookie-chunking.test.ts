@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createClient, runWithContext } from '../src';
+import { createCookieContext } from './helpers';
+
+function createContext(cookieHeader?: string) {
+    return {
+        ...createCookieContext(),
+        request: new Request('https://app.example.com/', {
+            headers: cookieHeader ? { cookie: cookieHeader } : {},
+        }),
+    };
+}
+
+function loginResponse(accessToken: string) {
+    return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        json: () => Promise.resolve({
+            access_token: accessToken,
+            refresh_token: 'rt-1',
+            expires_in: 3600,
+        }),
+    };
+}
+
+function createTestClient(storage?: any) {
+    return createClient({
+        baseURL: 'https://api.example.com',
+        auth: {
+            login: '/auth/login',
+            refresh: '/auth/refresh',
+            storage,
+            debug: true,
+        },
+    });
+}
+
+describe('chunked token cookies', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.restoreAllMocks();
+    });
+
+    it('splits oversized tokens across numbered cookies and reassembles them', async () => {
+        const largeToken = 'x'.repeat(9000);
+        global.fetch = vi.fn().mockResolvedValue(loginResponse(largeToken));
+        const client = createTestClient();
+        const ctx = createContext();
+
+        const session = await runWithContext(ctx as any, async () => {
+            await client.login({ username: 'user', password: 'pass' });
+            return client.getSession();
+        });
+
+        expect(ctx.jar.has('access_token')).toBe(false);
+        expect(['access_token.0', 'access_token.1', 'access_token.2'].every((name) => ctx.jar.has(name))).toBe(true);
+        expect(ctx.jar.has('access_token.3')).toBe(false);
+        expect([...ctx.jar.values()].every((value) => value.length <= 3800)).toBe(true);
+        expect(ctx.jar.get('refresh_token')).toBe('rt-1');
+        expect(session?.accessToken).toBe(largeToken);
+    });
+
+    it('removes stale chunks when a smaller token is stored and clears every chunk', async () => {
+        global.fetch = vi.fn()
+            .mockResolvedValueOnce(loginResponse('y'.repeat(5000)))
+            .mockResolvedValueOnce(loginResponse('small-token'))
+            .mockResolvedValueOnce(loginResponse('z'.repeat(5000)));
+        const client = createTestClient();
+        const ctx = createContext();
+
+        await runWithContext(ctx as any, async () => {
+            await client.login({ username: 'user', password: 'pass' });
+            await client.login({ username: 'user', password: 'pass' });
+            expect(ctx.jar.get('access_token')).toBe('small-token');
+            expect(ctx.jar.has('access_token.0')).toBe(false);
+            expect(ctx.jar.has('access_token.1')).toBe(false);
+
+            await client.login({ username: 'user', password: 'pass' });
+            await client.logout();
+        });
+
+        expect(ctx.jar.size).toBe(0);
+    });
+
+    it('chunks the encrypted cookie as well', async () => {
+        const largeToken = 'e'.repeat(6000);
+        global.fetch = vi.fn().mockResolvedValue(loginResponse(largeToken));
+        const client = createTestClient({ encryption: { secrets: 'chunk-secret-0123456789-0123456789' } });
+        const ctx = createContext();
+
+        const session = await runWithContext(ctx as any, async () => {
+            await client.login({ username: 'user', password: 'pass' });
+            return client.getSession();
+        });
+
+        expect(ctx.jar.has('tokenkit')).toBe(false);
+        expect(ctx.jar.has('tokenkit.0')).toBe(true);
+        expect(session?.accessToken).toBe(largeToken);
+    });
+
+    it('warns in debug mode when the cookie header approaches server limits', async () => {
+        const debugSpy = vi.spyOn(console, 'debug').mockImplementation(() => {});
+        global.fetch = vi.fn().mockResolvedValue(loginResponse('a'.repeat(3000)));
+        const client = createTestClient();
+
+        await runWithContext(createContext() as any, () => client.login({ username: 'user', password: 'pass' }));
+        expect(debugSpy.mock.calls.some(([message]) => String(message).includes('cookie header is close to common server limits'))).toBe(false);
+
+        const ctx = createContext(`analytics=${'b'.repeat(3500)}; access_token=${'c'.repeat(3000)}`);
+        await runWithContext(ctx as any, () => client.login({ username: 'user', password: 'pass' }));
+
+        const warning = debugSpy.mock.calls.find(([message]) => String(message).includes('cookie header is close to common server limits'));
+        expect(warning?.[1]).toMatchObject({ warnAt: 6144 });
+        expect(warning?.[1].estimatedBytes).toBeGreaterThan(6144);
+        expect(warning?.[1].estimatedBytes).toBeLessThan(9000);
+    });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMiddleware, csrfField, getCsrfToken, setConfig } from '../src';
+import type { CsrfConfig } from '../src';
+import { createSessionContext } from './helpers';
+
+function createContext(path: string, init: RequestInit = {}, cookies: Record<string, string> = {}) {
+    const url = new URL(path, 'https://app.example.com');
+
+    return {
+        ...createSessionContext({}, cookies),
+        request: new Request(url, init),
+        url,
+    };
+}
+
+function configure(csrf: boolean | CsrfConfig, auth?: any) {
+    setConfig({
+        baseURL: 'https://api.example.com',
+        auth,
+        getContextStore: undefined,
+        setContextStore: undefined,
+        runWithContext: undefined,
+        protect: undefined,
+        csrf,
+    });
+}
+
+async function run(ctx: ReturnType<typeof createContext>) {
+    let field = '';
+    let token: string | null = null;
+    const next = vi.fn(async () => {
+        token = getCsrfToken();
+        field = csrfField();
+        return new Response('ok');
+    });
+    const response = await createMiddleware()(ctx as any, next) as Response;
+    return { response, next, token, field };
+}
+
+function post(headers: Record<string, string>, body?: BodyInit): RequestInit {
+    return { method: 'POST', headers, body };
+}
+
+describe('CSRF protection', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        configure(true);
+    });
+
+    it('issues a token cookie and renders it into forms', async () => {
+        const ctx = createContext('/checkout');
+
+        const { next, token, field } = await run(ctx);
+
+        expect(next).toHaveBeenCalled();
+        expect(token).toBe(ctx.jar.get('csrf_token'));
+        expect(field).toBe(`<input type="hidden" name="_csrf" value="${token}">`);
+        expect(ctx.cookies.set).toHaveBeenCalledWith('csrf_token', token, expect.objectContaining({ httpOnly: false, sameSite: 'lax', secure: true }));
+
+        // The same token is reused on later requests
+        const again = await run(createContext('/checkout', {}, { csrf_token: token! }));
+        expect(again.token).toBe(token);
+    });
+
+    it('sets the token cookie with the auth cookie config', async () => {
+        configure(true, {
+            login: '/auth/login',
+            refresh: '/auth/refresh',
+            cookies: { secure: false, sameSite: 'strict', domain: '.example.com' },
+        });
+        const ctx = createContext('/checkout');
+
+        const { token } = await run(ctx);
+
+        expect(ctx.cookies.set).toHaveBeenCalledWith('csrf_token', token, {
+            path: '/',
+            httpOnly: false,
+            secure: false,
+            sameSite: 'strict',
+            domain: '.example.com',
+        });
+    });
+
+    it('accepts unsafe requests with the token in a form field or header', async () => {
+        const cookies = { csrf_token: 'known-token' };
+
+        const form = createContext('/orders', post(
+            { 'content-type': 'application/x-www-form-urlencoded', origin: 'https://app.example.com' },
+            new URLSearchParams({ item: 'book', _csrf: 'known-token' })
+        ), cookies);
+        const { next } = await run(form);
+        expect(next).toHaveBeenCalled();
+        // The body is still readable by the endpoint
+        expect((await form.request.formData()).get('item')).toBe('book');
+
+        const header = createContext('/api/orders', post({ 'x-csrf-token': 'known-token' }), cookies);
+        expect((await run(header)).next).toHaveBeenCalled();
+    });
+
+    it('rejects unsafe requests without a valid token', async () => {
+        const missing = await run(createContext('/orders', post({ 'content-type': 'application/json' }, '{}'), { csrf_token: 'known-token' }));
+        expect(missing.next).not.toHaveBeenCalled();
+        expect(missing.response.status).toBe(403);
+        expect(await missing.response.json()).toEqual({ error: 'invalid_csrf_token' });
+
+        const forged = await run(createContext('/orders', post({ 'x-csrf-token': 'guessed' }), { csrf_token: 'known-token' }));
+        expect(forged.response.status).toBe(403);
+
+        // A fresh browser has no cookie yet, so no submitted token can match
+        const fresh = await run(createContext('/orders', post({ 'x-csrf-token': 'guessed' })));
+        expect(fresh.response.status).toBe(403);
+    });
+
+    it('rejects cross-origin requests even with a matching token', async () => {
+        const cookies = { csrf_token: 'known-token' };
+
+        const origin = await run(createContext('/orders', post({ 'x-csrf-token': 'known-token', origin: 'https://evil.example.com' }), cookies));
+        expect(origin.response.status).toBe(403);
+
+        const referer = await run(createContext('/orders', post({ 'x-csrf-token': 'known-token', referer: 'https://evil.example.com/page' }), cookies));
+        expect(referer.response.status).toBe(403);
+
+        configure({ trustedOrigins: ['https://admin.example.com'] });
+        const trusted = await run(createContext('/orders', post({ 'x-csrf-token': 'known-token', origin: 'https://admin.example.com' }), cookies));
+        expect(trusted.next).toHaveBeenCalled();
+    });
+
+    it('is configurable per path', async () => {
+        configure({ include: ['/account/**'], exclude: ['/account/webhooks/**'] });
+
+        expect((await run(createContext('/public/contact', post({})))).next).toHaveBeenCalled();
+        expect((await run(createContext('/account/webhooks/stripe', post({})))).next).toHaveBeenCalled();
+        expect((await run(createContext('/account/profile', post({})))).response.status).toBe(403);
+    });
+
+    it('keeps synchronizer tokens in the session', async () => {
+        configure({ strategy: 'synchronizer', headerName: 'x-xsrf' });
+        const ctx = createContext('/form');
+
+        const { token } = await run(ctx);
+        expect(ctx.store.get('tokenkit_csrf')).toBe(token);
+        expect(ctx.jar.has('csrf_token')).toBe(false);
+
+        const submit = createContext('/form', post({ 'x-xsrf': token! }));
+        submit.store.set('tokenkit_csrf', token);
+        expect((await run(submit)).next).toHaveBeenCalled();
+
+        const other = createContext('/form', post({ 'x-xsrf': token! }));
+        expect((await run(other)).response.status).toBe(403);
+    });
+});
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthError, createClient, getTokenManager, runWithContext, setConfig } from '../src';
+import { clearDiscoveryCache } from '../src/auth/discovery';
+
+const ISSUER = 'https://id.example.com/realms/app';
+
+const discoveryDocument = {
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/protocol/openid-connect/auth`,
+    token_endpoint: `${ISSUER}/protocol/openid-connect/token`,
+    revocation_endpoint: `${ISSUER}/protocol/openid-connect/revoke`,
+    end_session_endpoint: `${ISSUER}/protocol/openid-connect/logout`,
+    jwks_uri: `${ISSUER}/protocol/openid-connect/certs`,
+};
+
+function createFetchMock() {
+    return vi.fn(async (url: string) => {
+        if (url === `${ISSUER}/.well-known/openid-configuration`) {
+            return {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: () => Promise.resolve(discoveryDocument),
+            };
+        }
+
+        return {
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            headers: new Headers(),
+            url,
+            json: () => Promise.resolve({ access_token: 'at', refresh_token: 'rt', expires_in: 3600 }),
+        };
+    });
+}
+
+const mockCtx = {
+    cookies: {
+        get: vi.fn(),
+        set: vi.fn(),
+        delete: vi.fn(),
+    },
+};
+
+describe('OpenID Connect discovery', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        clearDiscoveryCache();
+    });
+
+    afterEach(() => {
+        setConfig({ baseURL: '', auth: undefined });
+    });
+
+    it('uses the discovered token endpoint for login', async () => {
+        const fetchMock = createFetchMock();
+        global.fetch = fetchMock as any;
+
+        const client = createClient({
+            baseURL: 'https://api.example.com',
+            auth: { issuer: ISSUER, clientId: 'web' },
+        });
+
+        await runWithContext(mockCtx as any, () => client.login({ username: 'u', password: 'p' }));
+
+        expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+            `${ISSUER}/.well-known/openid-configuration`,
+            discoveryDocument.token_endpoint,
+        ]);
+
+        const [, init] = fetchMock.mock.calls[1] as any;
+        expect(init.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+        expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+            grant_type: 'password',
+            client_id: 'web',
+            username: 'u',
+            password: 'p',
+        });
+    });
+
+    it('ignores protocol fields submitted with the login credentials', async () => {
+        const fetchMock = createFetchMock();
+        global.fetch = fetchMock as any;
+
+        const client = createClient({
+            baseURL: 'https://api.example.com',
+            auth: { issuer: ISSUER, clientId: 'web' },
+        });
+
+        await runWithContext(mockCtx as any, () => client.login({
+            username: 'u',
+            password: 'p',
+            grant_type: 'client_credentials',
+            client_id: 'admin-console',
+            scope: 'admin',
+        }));
+
+        const [, init] = fetchMock.mock.calls[1] as any;
+        expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+            grant_type: 'password',
+            client_id: 'web',
+            username: 'u',
+            password: 'p',
+        });
+    });
+
+    it('sends the refresh_token grant to the discovered token endpoint', async () => {
+        const fetchMock = createFetchMock();
+        global.fetch = fetchMock as any;
+
+        setConfig({
+            baseURL: 'https://api.example.com',
+            auth: { issuer: ISSUER, clientId: 'web', clientSecret: 's3cret' },
+        });
+
+        const bundle = await getTokenManager()!.refresh(mockCtx as any, 'old-rt');
+        expect(bundle?.accessToken).toBe('at');
+
+        const [url, init] = fetchMock.mock.calls.find(([url]) => url === discoveryDocument.token_endpoint) as any;
+        expect(url).toBe(discoveryDocument.token_endpoint);
+        expect(init.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+        expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+            grant_type: 'refresh_token',
+            client_id: 'web',
+            client_secret: 's3cret',
+            refresh_token: 'old-rt',
+        });
+    });
+
+    it('keeps the configured body format for explicit endpoints', async () => {
+        const fetchMock = createFetchMock();
+        global.fetch = fetchMock as any;
+
+        setConfig({
+            baseURL: 'https://api.example.com',
+            auth: { issuer: ISSUER, login: '/auth/login', refresh: '/auth/refresh' },
+        });
+
+        await getTokenManager()!.refresh(mockCtx as any, 'old-rt');
+
+        const [url, init] = fetchMock.mock.calls.find(([url]) => url === 'https://api.example.com/auth/refresh') as any;
+        expect(url).toBe('https://api.example.com/auth/refresh');
+        expect(init.headers['Content-Type']).toBe('application/json');
+        expect(JSON.parse(init.body)).toEqual({ refreshToken: 'old-rt' });
+    });
+
+    it('requires a client id for the discovered token endpoint', async () => {
+        global.fetch = createFetchMock() as any;
+
+        const client = createClient({ baseURL: 'https://api.example.com', auth: { issuer: ISSUER } });
+
+        await expect(runWithContext(mockCtx as any, () => client.login({ username: 'u' })))
+            .rejects.toThrow(/auth\.clientId is required/);
+    });
+
+    it('revokes tokens at the discovered revocation endpoint on logout', async () => {
+        const fetchMock = createFetchMock();
+        global.fetch = fetchMock as any;
+        const cookies = new Map<string, { value: string }>([
+            ['access_token', { value: 'at' }],
+            ['refresh_token', { value: 'rt' }],
+        ]);
+        const ctx = {
+            cookies: {
+                get: vi.fn((name: string) => cookies.get(name)),
+                set: vi.fn(),
+                delete: vi.fn((name: string) => cookies.delete(name)),
+            },
+        };
+
+        setConfig({ baseURL: 'https://api.example.com', auth: { issuer: ISSUER, clientId: 'web' } });
+        await getTokenManager()!.logout(ctx as any);
+
+        const calls = fetchMock.mock.calls.filter(([url]) => !String(url).endsWith('/.well-known/openid-configuration')) as any[];
+        expect(calls.map(([url]) => url)).toEqual([
+            discoveryDocument.revocation_endpoint,
+            discoveryDocument.revocation_endpoint,
+        ]);
+        expect(calls.map(([, init]) => Object.fromEntries(new URLSearchParams(init.body)))).toEqual([
+            { token: 'rt', token_type_hint: 'refresh_token', client_id: 'web' },
+            { token: 'at', token_type_hint: 'access_token', client_id: 'web' },
+        ]);
+        expect(calls.some(([url]) => url === discoveryDocument.end_session_endpoint)).toBe(false);
+    });
+
+    it('caches discovery documents per process', async () => {
+        const fetchMock = createFetchMock();
+        global.fetch = fetchMock as any;
+
+        const first = createClient({ baseURL: 'https://api.example.com', auth: { issuer: ISSUER, clientId: 'web' } });
+        const second = createClient({ baseURL: 'https://api.example.com', auth: { issuer: `${ISSUER}/`, clientId: 'web' } });
+
+        await runWithContext(mockCtx as any, () => first.login({ username: 'u' }));
+        await runWithContext(mockCtx as any, () => second.login({ username: 'u' }));
+
+        const discoveryCalls = fetchMock.mock.calls.filter(([url]) => String(url).endsWith('/.well-known/openid-configuration'));
+        expect(discoveryCalls).toHaveLength(1);
+    });
+
+    it('keeps explicitly configured endpoints', async () => {
+        const fetchMock = createFetchMock();
+        global.fetch = fetchMock as any;
+
+        const client = createClient({
+            baseURL: 'https://api.example.com',
+            auth: { issuer: ISSUER, login: '/custom/login' },
+        });
+
+        await runWithContext(mockCtx as any, () => client.login({ username: 'u' }));
+
+        expect(fetchMock.mock.calls[1][0]).toBe('https://api.example.com/custom/login');
+    });
+
+    it('rejects an invalid issuer in setConfig', () => {
+        expect(() => setConfig({ baseURL: 'https://api.example.com', auth: { issuer: 'not a url' } }))
+            .toThrow(/Invalid auth\.issuer/);
+    });
+
+    it('reports discovery failures from setConfig and on auth requests', async () => {
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+        global.fetch = vi.fn().mockResolvedValue({
+            ok: false,
+            status: 404,
+            statusText: 'Not Found',
+            json: () => Promise.resolve({}),
+        }) as any;
+
+        setConfig({ baseURL: 'https://api.example.com', auth: { issuer: ISSUER } });
+        await vi.waitFor(() => expect(errorSpy).toHaveBeenCalled());
+        expect(errorSpy.mock.calls[0][0]).toMatch(/OpenID Connect discovery failed for https:\/\/id\.example\.com\/realms\/app: 404 Not Found/);
+
+        const manager = getTokenManager()!;
+        const error = await manager.login(mockCtx as any, { username: 'u' }).catch((e) => e);
+        expect(error).toBeInstanceOf(AuthError);
+        expect(error.message).toMatch(/OpenID Connect discovery failed/);
+
+        errorSpy.mockRestore();
+    });
+
+    it('rejects documents for a different issuer', async () => {
+        global.fetch = vi.fn().mockResolvedValue({
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            json: () => Promise.resolve({ ...discoveryDocument, issuer: 'https://evil.example.com' }),
+        }) as any;
+
+        const client = createClient({ baseURL: 'https://api.example.com', auth: { issuer: ISSUER } });
+
+        await expect(runWithContext(mockCtx as any, () => client.login({ username: 'u' })))
+            .rejects.toThrow(/does not match/);
+    });
+});
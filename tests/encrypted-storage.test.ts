@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createClient, runWithContext } from '../src';
+import { createCookieContext } from './helpers';
+
+const OLD_SECRET = 'old-secret-0123456789-0123456789-abcdef';
+const NEW_SECRET = 'new-secret-0123456789-0123456789-abcdef';
+
+function loginResponse(accessToken: string) {
+    return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        json: () => Promise.resolve({
+            access_token: accessToken,
+            refresh_token: `rt-for-${accessToken}`,
+            expires_in: 3600,
+            token_type: 'Bearer',
+        }),
+    };
+}
+
+function createEncryptedClient(secrets: string | string[]) {
+    return createClient({
+        baseURL: 'https://api.example.com',
+        auth: {
+            login: '/auth/login',
+            refresh: '/auth/refresh',
+            storage: { encryption: { secrets } },
+        },
+    });
+}
+
+describe('encrypted cookie storage', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('seals the token record into one cookie without exposing the tokens', async () => {
+        global.fetch = vi.fn().mockResolvedValue(loginResponse('at-secret'));
+        const client = createEncryptedClient(NEW_SECRET);
+        const ctx = createCookieContext({ access_token: 'stale-plain-token' });
+
+        const session = await runWithContext(ctx as any, async () => {
+            await client.login({ username: 'user', password: 'pass' });
+            return client.getSession();
+        });
+
+        expect([...ctx.jar.keys()]).toEqual(['tokenkit']);
+        expect(ctx.jar.get('tokenkit')).toMatch(/^v1\./);
+        expect(ctx.jar.get('tokenkit')).not.toContain('at-secret');
+        expect(ctx.cookies.set).toHaveBeenCalledWith('tokenkit', expect.any(String), expect.objectContaining({ httpOnly: true, path: '/' }));
+        expect(session).toMatchObject({ accessToken: 'at-secret', tokenType: 'Bearer' });
+    });
+
+    it('reads cookies sealed with an older secret and re-seals with the newest one', async () => {
+        global.fetch = vi.fn()
+            .mockResolvedValueOnce(loginResponse('at-1'))
+            .mockResolvedValueOnce(loginResponse('at-2'));
+        const ctx = createCookieContext();
+
+        await runWithContext(ctx as any, () => createEncryptedClient(OLD_SECRET).login({ username: 'user', password: 'pass' }));
+        const sealedWithOld = ctx.jar.get('tokenkit');
+
+        const rotated = createEncryptedClient([NEW_SECRET, OLD_SECRET]);
+        const session = await runWithContext(ctx as any, () => rotated.getSessionAsync());
+        expect(session?.accessToken).toBe('at-1');
+
+        await runWithContext(ctx as any, () => rotated.login({ username: 'user', password: 'pass' }));
+        const newOnly = createEncryptedClient(NEW_SECRET);
+        expect(await runWithContext(ctx as any, () => newOnly.getSessionAsync())).toMatchObject({ accessToken: 'at-2' });
+
+        ctx.jar.set('tokenkit', sealedWithOld!);
+        expect(await runWithContext(ctx as any, () => newOnly.getSessionAsync())).toBeNull();
+    });
+
+    it('treats tampered cookies as missing', async () => {
+        global.fetch = vi.fn().mockResolvedValue(loginResponse('at-1'));
+        const client = createEncryptedClient(NEW_SECRET);
+        const ctx = createCookieContext();
+
+        await runWithContext(ctx as any, () => client.login({ username: 'user', password: 'pass' }));
+
+        const sealed = ctx.jar.get('tokenkit')!;
+        const flipped = sealed.slice(0, -2) + (sealed.at(-2) === 'A' ? 'B' : 'A') + sealed.at(-1);
+        ctx.jar.set('tokenkit', flipped);
+
+        expect(runWithContext(ctx as any, () => client.isAuthenticated())).toBe(false);
+        expect(await runWithContext(ctx as any, () => client.getSessionAsync())).toBeNull();
+        expect(ctx.jar.has('tokenkit')).toBe(false);
+    });
+
+    it('rejects short secrets', async () => {
+        global.fetch = vi.fn().mockResolvedValue(loginResponse('at-1'));
+        const client = createEncryptedClient('too-short');
+        const ctx = createCookieContext();
+
+        await expect(runWithContext(ctx as any, () => client.login({ username: 'user', password: 'pass' })))
+            .rejects.toThrow('at least 32 characters');
+    });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import { autoDetectFields } from '../src/auth/detector';
+import { createJWT } from './helpers';
 
 describe('autoDetectFields with standard OAuth2 response', () => {
     it('should correctly detect fields from the user provided structure', () => {
@@ -104,3 +105,42 @@ describe('autoDetectFields with standard OAuth2 response', () => {
         );
     });
 });
+
+describe('autoDetectFields expiry fallbacks', () => {
+    it('derives expiry from the JWT exp claims when the body has none', () => {
+        const bundle = autoDetectFields({
+            access_token: createJWT({ sub: 'u-1', exp: 1769535075 }),
+            refresh_token: createJWT({ sub: 'u-1', exp: 1772127075 }),
+        });
+
+        expect(bundle.accessExpiresAt).toBe(1769535075);
+        expect(bundle.refreshExpiresAt).toBe(1772127075);
+    });
+
+    it('prefers body fields over the exp claim and leaves opaque refresh tokens alone', () => {
+        const bundle = autoDetectFields({
+            access_token: createJWT({ exp: 1769535075 }),
+            refresh_token: 'opaque-refresh',
+            expires_at: 1700000000,
+        });
+
+        expect(bundle.accessExpiresAt).toBe(1700000000);
+        expect(bundle).not.toHaveProperty('refreshExpiresAt');
+    });
+
+    it.each([
+        ['milliseconds', 1769535075123],
+        ['millisecond strings', '1769535075123'],
+        ['second strings', '1769535075'],
+        ['ISO-8601 strings', '2026-01-27T17:31:15.000Z'],
+    ])('accepts expires_at in %s', (_, expiresAt) => {
+        const bundle = autoDetectFields({ access_token: 'at', refresh_token: 'rt', expires_at: expiresAt });
+
+        expect(bundle.accessExpiresAt).toBe(1769535075);
+    });
+
+    it('still fails for opaque tokens without any expiry', () => {
+        expect(() => autoDetectFields({ access_token: 'opaque', refresh_token: 'rt', expires_at: 'soon' }))
+            .toThrow('Could not detect expiration field');
+    });
+});
@@ -0,0 +1,77 @@
+import { vi } from 'vitest';
+
+/**
+ * Context whose cookies live in `jar`
+ */
+export function createCookieContext(cookies: Record<string, string> = {}) {
+    const jar = new Map<string, string>(Object.entries(cookies));
+
+    return {
+        cookies: {
+            get: vi.fn((name: string) => jar.has(name) ? { value: jar.get(name) } : undefined),
+            set: vi.fn((name: string, value: string) => {
+                jar.set(name, value);
+            }),
+            delete: vi.fn((name: string) => {
+                jar.delete(name);
+            }),
+        },
+        jar,
+    };
+}
+
+/**
+ * Cookie context of a request to `path` on https://app.example.com (or to an absolute URL)
+ */
+export function createRequestContext(path = '/', init: RequestInit = {}, cookies: Record<string, string> = {}) {
+    const url = new URL(path, 'https://app.example.com');
+
+    return {
+        ...createCookieContext(cookies),
+        request: new Request(url, init),
+        url,
+    };
+}
+
+/**
+ * Cookie context with an Astro session whose values live in `store`
+ */
+export function createSessionContext(session: Record<string, any> = {}, cookies: Record<string, string> = {}) {
+    const store = new Map<string, any>(Object.entries(session));
+
+    return {
+        ...createCookieContext(cookies),
+        session: {
+            get: vi.fn(async (key: string) => store.get(key)),
+            set: vi.fn(async (key: string, value: any) => {
+                store.set(key, value);
+            }),
+            delete: vi.fn(async (key: string) => {
+                store.delete(key);
+            }),
+        },
+        store,
+    };
+}
+
+/**
+ * Fetch response with a JSON body
+ */
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+    return {
+        ok: status < 400,
+        status,
+        statusText: status < 400 ? 'OK' : 'Error',
+        headers: new Headers({ 'content-type': 'application/json', ...headers }),
+        json: () => Promise.resolve(body),
+        text: () => Promise.resolve(JSON.stringify(body)),
+    };
+}
+
+/**
+ * Unsigned JWT carrying `payload`, for decoding only
+ */
+export function createJWT(payload: Record<string, any>) {
+    const encode = (value: Record<string, any>) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(payload)}.signature`;
+}
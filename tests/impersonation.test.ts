@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createClient, runWithContext } from '../src';
+import { createCookieContext, createSessionContext } from './helpers';
+
+function tokenResponse(body: Record<string, any>, status = 200) {
+    return {
+        ok: status < 400,
+        status,
+        statusText: status < 400 ? 'OK' : 'Forbidden',
+        json: () => Promise.resolve({ expires_in: 3600, ...body }),
+    };
+}
+
+function createTestClient(storage?: any, impersonation: Record<string, any> = {}) {
+    return createClient({
+        baseURL: 'https://api.example.com',
+        auth: {
+            login: '/auth/login',
+            refresh: '/auth/refresh',
+            storage,
+            impersonation: { endpoint: '/admin/impersonate', ...impersonation },
+        },
+    });
+}
+
+const adminLogin = { access_token: 'admin-at', refresh_token: 'admin-rt', token_type: 'Bearer', user: { id: 'admin' } };
+const targetTokens = { access_token: 'user-at', refresh_token: 'user-rt', user: { id: 'u-42' } };
+
+describe('impersonation', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it.each([
+        ['cookie', undefined, createCookieContext],
+        ['encrypted cookie', { encryption: { secrets: 'impersonation-secret-0123456789-0123' } }, createCookieContext],
+        ['session', { type: 'session' }, createSessionContext],
+    ])('switches to the target user and restores the admin in %s storage', async (_, storage, createContext) => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(tokenResponse(adminLogin))
+            .mockResolvedValueOnce(tokenResponse(targetTokens));
+        global.fetch = fetchMock;
+        const client = createTestClient(storage);
+        const ctx = createContext();
+
+        await runWithContext(ctx as any, () => client.login({ username: 'admin', password: 'pass' }));
+        const before = new Map(ctx.jar);
+        const beforeStore = 'store' in ctx ? new Map((ctx as any).store) : undefined;
+
+        const session = await runWithContext(ctx as any, () => client.impersonate('u-42', { data: { reason: 'support' } }));
+
+        expect(session).toMatchObject({ accessToken: 'user-at', impersonating: true, user: { id: 'u-42' } });
+        const [url, init] = fetchMock.mock.calls[1];
+        expect(url).toBe('https://api.example.com/admin/impersonate');
+        expect(init.headers.Authorization).toBe('Bearer admin-at');
+        expect(JSON.parse(init.body)).toEqual({ reason: 'support', user_id: 'u-42' });
+
+        // Later requests see the impersonated session
+        const active = await runWithContext(ctx as any, () => client.getSessionAsync());
+        expect(active).toMatchObject({ accessToken: 'user-at', impersonating: true });
+
+        const restored = await runWithContext(ctx as any, () => client.stopImpersonating());
+
+        expect(restored).toMatchObject({ accessToken: 'admin-at', tokenType: 'Bearer', user: { id: 'admin' } });
+        expect(restored?.impersonating).toBeUndefined();
+        if (beforeStore) {
+            expect(new Map((ctx as any).store)).toEqual(beforeStore);
+        } else if (!storage) {
+            expect(new Map(ctx.jar)).toEqual(before);
+        }
+        expect(await runWithContext(ctx as any, () => client.stopImpersonating())).toBeNull();
+    });
+
+    it('keeps rotating the impersonated tokens and leaves the stash untouched', async () => {
+        const nowSpy = vi.spyOn(Date, 'now');
+        const start = Date.now();
+        nowSpy.mockReturnValue(start);
+
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(tokenResponse(adminLogin))
+            .mockResolvedValueOnce(tokenResponse(targetTokens))
+            .mockResolvedValueOnce(tokenResponse({ access_token: 'user-at-2', refresh_token: 'user-rt-2' }));
+        global.fetch = fetchMock;
+        const client = createTestClient();
+        const ctx = createCookieContext();
+
+        try {
+            await runWithContext(ctx as any, async () => {
+                await client.login({ username: 'admin', password: 'pass' });
+                await client.impersonate('u-42');
+            });
+            const stash = ctx.jar.get('impersonator');
+
+            nowSpy.mockReturnValue(start + 10_000);
+            const refreshed = await runWithContext(ctx as any, () => client.refreshSessionAsync());
+
+            expect(refreshed).toMatchObject({ accessToken: 'user-at-2', impersonating: true });
+            expect(JSON.parse(fetchMock.mock.calls[2][1].body)).toMatchObject({ refreshToken: 'user-rt' });
+            expect(ctx.jar.get('impersonator')).toBe(stash);
+
+            const restored = await runWithContext(ctx as any, () => client.stopImpersonating());
+            expect(restored?.accessToken).toBe('admin-at');
+            expect(ctx.jar.get('refresh_token')).toBe('admin-rt');
+        } finally {
+            nowSpy.mockRestore();
+        }
+    });
+
+    it('notifies the stop endpoint with the impersonated token and restores on failure', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(tokenResponse(adminLogin))
+            .mockResolvedValueOnce(tokenResponse(targetTokens))
+            .mockRejectedValueOnce(new Error('network down'));
+        global.fetch = fetchMock;
+        const client = createTestClient(undefined, { stopEndpoint: '/admin/impersonate/stop', targetField: 'target' });
+        const ctx = createCookieContext();
+
+        const restored = await runWithContext(ctx as any, async () => {
+            await client.login({ username: 'admin', password: 'pass' });
+            await client.impersonate('u-42');
+            return client.stopImpersonating();
+        });
+
+        expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({ target: 'u-42' });
+        const [url, init] = fetchMock.mock.calls[2];
+        expect(url).toBe('https://api.example.com/admin/impersonate/stop');
+        expect(init.headers.Authorization).toBe('Bearer user-at');
+        expect(restored?.accessToken).toBe('admin-at');
+    });
+
+    it('stacks nested impersonation and clears the stash on logout', async () => {
+        global.fetch = vi.fn()
+            .mockResolvedValueOnce(tokenResponse(adminLogin))
+            .mockResolvedValueOnce(tokenResponse(targetTokens))
+            .mockResolvedValueOnce(tokenResponse({ access_token: 'other-at', refresh_token: 'other-rt' }))
+            .mockResolvedValueOnce(tokenResponse(targetTokens))
+            .mockResolvedValue(tokenResponse({}));
+        const client = createTestClient();
+        const ctx = createCookieContext();
+
+        await runWithContext(ctx as any, async () => {
+            await client.login({ username: 'admin', password: 'pass' });
+            await client.impersonate('u-42');
+            await client.impersonate('u-7');
+
+            expect((await client.stopImpersonating())).toMatchObject({ accessToken: 'user-at', impersonating: true });
+            expect((await client.stopImpersonating())?.impersonating).toBeUndefined();
+
+            await client.impersonate('u-42');
+            await client.logout();
+        });
+
+        expect(ctx.jar.size).toBe(0);
+    });
+
+    it.each([
+        ['cookie', undefined, createCookieContext],
+        ['session', { type: 'session' }, createSessionContext],
+    ])('keeps the stashed admin session in %s storage only until its refresh token expires', async (_, storage, createContext) => {
+        const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(Date.now());
+        const payload = Buffer.from(JSON.stringify({ exp: Math.floor(Date.now() / 1000) + 600 })).toString('base64url');
+        global.fetch = vi.fn()
+            .mockResolvedValueOnce(tokenResponse({ ...adminLogin, refresh_token: `e30.${payload}.sig` }))
+            .mockResolvedValueOnce(tokenResponse(targetTokens));
+        const client = createTestClient(storage);
+        const ctx = createContext();
+
+        try {
+            await runWithContext(ctx as any, async () => {
+                await client.login({ username: 'admin', password: 'pass' });
+                await client.impersonate('u-42');
+                await client.stopImpersonating();
+            });
+        } finally {
+            nowSpy.mockRestore();
+        }
+
+        // Admin login, admin stash, impersonated session (opaque refresh token), restored admin
+        const lifetimes = 'store' in ctx
+            ? (ctx as any).session.set.mock.calls.map(([, , options]: any[]) => options.ttl)
+            : ctx.cookies.set.mock.calls
+                .filter(([name]: any[]) => name === 'impersonator' || name === 'refresh_token')
+                .map(([, , options]: any[]) => options.maxAge);
+        expect(lifetimes).toEqual([600, 600, 7 * 24 * 60 * 60, 600]);
+    });
+
+    it('revokes the stashed admin tokens on logout', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(tokenResponse(adminLogin))
+            .mockResolvedValueOnce(tokenResponse(targetTokens))
+            .mockResolvedValue(tokenResponse({}));
+        global.fetch = fetchMock;
+        const client = createClient({
+            baseURL: 'https://api.example.com',
+            auth: {
+                login: '/auth/login',
+                refresh: '/auth/refresh',
+                revoke: '/auth/revoke',
+                clientId: 'web-app',
+                impersonation: { endpoint: '/admin/impersonate' },
+            },
+        });
+        const ctx = createCookieContext();
+
+        await runWithContext(ctx as any, async () => {
+            await client.login({ username: 'admin', password: 'pass' });
+            await client.impersonate('u-42');
+            await client.logout();
+        });
+
+        const revoked = fetchMock.mock.calls
+            .filter(([url]) => url === 'https://api.example.com/auth/revoke')
+            .map(([, init]) => new URLSearchParams(init.body).get('token'));
+        expect(revoked).toEqual(['user-rt', 'user-at', 'admin-rt', 'admin-at']);
+        expect(ctx.jar.size).toBe(0);
+    });
+
+    it('rejects impersonation without a session or when the server refuses', async () => {
+        global.fetch = vi.fn()
+            .mockResolvedValueOnce(tokenResponse(adminLogin))
+            .mockResolvedValueOnce(tokenResponse({ error: 'forbidden' }, 403));
+        const client = createTestClient();
+        const ctx = createCookieContext();
+
+        await expect(runWithContext(createCookieContext() as any, () => client.impersonate('u-42')))
+            .rejects.toMatchObject({ status: 401 });
+
+        await runWithContext(ctx as any, () => client.login({ username: 'admin', password: 'pass' }));
+        await expect(runWithContext(ctx as any, () => client.impersonate('u-42')))
+            .rejects.toMatchObject({ status: 403 });
+
+        expect(ctx.jar.get('access_token')).toBe('admin-at');
+        expect(ctx.jar.has('impersonator')).toBe(false);
+    });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, expectTypeOf, vi, beforeEach } from 'vitest';
+import { createClient, isLoginChallenge, runWithContext } from '../src';
+import type { APIResponse, LoginChallenge, LoginChallengeStore, PendingLoginChallenge, TokenBundle } from '../src';
+import { clearDefaultChallengeStore } from '../src/auth/challenge';
+import { createCookieContext } from './helpers';
+
+function response(body: any, status = 200) {
+    return {
+        ok: status < 400,
+        status,
+        statusText: status < 400 ? 'OK' : 'Unauthorized',
+        headers: new Headers(),
+        url: '',
+        json: () => Promise.resolve(body),
+    };
+}
+
+function createMfaClient(mfa: Record<string, any> = {}) {
+    return createClient({
+        baseURL: 'https://api.example.com',
+        auth: {
+            login: '/auth/login',
+            refresh: '/auth/refresh',
+            mfa: { verify: '/auth/mfa/verify', ...mfa },
+        },
+    });
+}
+
+const challengeBody = { mfa_required: true, challenge_id: 'ch-1', challenge_type: 'totp' };
+const tokenBody = { access_token: 'at-1', refresh_token: 'rt-1', expires_in: 3600 };
+
+describe('two-step login', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        clearDefaultChallengeStore();
+    });
+
+    it('returns a challenge and completes it at the verify endpoint', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(response(challengeBody))
+            .mockResolvedValueOnce(response(tokenBody));
+        global.fetch = fetchMock;
+        const onLogin = vi.fn();
+        const client = createMfaClient({ data: { client: 'web' } });
+        const ctx = createCookieContext();
+
+        const { data } = await runWithContext(ctx as any, () => client.login({ username: 'ada', password: 'pass' }));
+
+        expect(isLoginChallenge(data)).toBe(true);
+        if (!isLoginChallenge(data)) return;
+        expect(data).toMatchObject({ type: 'challenge', challengeId: 'ch-1', method: 'totp' });
+        expect(ctx.jar.has('access_token')).toBe(false);
+        expect(ctx.jar.has('login_challenge')).toBe(true);
+
+        const { data: bundle } = await runWithContext(ctx as any, () => client.completeLogin(data.challengeId, '123456', { onLogin }));
+
+        expect(bundle.accessToken).toBe('at-1');
+        expect(ctx.jar.get('access_token')).toBe('at-1');
+        expect(ctx.jar.has('login_challenge')).toBe(false);
+        expect(onLogin).toHaveBeenCalledWith(bundle, tokenBody, ctx);
+
+        const [url, init] = fetchMock.mock.calls[1];
+        expect(url).toBe('https://api.example.com/auth/mfa/verify');
+        expect(JSON.parse(init.body)).toEqual({ client: 'web', challenge_id: 'ch-1', code: '123456' });
+
+        // Completed challenges cannot be replayed
+        await expect(runWithContext(ctx as any, () => client.completeLogin('ch-1', '123456')))
+            .rejects.toThrow('Unknown or expired login challenge');
+    });
+
+    it('keeps the challenge pending after a rejected code', async () => {
+        global.fetch = vi.fn()
+            .mockResolvedValueOnce(response(challengeBody))
+            .mockResolvedValueOnce(response({ error: 'invalid_code' }, 401))
+            .mockResolvedValueOnce(response(tokenBody));
+        const onError = vi.fn();
+        const client = createMfaClient();
+        const ctx = createCookieContext();
+
+        await runWithContext(ctx as any, async () => {
+            await client.login({ username: 'ada', password: 'pass' });
+            await expect(client.completeLogin('ch-1', '000000', { onError })).rejects.toThrow('Login challenge verification failed: 401');
+            await client.completeLogin('ch-1', '123456');
+        });
+
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(ctx.jar.get('access_token')).toBe('at-1');
+    });
+
+    it('expires the challenge after too many rejected codes', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(response(challengeBody))
+            .mockResolvedValue(response({ error: 'invalid_code' }, 401));
+        global.fetch = fetchMock;
+        const client = createMfaClient({ maxAttempts: 3 });
+        const ctx = createCookieContext();
+
+        await runWithContext(ctx as any, async () => {
+            await client.login({ username: 'ada', password: 'pass' });
+            for (const code of ['000001', '000002']) {
+                await expect(client.completeLogin('ch-1', code)).rejects.toMatchObject({ status: 401 });
+                expect(ctx.jar.has('login_challenge')).toBe(true);
+            }
+            await expect(client.completeLogin('ch-1', '000003')).rejects.toMatchObject({ status: 401 });
+            expect(ctx.jar.has('login_challenge')).toBe(false);
+
+            // Even the right code can no longer complete the challenge
+            await expect(client.completeLogin('ch-1', '123456')).rejects.toThrow('Unknown or expired login challenge');
+        });
+
+        expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it.each([
+        ['the memory store', () => undefined],
+        ['an async store without increment()', () => {
+            const challenges = new Map<string, PendingLoginChallenge>();
+            const store: LoginChallengeStore = {
+                get: async (id) => challenges.get(id),
+                set: async (id, challenge) => {
+                    challenges.set(id, challenge);
+                },
+                delete: async (id) => {
+                    challenges.delete(id);
+                },
+            };
+            return store;
+        }],
+    ])('limits parallel verification attempts with %s', async (_, createStore) => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(response(challengeBody))
+            .mockResolvedValue(response({ error: 'invalid_code' }, 401));
+        global.fetch = fetchMock;
+        const client = createMfaClient({ maxAttempts: 3, store: createStore() });
+        const ctx = createCookieContext();
+
+        await runWithContext(ctx as any, async () => {
+            await client.login({ username: 'ada', password: 'pass' });
+            const codes = ['000001', '000002', '000003', '000004'];
+            await Promise.allSettled(codes.map((code) => client.completeLogin('ch-1', code)));
+        });
+
+        // One login request plus at most maxAttempts verification requests
+        expect(fetchMock.mock.calls.length).toBeLessThanOrEqual(4);
+    });
+
+    it('types challenges only for clients with mfa', () => {
+        const plain = createClient({ baseURL: 'https://api.example.com', auth: { login: '/auth/login', refresh: '/auth/refresh' } });
+
+        expectTypeOf(plain.login).returns.resolves.toEqualTypeOf<APIResponse<TokenBundle>>();
+        expectTypeOf(createMfaClient().login).returns.resolves.toEqualTypeOf<APIResponse<TokenBundle | LoginChallenge>>();
+        expectTypeOf(createClient<{ mfa: true }>().login).returns.resolves.toEqualTypeOf<APIResponse<TokenBundle | LoginChallenge>>();
+    });
+
+    it('binds the challenge to the browser that started it and expires it', async () => {
+        const nowSpy = vi.spyOn(Date, 'now');
+        const start = Date.now();
+        nowSpy.mockReturnValue(start);
+        global.fetch = vi.fn().mockResolvedValue(response(challengeBody));
+        const client = createMfaClient({ ttl: '1m' });
+        const ctx = createCookieContext();
+
+        try {
+            await runWithContext(ctx as any, () => client.login({ username: 'ada', password: 'pass' }));
+
+            const otherBrowser = createCookieContext();
+            await expect(runWithContext(otherBrowser as any, () => client.completeLogin('ch-1', '123456')))
+                .rejects.toThrow('Unknown or expired login challenge');
+
+            nowSpy.mockReturnValue(start + 61_000);
+            await expect(runWithContext(ctx as any, () => client.completeLogin('ch-1', '123456')))
+                .rejects.toMatchObject({ status: 400 });
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+        } finally {
+            nowSpy.mockRestore();
+        }
+    });
+
+    it('supports custom detection and field names', async () => {
+        global.fetch = vi.fn().mockResolvedValue(response({ status: 'step_up', ticket: 't-9' }));
+        const client = createMfaClient({
+            detect: (body: any) => body.status === 'step_up',
+            challengeIdField: 'ticket',
+        });
+        const ctx = createCookieContext();
+
+        const { data } = await runWithContext(ctx as any, () => client.login({ username: 'ada', password: 'pass' }));
+
+        expect(data).toMatchObject({ type: 'challenge', challengeId: 't-9' });
+    });
+});
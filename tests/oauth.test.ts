@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import { AuthError, createClient, runWithContext } from '../src';
+import { createRequestContext } from './helpers';
+
+function base64URL(input: Buffer): string {
+    return input.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+describe('OAuth authorization-code + PKCE flow', () => {
+    const client = createClient({
+        baseURL: 'https://api.example.com',
+        auth: {
+            login: '/oauth/token',
+            refresh: '/oauth/token',
+            oauth: {
+                authorize: 'https://id.example.com/authorize',
+                clientId: 'web-app',
+                scope: ['openid', 'offline_access'],
+                successRedirect: '/dashboard',
+            },
+        },
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('redirects to the authorize endpoint with a PKCE challenge and state', async () => {
+        const ctx = createRequestContext('https://app.example.com/login');
+
+        const response = await runWithContext(ctx as any, () => client.authorize({ returnTo: '/orders?page=2' }));
+
+        expect(response.status).toBe(302);
+        const location = new URL(response.headers.get('Location')!);
+        expect(location.origin + location.pathname).toBe('https://id.example.com/authorize');
+        expect(location.searchParams.get('response_type')).toBe('code');
+        expect(location.searchParams.get('client_id')).toBe('web-app');
+        expect(location.searchParams.get('redirect_uri')).toBe('https://app.example.com/api/auth/callback');
+        expect(location.searchParams.get('scope')).toBe('openid offline_access');
+        expect(location.searchParams.get('code_challenge_method')).toBe('S256');
+
+        const pending = JSON.parse(Buffer.from(ctx.jar.get('oauth_state')!, 'base64').toString('utf8'));
+        expect(location.searchParams.get('state')).toBe(pending.state);
+        expect(location.searchParams.get('code_challenge')).toBe(
+            base64URL(createHash('sha256').update(pending.codeVerifier).digest())
+        );
+        expect(pending.returnTo).toBe('/orders?page=2');
+    });
+
+    it('exchanges the code with the stored verifier and stores the tokens', async () => {
+        const ctx = createRequestContext('https://app.example.com/login');
+        const response = await runWithContext(ctx as any, () => client.authorize({ returnTo: '/orders' }));
+        const state = new URL(response.headers.get('Location')!).searchParams.get('state');
+        const pending = JSON.parse(Buffer.from(ctx.jar.get('oauth_state')!, 'base64').toString('utf8'));
+
+        const fetchMock = vi.fn().mockResolvedValue({
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            json: () => Promise.resolve({ access_token: 'at', refresh_token: 'rt', expires_in: 3600 }),
+        });
+        global.fetch = fetchMock;
+
+        const callbackCtx = {
+            ...ctx,
+            url: new URL(`https://app.example.com/api/auth/callback?code=abc&state=${state}`),
+        };
+        const result = await runWithContext(callbackCtx as any, () => client.handleCallback());
+
+        expect(result.returnTo).toBe('/orders');
+        expect(result.bundle.accessToken).toBe('at');
+
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('https://api.example.com/oauth/token');
+        const body = new URLSearchParams(init.body);
+        expect(body.get('grant_type')).toBe('authorization_code');
+        expect(body.get('code')).toBe('abc');
+        expect(body.get('code_verifier')).toBe(pending.codeVerifier);
+        expect(body.get('redirect_uri')).toBe('https://app.example.com/api/auth/callback');
+
+        expect(ctx.jar.get('access_token')).toBe('at');
+        expect(ctx.jar.get('refresh_token')).toBe('rt');
+        expect(ctx.jar.has('oauth_state')).toBe(false);
+    });
+
+    it('rejects callbacks with a mismatched state', async () => {
+        const ctx = createRequestContext('https://app.example.com/login');
+        await runWithContext(ctx as any, () => client.authorize());
+
+        const fetchMock = vi.fn();
+        global.fetch = fetchMock;
+
+        const callbackCtx = {
+            ...ctx,
+            url: new URL('https://app.example.com/api/auth/callback?code=abc&state=forged'),
+        };
+
+        await expect(runWithContext(callbackCtx as any, () => client.handleCallback())).rejects.toBeInstanceOf(AuthError);
+        expect(fetchMock).not.toHaveBeenCalled();
+        expect(ctx.jar.has('access_token')).toBe(false);
+    });
+
+    it('drops unsafe returnTo values', async () => {
+        const ctx = createRequestContext('https://app.example.com/login');
+        await runWithContext(ctx as any, () => client.authorize({ returnTo: '//evil.example.com' }));
+
+        const pending = JSON.parse(Buffer.from(ctx.jar.get('oauth_state')!, 'base64').toString('utf8'));
+        expect(pending.returnTo).toBe('/');
+    });
+
+    it('uses the refresh_token grant when refreshing OAuth tokens', async () => {
+        const now = Math.floor(Date.now() / 1000);
+        const ctx = createRequestContext('https://app.example.com/');
+        ctx.jar.set('access_token', 'old-at');
+        ctx.jar.set('refresh_token', 'old-rt');
+        ctx.jar.set('access_expires_at', String(now - 10));
+
+        const fetchMock = vi.fn().mockResolvedValue({
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            json: () => Promise.resolve({ access_token: 'new-at', refresh_token: 'new-rt', expires_in: 3600 }),
+        });
+        global.fetch = fetchMock;
+
+        await runWithContext(ctx as any, () => client.refreshSessionAsync());
+
+        const [, init] = fetchMock.mock.calls[0];
+        expect(init.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+        const body = new URLSearchParams(init.body);
+        expect(body.get('grant_type')).toBe('refresh_token');
+        expect(body.get('refresh_token')).toBe('old-rt');
+        expect(body.get('client_id')).toBe('web-app');
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createHash } from 'node:crypto';
+import { FileSystemRefreshLock, MemoryRefreshLock, createClient, runWithContext } from '../src';
+import type { RefreshLockProvider } from '../src';
+import { createCookieContext } from './helpers';
+
+function expiredSession() {
+    return createCookieContext({
+        access_token: 'old-at',
+        refresh_token: 'rt-1',
+        access_expires_at: String(Math.floor(Date.now() / 1000) - 10),
+    });
+}
+
+// Separate clients have separate TokenManagers, like separate SSR instances
+function createInstance(provider: RefreshLockProvider, waitTimeout?: number) {
+    return createClient({
+        baseURL: 'https://api.example.com',
+        auth: {
+            login: '/login',
+            refresh: '/refresh',
+            refreshLock: { provider, pollInterval: 10, waitTimeout },
+        },
+    });
+}
+
+describe('cross-process refresh lock', () => {
+    let directory: string;
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        directory = await mkdtemp(join(tmpdir(), 'tokenkit-lock-'));
+        let rotations = 0;
+        fetchMock = vi.fn(async () => {
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            rotations++;
+            return {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: () => Promise.resolve({ access_token: `at-${rotations + 1}`, refresh_token: `rt-${rotations + 1}`, expires_in: 3600 }),
+            };
+        });
+        global.fetch = fetchMock as any;
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('rotates a refresh token once and hands the result to waiting instances', async () => {
+        const lock = new FileSystemRefreshLock({ directory });
+        const first = createInstance(lock);
+        const second = createInstance(new FileSystemRefreshLock({ directory }));
+        const firstCtx = expiredSession();
+        const secondCtx = expiredSession();
+
+        const [a, b] = await Promise.all([
+            runWithContext(firstCtx as any, () => first.refreshSessionAsync()),
+            runWithContext(secondCtx as any, () => second.refreshSessionAsync()),
+        ]);
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(a?.accessToken).toBe('at-2');
+        expect(b?.accessToken).toBe('at-2');
+        expect(firstCtx.jar.get('refresh_token')).toBe('rt-2');
+        expect(secondCtx.jar.get('refresh_token')).toBe('rt-2');
+    });
+
+    it('keeps lock files private and named by hash', async () => {
+        const client = createInstance(new FileSystemRefreshLock({ directory }));
+        await runWithContext(expiredSession() as any, () => client.refreshSessionAsync());
+
+        const files = await readdir(directory);
+        expect(files).toHaveLength(1);
+        expect(files[0]).toMatch(/^[0-9a-f]{64}\.result$/);
+        expect(files.join()).not.toContain('rt-1');
+        expect((await stat(join(directory, files[0]))).mode & 0o777).toBe(0o600);
+    });
+
+    it('never takes over a lock it cannot parse', async () => {
+        const path = join(directory, `${createHash('sha256').update('key').digest('hex')}.lock`);
+        await writeFile(path, '');
+
+        expect(await new FileSystemRefreshLock({ directory }).acquire('key', 1000)).toBe(false);
+        expect(await readFile(path, 'utf8')).toBe('');
+    });
+
+    it('hands an expired lock to exactly one contender', async () => {
+        const path = join(directory, `${createHash('sha256').update('key').digest('hex')}.lock`);
+
+        for (let round = 0; round < 20; round++) {
+            await writeFile(path, JSON.stringify({ owner: 'crashed', expiresAt: Date.now() - 1000 }));
+            const contenders = Array.from({ length: 5 }, () => new FileSystemRefreshLock({ directory }));
+
+            const acquired = await Promise.all(contenders.map((lock) => lock.acquire('key', 60_000)));
+
+            expect(acquired.filter(Boolean)).toHaveLength(1);
+            await contenders[acquired.indexOf(true)].release('key');
+        }
+        expect(await readdir(directory)).toEqual([]);
+    });
+
+    it('fails without refreshing when the holder does not finish in time', async () => {
+        const lock = new MemoryRefreshLock();
+        const key = createHash('sha256').update('rt-1').digest('base64url');
+        lock.acquire(key, 60_000);
+
+        const ctx = expiredSession();
+        const client = createInstance(lock, 1);
+
+        await expect(runWithContext(ctx as any, () => client.refreshSessionAsync()))
+            .rejects.toThrow('Timed out waiting for a refresh in another process');
+        expect(fetchMock).not.toHaveBeenCalled();
+        expect(ctx.jar.get('refresh_token')).toBe('rt-1');
+    });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthError, MemoryRefreshTokenFamilyStore, createClient, runWithContext } from '../src';
+import { createCookieContext } from './helpers';
+
+function tokenResponse(refreshToken: string) {
+    return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        json: () => Promise.resolve({ access_token: `at-for-${refreshToken}`, refresh_token: refreshToken, expires_in: 3600 }),
+    };
+}
+
+describe('refresh token reuse detection', () => {
+    let store: MemoryRefreshTokenFamilyStore;
+    let onRefreshTokenReuse: ReturnType<typeof vi.fn>;
+    let now: number;
+
+    const createReuseClient = (gracePeriod?: string) => createClient({
+        baseURL: 'https://api.example.com',
+        auth: {
+            login: '/login',
+            refresh: '/refresh',
+            reuseDetection: { store, gracePeriod },
+            onRefreshTokenReuse,
+        },
+    });
+
+    // Move past the single-flight grace period between refreshes
+    const advance = (seconds: number) => {
+        now += seconds * 1000;
+    };
+
+    const expire = (ctx: ReturnType<typeof createCookieContext>) => {
+        ctx.jar.set('access_expires_at', String(Math.floor(now / 1000) - 10));
+        return ctx;
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        store = new MemoryRefreshTokenFamilyStore();
+        onRefreshTokenReuse = vi.fn();
+        now = Date.now();
+        vi.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('revokes the family when a superseded refresh token is replayed', async () => {
+        const client = createReuseClient();
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(tokenResponse('rt-1'))
+            .mockResolvedValueOnce(tokenResponse('rt-2'));
+        global.fetch = fetchMock;
+
+        const victim = createCookieContext();
+        await runWithContext(victim as any, () => client.login({ username: 'ada' }));
+        const stolen = { ...Object.fromEntries(victim.jar) };
+
+        advance(10);
+        await runWithContext(expire(victim) as any, () => client.refreshSessionAsync());
+        expect(victim.jar.get('refresh_token')).toBe('rt-2');
+
+        advance(10);
+        const attacker = expire(createCookieContext(stolen));
+        const session = await runWithContext(attacker as any, () => client.refreshSessionAsync());
+
+        expect(session).toBeNull();
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(attacker.jar.has('refresh_token')).toBe(false);
+        expect(onRefreshTokenReuse).toHaveBeenCalledWith(
+            expect.any(AuthError),
+            attacker,
+            { familyId: expect.any(String) }
+        );
+
+        // The legitimate session belongs to the revoked family as well
+        advance(10);
+        await runWithContext(expire(victim) as any, () => client.refreshSessionAsync());
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(victim.jar.has('refresh_token')).toBe(false);
+        expect(onRefreshTokenReuse).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not flag auth servers that keep the same refresh token', async () => {
+        const client = createReuseClient();
+        global.fetch = vi.fn().mockResolvedValue(tokenResponse('rt-static'));
+
+        const ctx = createCookieContext();
+        await runWithContext(ctx as any, () => client.login({ username: 'ada' }));
+
+        for (let i = 0; i < 2; i++) {
+            advance(10);
+            await runWithContext(expire(ctx) as any, () => client.refreshSessionAsync());
+        }
+
+        expect(global.fetch).toHaveBeenCalledTimes(3);
+        expect(ctx.jar.get('refresh_token')).toBe('rt-static');
+        expect(onRefreshTokenReuse).not.toHaveBeenCalled();
+    });
+
+    it('accepts the old token from a concurrent request by default', async () => {
+        const client = createReuseClient();
+        let issued = 0;
+        const fetchMock = vi.fn(async (url: string) => url.endsWith('/me')
+            ? new Response(JSON.stringify({ id: 'u-1' }), { headers: { 'Content-Type': 'application/json' } })
+            : tokenResponse(`rt-${++issued}`));
+        global.fetch = fetchMock as any;
+
+        const ctx = createCookieContext();
+        await runWithContext(ctx as any, () => client.login({ username: 'ada' }));
+        const previous = { ...Object.fromEntries(ctx.jar) };
+
+        // Both requests carry the old cookie; the second is handled just after the first rotated it
+        advance(10);
+        const first = expire(createCookieContext(previous));
+        const second = expire(createCookieContext(previous));
+        const firstRequest = runWithContext(first as any, () => client.get('/me', { headers: { 'X-Request-Id': 'a' } }));
+        const results = await Promise.all([
+            firstRequest,
+            firstRequest.then(() => {
+                advance(2);
+                return runWithContext(second as any, () => client.get('/me', { headers: { 'X-Request-Id': 'b' } }));
+            }),
+        ]);
+
+        expect(results.map((result) => result.status)).toEqual([200, 200]);
+        expect(first.jar.get('refresh_token')).toBe('rt-2');
+        expect(second.jar.get('refresh_token')).toBe('rt-3');
+        expect(onRefreshTokenReuse).not.toHaveBeenCalled();
+    });
+
+    it('accepts superseded tokens within the grace period', async () => {
+        const client = createReuseClient('30s');
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(tokenResponse('rt-1'))
+            .mockResolvedValueOnce(tokenResponse('rt-2'))
+            .mockResolvedValueOnce(tokenResponse('rt-3'));
+        global.fetch = fetchMock;
+
+        const ctx = createCookieContext();
+        await runWithContext(ctx as any, () => client.login({ username: 'ada' }));
+        const previous = { ...Object.fromEntries(ctx.jar) };
+
+        advance(10);
+        await runWithContext(expire(ctx) as any, () => client.refreshSessionAsync());
+
+        advance(10);
+        const concurrent = expire(createCookieContext(previous));
+        await runWithContext(concurrent as any, () => client.refreshSessionAsync());
+
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+        expect(onRefreshTokenReuse).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMiddleware, setConfig } from '../src';
+import type { RouteProtectionConfig } from '../src';
+import { createRequestContext } from './helpers';
+
+function createContext(path: string, cookies: Record<string, string> = {}) {
+    return createRequestContext(path, {}, cookies);
+}
+
+function validSession() {
+    return {
+        access_token: 'at-1',
+        refresh_token: 'rt-1',
+        access_expires_at: String(Math.floor(Date.now() / 1000) + 3600),
+    };
+}
+
+function configure(protect: RouteProtectionConfig) {
+    setConfig({
+        baseURL: 'https://api.example.com',
+        auth: {
+            login: '/auth/login',
+            refresh: '/auth/refresh',
+        },
+        getContextStore: undefined,
+        setContextStore: undefined,
+        runWithContext: undefined,
+        protect,
+    });
+}
+
+async function run(ctx: ReturnType<typeof createContext>) {
+    const next = vi.fn().mockResolvedValue(new Response('page'));
+    const response = await createMiddleware()(ctx as any, next);
+    return { response: response as Response, next };
+}
+
+describe('middleware route protection', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('redirects unauthenticated page requests to the login page with returnTo', async () => {
+        configure({ include: ['/account/**'] });
+
+        const { response, next } = await run(createContext('/account/orders?page=2'));
+
+        expect(next).not.toHaveBeenCalled();
+        expect(response.status).toBe(302);
+        expect(response.headers.get('Location')).toBe('/login?returnTo=%2Faccount%2Forders%3Fpage%3D2');
+    });
+
+    it('lets authenticated and unprotected requests through', async () => {
+        configure({ include: ['/account/**'] });
+
+        expect((await run(createContext('/account', validSession()))).next).toHaveBeenCalled();
+        expect((await run(createContext('/pricing'))).next).toHaveBeenCalled();
+    });
+
+    it('answers API routes with a JSON 401', async () => {
+        configure({ include: ['/**'], exclude: ['/', '/public/*'] });
+
+        const { response, next } = await run(createContext('/api/orders'));
+
+        expect(next).not.toHaveBeenCalled();
+        expect(response.status).toBe(401);
+        expect(response.headers.get('Content-Type')).toBe('application/json');
+        expect(await response.json()).toEqual({ error: 'unauthorized', message: 'Authentication required' });
+
+        expect((await run(createContext('/'))).next).toHaveBeenCalled();
+        expect((await run(createContext('/public/terms'))).next).toHaveBeenCalled();
+        expect((await run(createContext('/public/docs/a'))).response.status).toBe(302);
+    });
+
+    it('never protects the login page and supports custom redirect settings', async () => {
+        configure({ loginRedirect: '/signin?source=guard', returnToParam: 'next' });
+
+        expect((await run(createContext('/signin'))).next).toHaveBeenCalled();
+
+        const { response } = await run(createContext('/dashboard'));
+        expect(response.headers.get('Location')).toBe('/signin?source=guard&next=%2Fdashboard');
+    });
+
+    it('counts a session refreshed by the middleware as authenticated', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            json: () => Promise.resolve({ access_token: 'at-2', refresh_token: 'rt-2', expires_in: 3600 }),
+        });
+        global.fetch = fetchMock;
+        configure({ include: ['/account/**'] });
+
+        const ctx = createContext('/account', {
+            access_token: 'at-1',
+            refresh_token: 'rt-1',
+            access_expires_at: String(Math.floor(Date.now() / 1000) - 10),
+        });
+        const { next } = await run(ctx);
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(ctx.jar.get('access_token')).toBe('at-2');
+        expect(next).toHaveBeenCalled();
+    });
+
+    it('blocks protected routes after an idle logout', async () => {
+        configure({ include: ['/account/**'] });
+
+        const ctx = createContext('/account', { ...validSession(), _tk_idle_logout: '1' });
+        const { response, next } = await run(ctx);
+
+        expect(next).not.toHaveBeenCalled();
+        expect(response.status).toBe(302);
+        expect(ctx.jar.has('access_token')).toBe(false);
+    });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, expectTypeOf, vi, beforeEach } from 'vitest';
+import { createClient, runWithContext } from '../src';
+import type { Session, TokenBundle } from '../src';
+import { createCookieContext, createSessionContext } from './helpers';
+
+interface User {
+    id: string;
+    name: string;
+}
+
+interface Claims {
+    sub: string;
+    roles: string[];
+}
+
+interface LoginResponse {
+    token: string;
+    refresh: string;
+    profile: User;
+}
+
+function tokenResponse(body: Record<string, any>) {
+    return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        json: () => Promise.resolve({ expires_in: 3600, ...body }),
+    };
+}
+
+function createTestClient(storage?: any) {
+    return createClient({
+        baseURL: 'https://api.example.com',
+        auth: {
+            login: '/auth/login',
+            refresh: '/auth/refresh',
+            storage,
+        },
+    });
+}
+
+describe('persisted session payload', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it.each([
+        ['cookie', undefined, createCookieContext],
+        ['encrypted cookie', { encryption: { secrets: 'payload-secret-0123456789-0123456789' } }, createCookieContext],
+        ['session', { type: 'session' }, createSessionContext],
+    ])('keeps the login payload in %s storage', async (_, storage, createContext) => {
+        global.fetch = vi.fn().mockResolvedValue(tokenResponse({
+            access_token: 'opaque-at',
+            refresh_token: 'rt-1',
+            user: { id: 'u-1', name: 'Ada' },
+        }));
+        const client = createTestClient(storage);
+        const ctx = createContext();
+
+        await runWithContext(ctx as any, () => client.login({ username: 'ada', password: 'pass' }));
+
+        // A later request only sees what was persisted
+        const user = await runWithContext(ctx as any, () => client.getUser<User>());
+        const session = await runWithContext(ctx as any, () => client.getSessionAsync());
+
+        expect(user).toEqual({ id: 'u-1', name: 'Ada' });
+        expect(user?.name).toBe('Ada');
+        expect(session?.user).toEqual({ id: 'u-1', name: 'Ada' });
+        // Opaque tokens have no claims to decode
+        expect(session?.payload).toBeUndefined();
+    });
+
+    it('keeps the login payload apart from the token claims', async () => {
+        const claims = { sub: 'u-1', roles: ['admin'], exp: Math.floor(Date.now() / 1000) + 3600 };
+        global.fetch = vi.fn().mockResolvedValue(tokenResponse({
+            access_token: `${Buffer.from('{"alg":"none"}').toString('base64url')}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.sig`,
+            refresh_token: 'rt-1',
+            user: { id: 'u-1', name: 'Ada' },
+        }));
+        const client = createTestClient({});
+        const ctx = createCookieContext();
+
+        await runWithContext(ctx as any, () => client.login({ username: 'ada', password: 'pass' }));
+        const session = await runWithContext(ctx as any, () => client.getSessionAsync());
+
+        expect(session?.user).toEqual({ id: 'u-1', name: 'Ada' });
+        expect(session?.payload).toEqual(claims);
+    });
+
+    it('keeps the payload across refreshes unless the refresh returns a new one', async () => {
+        const nowSpy = vi.spyOn(Date, 'now');
+        const start = Date.now();
+        nowSpy.mockReturnValue(start);
+
+        global.fetch = vi.fn()
+            .mockResolvedValueOnce(tokenResponse({ access_token: 'at-1', refresh_token: 'rt-1', user: { id: 'u-1', name: 'Ada' } }))
+            .mockResolvedValueOnce(tokenResponse({ access_token: 'at-2', refresh_token: 'rt-2' }))
+            .mockResolvedValueOnce(tokenResponse({ access_token: 'at-3', refresh_token: 'rt-3', user: { id: 'u-1', name: 'Ada Lovelace' } }));
+        const client = createTestClient();
+        const ctx = createCookieContext();
+
+        try {
+            await runWithContext(ctx as any, () => client.login({ username: 'ada', password: 'pass' }));
+
+            nowSpy.mockReturnValue(start + 10_000);
+            const refreshed = await runWithContext(ctx as any, () => client.refreshSessionAsync());
+            expect(refreshed?.accessToken).toBe('at-2');
+            expect(await runWithContext(ctx as any, () => client.getUser())).toEqual({ id: 'u-1', name: 'Ada' });
+
+            nowSpy.mockReturnValue(start + 20_000);
+            await runWithContext(ctx as any, () => client.refreshSessionAsync());
+            expect(await runWithContext(ctx as any, () => client.getUser())).toEqual({ id: 'u-1', name: 'Ada Lovelace' });
+        } finally {
+            nowSpy.mockRestore();
+        }
+    });
+
+    it('does not persist payloads above the size limit and drops stale payloads', async () => {
+        global.fetch = vi.fn()
+            .mockResolvedValueOnce(tokenResponse({ access_token: 'at-1', refresh_token: 'rt-1', user: { id: 'u-1' } }))
+            .mockResolvedValueOnce(tokenResponse({ access_token: 'at-2', refresh_token: 'rt-2', user: { id: 'u-2', bio: 'x'.repeat(200) } }));
+        const client = createTestClient({ maxPayloadSize: 100 });
+        const ctx = createCookieContext();
+
+        await runWithContext(ctx as any, () => client.login({ username: 'a', password: 'pass' }));
+        expect(ctx.jar.has('session_payload')).toBe(true);
+
+        await runWithContext(ctx as any, () => client.login({ username: 'b', password: 'pass' }));
+        expect(ctx.jar.has('session_payload')).toBe(false);
+        expect(await runWithContext(ctx as any, () => client.getUser())).toBeNull();
+
+        await runWithContext(ctx as any, () => client.logout());
+        expect(ctx.jar.size).toBe(0);
+    });
+
+    it('types sessions, users and login responses from the declared types', async () => {
+        global.fetch = vi.fn().mockResolvedValue(tokenResponse({
+            token: 'opaque-at',
+            refresh: 'rt-1',
+            profile: { id: 'u-1', name: 'Ada' },
+        }));
+        const client = createClient<{ user: User; claims: Claims; loginResponse: LoginResponse }>({
+            baseURL: 'https://api.example.com',
+            auth: {
+                login: '/auth/login',
+                refresh: '/auth/refresh',
+                parseLogin: (body) => {
+                    expectTypeOf(body).toEqualTypeOf<LoginResponse>();
+                    return {
+                        accessToken: body.token,
+                        refreshToken: body.refresh,
+                        accessExpiresAt: Math.floor(Date.now() / 1000) + 3600,
+                        sessionPayload: body.profile,
+                    };
+                },
+            },
+        });
+        const ctx = createCookieContext();
+        const onLogin = vi.fn((bundle: TokenBundle<User>, body: LoginResponse) => {
+            expectTypeOf(bundle.sessionPayload).toEqualTypeOf<User | undefined>();
+            expect(body.profile.name).toBe('Ada');
+        });
+
+        await runWithContext(ctx as any, () => client.login({ username: 'ada', password: 'pass' }, { onLogin }));
+
+        const user = await runWithContext(ctx as any, () => client.getUser());
+        const session = await runWithContext(ctx as any, () => client.getSessionAsync());
+
+        expectTypeOf(user).toEqualTypeOf<User | null>();
+        expectTypeOf(session).toEqualTypeOf<Session<Claims, User> | null>();
+        expectTypeOf(session!.payload).toEqualTypeOf<Claims | undefined>();
+        expectTypeOf(session!.user).toEqualTypeOf<User | undefined>();
+        expect(onLogin).toHaveBeenCalledTimes(1);
+        expect(user?.name).toBe('Ada');
+    });
+});
@@ -1,27 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { AuthError, createClient, runWithContext } from '../src';
-
-function createSessionContext(initial: Record<string, any> = {}) {
-    const store = new Map(Object.entries(initial));
-
-    return {
-        cookies: {
-            get: vi.fn(),
-            set: vi.fn(),
-            delete: vi.fn(),
-        },
-        session: {
-            get: vi.fn(async (key: string) => store.get(key)),
-            set: vi.fn((key: string, value: any) => {
-                store.set(key, value);
-            }),
-            delete: vi.fn((key: string) => {
-                store.delete(key);
-            }),
-        },
-        store,
-    };
-}
+import { createSessionContext } from './helpers';
 
 function createDestroyableSessionContext(initial: Record<string, any> = {}) {
     const ctx = createSessionContext(initial);
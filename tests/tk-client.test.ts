@@ -1,4 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { tokenKit } from '../src';
+import { serverConfigPlugin } from '../src/integration';
 
 const idleManagerMock = vi.hoisted(() => vi.fn());
 
@@ -25,20 +27,15 @@ describe('client init idle logout', () => {
 
     afterEach(() => {
         vi.restoreAllMocks();
-        delete (globalThis as any).__TOKENKIT_CONFIG__;
+        delete (globalThis as any).__TOKENKIT_CLIENT_CONFIG__;
         delete (globalThis as any).window;
         delete (globalThis as any).document;
         delete (globalThis as any).fetch;
     });
 
     it('marks idle logout and reloads even when no auth logout endpoint is configured', async () => {
-        (globalThis as any).__TOKENKIT_CONFIG__ = {
-            baseURL: 'https://api.example.com',
-            auth: {
-                login: '/login',
-                refresh: '/refresh',
-                storage: { type: 'session' },
-            },
+        (globalThis as any).__TOKENKIT_CLIENT_CONFIG__ = {
+            hasAuth: true,
             idle: {
                 timeout: 60,
             },
@@ -63,11 +60,8 @@ describe('client init idle logout', () => {
             expect(document.cookie).toContain('_tk_idle_logout=1');
         });
 
-        (globalThis as any).__TOKENKIT_CONFIG__ = {
-            auth: {
-                login: '/login',
-                refresh: '/refresh',
-            },
+        (globalThis as any).__TOKENKIT_CLIENT_CONFIG__ = {
+            hasAuth: true,
             idle: {
                 timeout: 60,
                 onIdle: idleHandler,
@@ -90,11 +84,8 @@ describe('client init idle logout', () => {
             .mockReturnValueOnce(110_000)
             .mockReturnValueOnce(161_000);
 
-        (globalThis as any).__TOKENKIT_CONFIG__ = {
-            auth: {
-                login: '/login',
-                refresh: '/refresh',
-            },
+        (globalThis as any).__TOKENKIT_CLIENT_CONFIG__ = {
+            hasAuth: true,
             idle: {
                 timeout: 300,
                 keepAlive: true,
@@ -123,11 +114,8 @@ describe('client init idle logout', () => {
     });
 
     it('does not touch Astro middleware on activity unless keepalive is enabled', async () => {
-        (globalThis as any).__TOKENKIT_CONFIG__ = {
-            auth: {
-                login: '/login',
-                refresh: '/refresh',
-            },
+        (globalThis as any).__TOKENKIT_CLIENT_CONFIG__ = {
+            hasAuth: true,
             idle: {
                 timeout: 300,
             },
@@ -140,3 +128,53 @@ describe('client init idle logout', () => {
         expect(fetch).not.toHaveBeenCalled();
     });
 });
+
+describe('integration config injection', () => {
+    it('only defines browser-safe settings for the client script', () => {
+        const updateConfig = vi.fn();
+        const integration = tokenKit({
+            baseURL: 'https://api.example.com',
+            auth: {
+                login: '/auth/login',
+                refresh: '/auth/refresh',
+                logout: '/auth/logout',
+                oauth: { authorizeURL: '/authorize', clientId: 'web', clientSecret: 'oauth-secret' } as any,
+                storage: { encryption: { secrets: 'sealed-cookie-secret-0123456789-0123' } },
+                exchange: { clientSecret: 'exchange-secret' } as any,
+                revoke: { clientSecret: 'revoke-secret' } as any,
+                introspect: { clientSecret: 'introspect-secret' } as any,
+            },
+            idle: { timeout: 300, keepAlive: true },
+        });
+
+        (integration.hooks['astro:config:setup'] as any)({
+            updateConfig,
+            addMiddleware: vi.fn(),
+            injectScript: vi.fn(),
+            injectRoute: vi.fn(),
+        });
+
+        const { define, plugins } = updateConfig.mock.calls[0][0].vite;
+        expect(Object.keys(define)).toEqual(['__TOKENKIT_CLIENT_CONFIG__']);
+        expect(JSON.parse(define.__TOKENKIT_CLIENT_CONFIG__)).toEqual({
+            idle: { timeout: 300, keepAlive: true },
+            hasAuth: true,
+            logout: 'https://api.example.com/auth/logout',
+        });
+        expect(JSON.stringify(define)).not.toMatch(/secret/i);
+
+        // The full config is only inlined into server modules
+        const [plugin] = plugins;
+        const code = 'const config = typeof __TOKENKIT_CONFIG__ !== "undefined" ? __TOKENKIT_CONFIG__ : undefined;';
+        expect(plugin.transform(code, 'config.js', { ssr: false })).toBeNull();
+        expect(plugin.transform(code, 'config.js', { ssr: true }).code).toContain('exchange-secret');
+    });
+
+    it('injects the server config without touching other identifiers', () => {
+        const plugin = serverConfigPlugin({ baseURL: 'https://api.example.com' });
+
+        expect(plugin.transform('f(__TOKENKIT_CONFIG__, __TOKENKIT_CONFIG__X)', 'a.js', { ssr: true })!.code)
+            .toBe('f(({"baseURL":"https://api.example.com"}), __TOKENKIT_CONFIG__X)');
+        expect(plugin.transform('f()', 'a.js', { ssr: true })).toBeNull();
+    });
+});
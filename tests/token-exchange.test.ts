@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AuthError, createClient, runWithContext } from '../src';
+import { createCookieContext, jsonResponse } from './helpers';
+
+function sessionCookies(accessToken: string) {
+    return {
+        access_token: accessToken,
+        refresh_token: 'rt',
+        access_expires_at: String(Math.floor(Date.now() / 1000) + 3600),
+    };
+}
+
+describe('RFC 8693 token exchange', () => {
+    const client = createClient({
+        baseURL: 'https://bff.example.com',
+        auth: {
+            login: '/oauth/token',
+            refresh: '/oauth/token',
+            clientId: 'bff',
+            exchange: {
+                scopes: { 'billing-api': ['invoices:read'] },
+            },
+        },
+    });
+
+    let fetchMock: ReturnType<typeof vi.fn>;
+    let issued: number;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        issued = 0;
+        fetchMock = vi.fn(async (url: string, init: any) => {
+            if (url.endsWith('/oauth/token')) {
+                const body = new URLSearchParams(init.body);
+                return jsonResponse({
+                    access_token: `${body.get('audience')}-token-${++issued}`,
+                    issued_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+                    token_type: 'Bearer',
+                    expires_in: 3600,
+                });
+            }
+            return jsonResponse({ ok: true });
+        });
+        global.fetch = fetchMock as any;
+    });
+
+    const exchangeCalls = () => fetchMock.mock.calls.filter(([url]) => url.endsWith('/oauth/token')) as any[];
+    const apiCalls = () => fetchMock.mock.calls.filter(([url]) => !url.endsWith('/oauth/token')) as any[];
+
+    it('injects an exchanged token for requests with an audience', async () => {
+        const ctx = createCookieContext(sessionCookies('user-at-1'));
+
+        await runWithContext(ctx as any, async () => {
+            await client.get('/invoices', { audience: 'billing-api' });
+            await client.get('/invoices', { audience: 'billing-api' });
+            await client.get('/me');
+        });
+
+        expect(exchangeCalls()).toHaveLength(1);
+        const body = new URLSearchParams(exchangeCalls()[0][1].body);
+        expect(body.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:token-exchange');
+        expect(body.get('subject_token')).toBe('user-at-1');
+        expect(body.get('subject_token_type')).toBe('urn:ietf:params:oauth:token-type:access_token');
+        expect(body.get('audience')).toBe('billing-api');
+        expect(body.get('scope')).toBe('invoices:read');
+        expect(body.get('client_id')).toBe('bff');
+
+        const calls = apiCalls();
+        expect(calls[0][1].headers.Authorization).toBe('Bearer billing-api-token-1');
+        expect(calls[1][1].headers.Authorization).toBe('Bearer billing-api-token-1');
+        expect(calls[2][1].headers.Authorization).toBe('Bearer user-at-1');
+    });
+
+    it('caches exchanged tokens per session and audience', async () => {
+        await runWithContext(createCookieContext(sessionCookies('user-at-2')) as any, async () => {
+            const billing = await client.exchange({ audience: 'billing-api' });
+            const orders = await client.exchange({ audience: 'orders-api' });
+            expect(billing.accessToken).not.toBe(orders.accessToken);
+            expect(orders.audience).toBe('orders-api');
+        });
+
+        await runWithContext(createCookieContext(sessionCookies('user-at-3')) as any, async () => {
+            await client.exchange({ audience: 'billing-api' });
+        });
+
+        expect(exchangeCalls().map(([, init]) => new URLSearchParams(init.body).get('subject_token')))
+            .toEqual(['user-at-2', 'user-at-2', 'user-at-3']);
+    });
+
+    it('renews exchanged tokens under the refresh policy', async () => {
+        fetchMock.mockImplementation(async (url: string) => url.endsWith('/oauth/token')
+            // Inside the default 5 minute refreshBefore window
+            ? jsonResponse({ access_token: `orders-token-${++issued}`, expires_in: 200 })
+            : jsonResponse({ ok: true }));
+
+        const ctx = createCookieContext(sessionCookies('user-at-4'));
+        const first = await runWithContext(ctx as any, () => client.exchange({ audience: 'orders-api' }));
+
+        // Step past the default 30 second minInterval
+        const now = Date.now();
+        const spy = vi.spyOn(Date, 'now').mockReturnValue(now + 40_000);
+        try {
+            const second = await runWithContext(ctx as any, () => client.exchange({ audience: 'orders-api' }));
+            expect(first.accessToken).toBe('orders-token-1');
+            expect(second.accessToken).toBe('orders-token-2');
+        } finally {
+            spy.mockRestore();
+        }
+    });
+
+    it('rejects exchanges without a session', async () => {
+        const ctx = createCookieContext({});
+
+        await expect(runWithContext(ctx as any, () => client.exchange({ audience: 'billing-api' })))
+            .rejects.toBeInstanceOf(AuthError);
+        expect(exchangeCalls()).toHaveLength(0);
+    });
+});
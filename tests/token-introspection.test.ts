@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createClient, runWithContext } from '../src';
+import { clearDiscoveryCache } from '../src/auth/discovery';
+import { createCookieContext } from './helpers';
+
+function response(body: any, status = 200) {
+    return {
+        ok: status < 400,
+        status,
+        statusText: status < 400 ? 'OK' : 'Service Unavailable',
+        json: () => Promise.resolve(body),
+    };
+}
+
+describe('token introspection', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        clearDiscoveryCache();
+    });
+
+    it('learns the expiry of opaque tokens and uses the introspection response as payload', async () => {
+        const exp = Math.floor(Date.now() / 1000) + 900;
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(response({ access_token: 'opaque-1', refresh_token: 'rt-1' }))
+            .mockResolvedValueOnce(response({ active: true, exp, sub: 'user-1', scope: 'read write' }));
+        global.fetch = fetchMock;
+
+        const client = createClient({
+            baseURL: 'https://api.example.com',
+            auth: {
+                login: '/auth/login',
+                refresh: '/auth/refresh',
+                introspect: { endpoint: '/oauth/introspect', clientAuth: 'basic' },
+                clientId: 'web-app',
+                clientSecret: 'secret',
+            },
+        });
+        const ctx = createCookieContext();
+
+        const session = await runWithContext(ctx as any, async () => {
+            await client.login({ username: 'user', password: 'pass' });
+            return client.getSessionAsync();
+        });
+
+        expect(ctx.jar.get('access_expires_at')).toBe(String(exp));
+        expect(session?.expiresAt).toBe(exp);
+        expect(session?.payload).toMatchObject({ sub: 'user-1', scope: 'read write' });
+
+        // The second lookup is served from the per-token cache
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        const [url, init] = fetchMock.mock.calls[1];
+        expect(url).toBe('https://api.example.com/oauth/introspect');
+        expect(init.headers.Authorization).toBe(`Basic ${Buffer.from('web-app:secret').toString('base64')}`);
+        expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+            token: 'opaque-1',
+            token_type_hint: 'access_token',
+        });
+    });
+
+    it('rejects logins whose token is inactive or has no known expiry', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(response({ access_token: 'opaque-1', refresh_token: 'rt-1' }))
+            .mockResolvedValueOnce(response({ active: false }))
+            .mockResolvedValueOnce(response({ access_token: 'opaque-2', refresh_token: 'rt-2' }))
+            .mockResolvedValueOnce(response({ active: true, sub: 'user-1' }));
+        global.fetch = fetchMock;
+
+        const client = createClient({
+            baseURL: 'https://api.example.com',
+            auth: {
+                login: '/auth/login',
+                refresh: '/auth/refresh',
+                introspect: '/oauth/introspect',
+            },
+        });
+        const ctx = createCookieContext();
+
+        await runWithContext(ctx as any, async () => {
+            await expect(client.login({ username: 'user', password: 'pass' }))
+                .rejects.toThrow('Invalid login response: Access token is not active');
+            await expect(client.login({ username: 'user', password: 'pass' }))
+                .rejects.toThrow('Could not detect expiration');
+        });
+
+        expect(ctx.jar.has('access_token')).toBe(false);
+    });
+
+    it('clears stored sessions whose token is no longer active', async () => {
+        const onSessionInvalid = vi.fn();
+        const fetchMock = vi.fn().mockResolvedValue(response({ active: false }));
+        global.fetch = fetchMock;
+
+        const client = createClient({
+            baseURL: 'https://api.example.com',
+            auth: {
+                login: '/auth/login',
+                refresh: '/auth/refresh',
+                introspect: '/oauth/introspect',
+                onSessionInvalid,
+            },
+        });
+        const ctx = createCookieContext({
+            access_token: 'opaque-revoked',
+            refresh_token: 'rt-1',
+            access_expires_at: String(Math.floor(Date.now() / 1000) + 900),
+        });
+
+        const session = await runWithContext(ctx as any, () => client.getSessionAsync());
+
+        expect(session).toBeNull();
+        expect(ctx.jar.has('access_token')).toBe(false);
+        expect(onSessionInvalid).toHaveBeenCalledWith(expect.objectContaining({ message: 'Access token is not active' }), ctx);
+    });
+
+    it('uses the discovered introspection endpoint and keeps the session during outages', async () => {
+        const issuer = 'https://id.example.com';
+        const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+            if (url.endsWith('/.well-known/openid-configuration')) {
+                return response({
+                    issuer,
+                    token_endpoint: `${issuer}/token`,
+                    introspection_endpoint: `${issuer}/introspect`,
+                });
+            }
+            return response({}, 503);
+        });
+        global.fetch = fetchMock;
+
+        const client = createClient({
+            baseURL: 'https://api.example.com',
+            auth: {
+                issuer,
+                introspect: true,
+            },
+        });
+        const ctx = createCookieContext({
+            access_token: 'opaque-1',
+            refresh_token: 'rt-1',
+            access_expires_at: String(Math.floor(Date.now() / 1000) + 900),
+        });
+
+        const session = await runWithContext(ctx as any, () => client.getSessionAsync());
+
+        expect(session).toBeNull();
+        expect(fetchMock).toHaveBeenCalledWith(`${issuer}/introspect`, expect.anything());
+        expect(ctx.jar.get('access_token')).toBe('opaque-1');
+    });
+});
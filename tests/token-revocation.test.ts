@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AuthError, createClient, runWithContext } from '../src';
+import { clearDiscoveryCache } from '../src/auth/discovery';
+import { createCookieContext } from './helpers';
+
+const ISSUER = 'https://id.example.com/realms/app';
+
+function createSessionContext() {
+    return createCookieContext({
+        access_token: 'at-1',
+        refresh_token: 'rt-1',
+        access_expires_at: String(Math.floor(Date.now() / 1000) + 3600),
+    });
+}
+
+function response(status = 200, body: any = {}) {
+    return {
+        ok: status < 400,
+        status,
+        statusText: status < 400 ? 'OK' : 'Service Unavailable',
+        json: () => Promise.resolve(body),
+    };
+}
+
+describe('token revocation on logout', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        clearDiscoveryCache();
+    });
+
+    it('revokes the refresh token and then the access token with type hints', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(response());
+        global.fetch = fetchMock;
+
+        const client = createClient({
+            baseURL: 'https://api.example.com',
+            auth: {
+                login: '/oauth/token',
+                refresh: '/oauth/token',
+                revoke: '/oauth/revoke',
+                clientId: 'web-app',
+            },
+        });
+        const ctx = createSessionContext();
+
+        await runWithContext(ctx as any, () => client.logout());
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        const requests = fetchMock.mock.calls.map(([url, init]) => ({
+            url,
+            contentType: init.headers['Content-Type'],
+            body: Object.fromEntries(new URLSearchParams(init.body)),
+        }));
+        expect(requests).toEqual([
+            {
+                url: 'https://api.example.com/oauth/revoke',
+                contentType: 'application/x-www-form-urlencoded',
+                body: { token: 'rt-1', token_type_hint: 'refresh_token', client_id: 'web-app' },
+            },
+            {
+                url: 'https://api.example.com/oauth/revoke',
+                contentType: 'application/x-www-form-urlencoded',
+                body: { token: 'at-1', token_type_hint: 'access_token', client_id: 'web-app' },
+            },
+        ]);
+        expect(ctx.jar.has('access_token')).toBe(false);
+        expect(ctx.jar.has('refresh_token')).toBe(false);
+    });
+
+    it('supports JSON revocation requests', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(response());
+        global.fetch = fetchMock;
+
+        const client = createClient({
+            baseURL: 'https://api.example.com',
+            auth: {
+                login: '/auth/login',
+                refresh: '/auth/refresh',
+                revoke: { endpoint: '/auth/revoke', contentType: 'application/json', tokens: ['refresh_token'] },
+            },
+        });
+
+        await runWithContext(createSessionContext() as any, () => client.logout());
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        const [, init] = fetchMock.mock.calls[0];
+        expect(init.headers['Content-Type']).toBe('application/json');
+        expect(JSON.parse(init.body)).toEqual({ token: 'rt-1', token_type_hint: 'refresh_token' });
+    });
+
+    it('reports failed revocations and still clears local storage', async () => {
+        global.fetch = vi.fn().mockResolvedValue(response(503));
+        const onLogoutError = vi.fn();
+
+        const client = createClient({
+            baseURL: 'https://api.example.com',
+            auth: {
+                login: '/auth/login',
+                refresh: '/auth/refresh',
+                revoke: '/auth/revoke',
+                onLogoutError,
+            },
+        });
+        const ctx = createSessionContext();
+
+        await runWithContext(ctx as any, () => client.logout());
+
+        expect(onLogoutError).toHaveBeenCalledTimes(2);
+        const [error, callbackCtx] = onLogoutError.mock.calls[0];
+        expect(error).toBeInstanceOf(AuthError);
+        expect(error.status).toBe(503);
+        expect(callbackCtx).toBe(ctx);
+        expect(ctx.jar.has('access_token')).toBe(false);
+        expect(ctx.jar.has('refresh_token')).toBe(false);
+    });
+
+    it('uses the discovered revocation endpoint', async () => {
+        const fetchMock = vi.fn(async (url: string) => url.endsWith('/.well-known/openid-configuration')
+            ? response(200, {
+                issuer: ISSUER,
+                token_endpoint: `${ISSUER}/token`,
+                revocation_endpoint: `${ISSUER}/revoke`,
+            })
+            : response());
+        global.fetch = fetchMock as any;
+
+        const client = createClient({
+            baseURL: 'https://api.example.com',
+            auth: { issuer: ISSUER, revoke: true },
+        });
+
+        await runWithContext(createSessionContext() as any, () => client.logout());
+
+        const revokeCalls = fetchMock.mock.calls.filter(([url]) => url === `${ISSUER}/revoke`);
+        expect(revokeCalls).toHaveLength(2);
+    });
+});
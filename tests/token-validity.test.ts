@@ -1,25 +1,6 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { TokenManager } from '../src/auth/manager';
-
-function createCookieContext(initial: Record<string, string> = {}) {
-    const store = new Map(Object.entries(initial));
-
-    return {
-        cookies: {
-            get: vi.fn((name: string) => {
-                const value = store.get(name);
-                return value ? { value } : undefined;
-            }),
-            set: vi.fn((name: string, value: string) => {
-                store.set(name, value);
-            }),
-            delete: vi.fn((name: string) => {
-                store.delete(name);
-            }),
-        },
-        store,
-    };
-}
+import { createCookieContext } from './helpers';
 
 describe('TokenManager token validity', () => {
     const config = {
@@ -48,8 +29,8 @@ describe('TokenManager token validity', () => {
         expect(manager.getSession(syncCtx as any)).toBeNull();
         await expect(manager.getSessionAsync(asyncCtx as any)).resolves.toBeNull();
 
-        expect(syncCtx.store.size).toBe(0);
-        expect(asyncCtx.store.size).toBe(0);
+        expect(syncCtx.jar.size).toBe(0);
+        expect(asyncCtx.jar.size).toBe(0);
         expect(syncCtx.cookies.delete).toHaveBeenCalledWith('refresh_token', expect.anything());
         expect(asyncCtx.cookies.delete).toHaveBeenCalledWith('refresh_token', expect.anything());
     });
@@ -68,8 +49,8 @@ describe('TokenManager token validity', () => {
         expect(manager.getSession(syncCtx as any)).toBeNull();
         await expect(manager.getSessionAsync(asyncCtx as any)).resolves.toBeNull();
 
-        expect(syncCtx.store.size).toBe(0);
-        expect(asyncCtx.store.size).toBe(0);
+        expect(syncCtx.jar.size).toBe(0);
+        expect(asyncCtx.jar.size).toBe(0);
         expect(syncCtx.cookies.delete).toHaveBeenCalledWith('access_token', expect.anything());
         expect(asyncCtx.cookies.delete).toHaveBeenCalledWith('access_token', expect.anything());
     });
@@ -97,9 +78,9 @@ describe('TokenManager token validity', () => {
 
         expect(session?.accessToken).toBe('new-access');
         expect(global.fetch).toHaveBeenCalledWith('https://api.example.com/refresh', expect.anything());
-        expect(ctx.store.get('access_token')).toBe('new-access');
-        expect(ctx.store.get('refresh_token')).toBe('new-refresh');
-        expect(Number(ctx.store.get('access_expires_at'))).toBeGreaterThan(now);
+        expect(ctx.jar.get('access_token')).toBe('new-access');
+        expect(ctx.jar.get('refresh_token')).toBe('new-refresh');
+        expect(Number(ctx.jar.get('access_expires_at'))).toBeGreaterThan(now);
         expect(ctx.cookies.delete).not.toHaveBeenCalled();
     });
 
@@ -140,7 +121,7 @@ describe('TokenManager token validity', () => {
 
         await expect(manager.ensure(ctx as any)).resolves.toBeNull();
 
-        expect(ctx.store.size).toBe(0);
+        expect(ctx.jar.size).toBe(0);
         expect(ctx.cookies.delete).toHaveBeenCalledWith('access_token', expect.anything());
         expect(ctx.cookies.delete).toHaveBeenCalledWith('refresh_token', expect.anything());
     });
@@ -170,9 +151,9 @@ describe('TokenManager token validity', () => {
         const session = await manager.ensure(ctx as any);
 
         expect(session?.accessToken).toBe('new-access');
-        expect(ctx.store.get('access_token')).toBe('new-access');
-        expect(ctx.store.get('refresh_token')).toBe('new-refresh');
-        expect(Number(ctx.store.get('access_expires_at'))).toBeGreaterThan(now);
+        expect(ctx.jar.get('access_token')).toBe('new-access');
+        expect(ctx.jar.get('refresh_token')).toBe('new-refresh');
+        expect(Number(ctx.jar.get('access_expires_at'))).toBeGreaterThan(now);
         expect(ctx.cookies.delete).not.toHaveBeenCalled();
     });
 
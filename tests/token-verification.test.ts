@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateKeyPairSync, sign, type KeyObject } from 'node:crypto';
+import { AuthError, createClient, runWithContext } from '../src';
+import { clearJwksCache, verifyJWT } from '../src/auth/verify';
+import { createCookieContext } from './helpers';
+
+const JWKS_URI = 'https://id.example.com/jwks';
+const ISSUER = 'https://id.example.com';
+
+function createKey(kid: string) {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    return {
+        kid,
+        privateKey,
+        jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' },
+    };
+}
+
+function signJWT(payload: Record<string, any>, key: { kid: string; privateKey: KeyObject }): string {
+    const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: key.kid })).toString('base64url');
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const signature = sign('sha256', Buffer.from(`${header}.${body}`), key.privateKey).toString('base64url');
+    return `${header}.${body}.${signature}`;
+}
+
+describe('JWKS token verification', () => {
+    const keyA = createKey('key-a');
+    const keyB = createKey('key-b');
+    let publishedKeys: any[];
+    let fetchMock: ReturnType<typeof vi.fn>;
+    const onSessionInvalid = vi.fn();
+
+    const client = createClient({
+        baseURL: 'https://api.example.com',
+        auth: {
+            login: '/login',
+            refresh: '/refresh',
+            verify: {
+                jwksUri: JWKS_URI,
+                issuer: ISSUER,
+                audience: 'orders-api',
+            },
+            onSessionInvalid,
+        },
+    });
+
+    const claims = () => ({
+        iss: ISSUER,
+        aud: 'orders-api',
+        sub: 'user-1',
+        jti: Math.random().toString(36).slice(2),
+        exp: Math.floor(Date.now() / 1000) + 3600,
+    });
+
+    const storedSession = (accessToken: string) => createCookieContext({
+        access_token: accessToken,
+        refresh_token: 'rt',
+        access_expires_at: String(Math.floor(Date.now() / 1000) + 3600),
+        last_refresh_at: String(Math.floor(Date.now() / 1000)),
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        clearJwksCache();
+        publishedKeys = [keyA.jwk];
+        fetchMock = vi.fn(async (url: string) => {
+            if (url === JWKS_URI) {
+                return { ok: true, status: 200, statusText: 'OK', json: () => Promise.resolve({ keys: publishedKeys }) };
+            }
+            throw new Error(`Unexpected request to ${url}`);
+        });
+        global.fetch = fetchMock as any;
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('returns verified claims from getSessionAsync', async () => {
+        const ctx = storedSession(signJWT(claims(), keyA));
+
+        const session = await runWithContext(ctx as any, () => client.getSessionAsync());
+
+        expect(session?.payload?.sub).toBe('user-1');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('reads claims only from verified access tokens', async () => {
+        const verified = signJWT({ ...claims(), roles: ['editor'] }, keyA);
+        await runWithContext(storedSession(verified) as any, () => client.getSessionAsync());
+
+        const forged = signJWT({ ...claims(), roles: ['admin'] }, keyB);
+        const manager = client.tokenManager!;
+
+        expect(manager.getClaims({ accessToken: verified, expiresAt: 0 }).roles).toEqual(['editor']);
+        expect(manager.getClaims({ accessToken: forged, expiresAt: 0, payload: { roles: ['admin'] } }).roles).toEqual([]);
+    });
+
+    it('keeps the claims of a verified session after its token is evicted from the cache', async () => {
+        const token = signJWT({ ...claims(), roles: ['editor'] }, keyA);
+        const session = await runWithContext(storedSession(token) as any, () => client.getSessionAsync());
+        const manager = client.tokenManager!;
+
+        for (let i = 0; i < 1000; i++) {
+            const other = signJWT({ ...claims(), sub: `user-${i}` }, keyA);
+            await runWithContext(storedSession(other) as any, () => client.getSessionAsync());
+        }
+
+        expect(manager.getClaims({ accessToken: token, expiresAt: 0 }).roles).toEqual([]);
+        expect(manager.getClaims(session!).roles).toEqual(['editor']);
+    });
+
+    it('treats a tampered token as an invalid session', async () => {
+        const token = signJWT(claims(), keyA);
+        const [header, , signature] = token.split('.');
+        const forgedPayload = Buffer.from(JSON.stringify({ ...claims(), sub: 'admin' })).toString('base64url');
+        const ctx = storedSession(`${header}.${forgedPayload}.${signature}`);
+
+        const session = await runWithContext(ctx as any, () => client.getSessionAsync());
+
+        expect(session).toBeNull();
+        expect(ctx.jar.has('access_token')).toBe(false);
+        expect(onSessionInvalid).toHaveBeenCalledWith(expect.any(AuthError), expect.anything());
+    });
+
+    it.each([
+        ['an RSA signature labelled ES256', 'rsa', 'ES256'],
+        ['an RSA signature labelled EdDSA', 'rsa', 'EdDSA'],
+        ['an RS256 token against an Ed25519 key', 'ed25519', 'RS256'],
+        ['an ES256 token against an Ed25519 key', 'ed25519', 'ES256'],
+    ] as const)('treats %s as an invalid session when the key has no alg', async (_, keyType, alg) => {
+        const { privateKey, publicKey } = keyType === 'rsa'
+            ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+            : generateKeyPairSync('ed25519');
+        publishedKeys = [{ ...publicKey.export({ format: 'jwk' }), kid: 'no-alg', use: 'sig' }];
+        const header = Buffer.from(JSON.stringify({ alg, typ: 'JWT', kid: 'no-alg' })).toString('base64url');
+        const body = Buffer.from(JSON.stringify(claims())).toString('base64url');
+        const signature = sign(keyType === 'rsa' ? 'sha256' : null, Buffer.from(`${header}.${body}`), privateKey).toString('base64url');
+        const ctx = storedSession(`${header}.${body}.${signature}`);
+
+        const session = await runWithContext(ctx as any, () => client.getSessionAsync());
+
+        expect(session).toBeNull();
+        expect(ctx.jar.has('access_token')).toBe(false);
+        expect(onSessionInvalid).toHaveBeenCalledWith(expect.objectContaining({ status: 401 }), expect.anything());
+    });
+
+    it('rejects tokens for another audience from ensure()', async () => {
+        const ctx = storedSession(signJWT({ ...claims(), aud: 'billing-api' }, keyA));
+
+        const session = await runWithContext(ctx as any, () => client.getValidSessionAsync());
+
+        expect(session).toBeNull();
+        expect(ctx.jar.has('refresh_token')).toBe(false);
+    });
+
+    it('re-fetches the JWKS when a token uses an unknown key id', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+
+        await runWithContext(storedSession(signJWT(claims(), keyA)) as any, () => client.getSessionAsync());
+
+        publishedKeys = [keyA.jwk, keyB.jwk];
+        vi.setSystemTime(Date.now() + 31_000);
+
+        const session = await runWithContext(storedSession(signJWT(claims(), keyB)) as any, () => client.getSessionAsync());
+
+        expect(session?.payload?.sub).toBe('user-1');
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps the session when a new key id arrives during the refetch cooldown', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+
+        await runWithContext(storedSession(signJWT(claims(), keyA)) as any, () => client.getSessionAsync());
+        publishedKeys = [keyA.jwk, keyB.jwk];
+
+        const ctx = storedSession(signJWT(claims(), keyB));
+        const session = await runWithContext(ctx as any, () => client.getSessionAsync());
+
+        expect(session).toBeNull();
+        expect(ctx.jar.has('access_token')).toBe(true);
+        expect(onSessionInvalid).not.toHaveBeenCalled();
+
+        vi.setSystemTime(Date.now() + 31_000);
+        const retried = await runWithContext(ctx as any, () => client.getSessionAsync());
+
+        expect(retried?.payload?.sub).toBe('user-1');
+    });
+
+    it('keeps the session when the JWKS cannot be fetched', async () => {
+        fetchMock.mockImplementation(async () => ({ ok: false, status: 401, statusText: 'Unauthorized' }));
+        const token = signJWT(claims(), keyA);
+        const ctx = storedSession(token);
+
+        const session = await runWithContext(ctx as any, () => client.getSessionAsync());
+
+        expect(session).toBeNull();
+        expect(ctx.jar.get('access_token')).toBe(token);
+        expect(onSessionInvalid).not.toHaveBeenCalled();
+        await expect(verifyJWT(token, { jwksUri: JWKS_URI }, { login: '/login', refresh: '/refresh' }))
+            .rejects.toMatchObject({ status: 503 });
+    });
+
+    it('rejects login responses with unverifiable tokens', async () => {
+        const otherKey = createKey('key-a');
+        fetchMock.mockImplementation(async (url: string) => {
+            if (url === JWKS_URI) {
+                return { ok: true, status: 200, statusText: 'OK', json: () => Promise.resolve({ keys: publishedKeys }) };
+            }
+            return {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                headers: new Headers(),
+                url,
+                json: () => Promise.resolve({
+                    access_token: signJWT(claims(), otherKey),
+                    refresh_token: 'rt',
+                    expires_in: 3600,
+                }),
+            };
+        });
+        const ctx = createCookieContext();
+
+        await expect(runWithContext(ctx as any, () => client.login({ username: 'u' })))
+            .rejects.toThrow(/signature is invalid/);
+        expect(ctx.jar.has('access_token')).toBe(false);
+    });
+
+    it('requires getSessionAsync when verification is enabled', () => {
+        const ctx = storedSession(signJWT(claims(), keyA));
+
+        expect(() => runWithContext(ctx as any, () => client.getSession())).toThrow(/getSessionAsync/);
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { context, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { api, createClient, runWithContext, setConfig } from '../src';
+import { createCookieContext, jsonResponse } from './helpers';
+
+// Spans are exported when they end, so children come before their parents
+const exporter = new InMemorySpanExporter();
+const tracer = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }).getTracer('tokenkit-test');
+context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+
+function parentName(span: ReadableSpan, spans: ReadableSpan[]): string | undefined {
+    const parentId = span.parentSpanContext?.spanId;
+    return spans.find((candidate) => candidate.spanContext().spanId === parentId)?.name;
+}
+
+const traceparent = (span: ReadableSpan) => `00-${span.spanContext().traceId}-${span.spanContext().spanId}-01`;
+
+describe('OpenTelemetry tracing', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        exporter.reset();
+        setConfig({
+            baseURL: 'https://api.example.com',
+            auth: undefined,
+            tracer: undefined,
+            getContextStore: undefined,
+            setContextStore: undefined,
+            runWithContext: undefined,
+        });
+    });
+
+    afterAll(() => {
+        context.disable();
+    });
+
+    it('does nothing without a tracer', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ ok: true }));
+        const client = createClient({ baseURL: 'https://api.example.com', fetch: fetchMock as any });
+
+        await runWithContext(createCookieContext() as any, () => client.get('/items'));
+
+        expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty('traceparent');
+    });
+
+    it('traces requests and each retry attempt with HTTP attributes', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(jsonResponse({ error: 'busy' }, 503))
+            .mockResolvedValueOnce(jsonResponse({ ok: true }));
+        const client = createClient({ baseURL: 'https://api.example.com', fetch: fetchMock as any, tracer, retry: { attempts: 2, delay: 1 } });
+
+        await runWithContext(createCookieContext() as any, () => client.get('/items', { params: { access_token: 'secret', page: 2 } }));
+
+        const spans = exporter.getFinishedSpans();
+        expect(spans.map((span) => ({ name: span.name, parent: parentName(span, spans), kind: span.kind }))).toEqual([
+            { name: 'GET', parent: 'tokenkit.request', kind: SpanKind.CLIENT },
+            { name: 'GET', parent: 'tokenkit.request', kind: SpanKind.CLIENT },
+            { name: 'tokenkit.request', parent: undefined, kind: SpanKind.INTERNAL },
+        ]);
+
+        const [failed, retried, request] = spans;
+        expect(request.attributes).toMatchObject({ 'http.request.method': 'GET', 'http.response.status_code': 200 });
+        expect(failed.attributes).toEqual({
+            'http.request.method': 'GET',
+            'url.full': 'https://api.example.com/items?access_token=REDACTED&page=2',
+            'server.address': 'api.example.com',
+            'server.port': 443,
+            'http.response.status_code': 503,
+            'error.type': 'APIError',
+        });
+        expect(failed.status.code).toBe(SpanStatusCode.ERROR);
+        expect(failed.events.map((event) => event.name)).toEqual(['exception']);
+        expect(retried.attributes).toMatchObject({ 'http.request.resend_count': 1, 'http.response.status_code': 200 });
+        expect(retried.status.code).toBe(SpanStatusCode.UNSET);
+
+        expect(fetchMock.mock.calls[0][1].headers.traceparent).toBe(traceparent(failed));
+        expect(fetchMock.mock.calls[1][1].headers.traceparent).toBe(traceparent(retried));
+    });
+
+    it('propagates trace context only to the baseURL and allowed origins', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(jsonResponse({}));
+        const client = createClient({
+            baseURL: 'https://api.example.com',
+            fetch: fetchMock as any,
+            tracer,
+            tracePropagationOrigins: ['https://billing.example.com'],
+        });
+
+        await runWithContext(createCookieContext() as any, async () => {
+            await client.get('https://cdn.other.com/assets.json');
+            await client.get('https://billing.example.com/invoices');
+        });
+
+        expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty('traceparent');
+        expect(fetchMock.mock.calls[1][1].headers.traceparent).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+        expect(exporter.getFinishedSpans().find((span) => span.attributes['server.address'] === 'cdn.other.com')).toBeDefined();
+    });
+
+    it('keeps a traceparent set by the caller', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(jsonResponse({}));
+        const client = createClient({ baseURL: 'https://api.example.com', fetch: fetchMock as any, tracer });
+
+        await runWithContext(createCookieContext() as any, () => client.get('/items', { headers: { Traceparent: 'upstream' } }));
+
+        expect(fetchMock.mock.calls[0][1].headers).toEqual(expect.objectContaining({ Traceparent: 'upstream' }));
+        expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty('traceparent');
+    });
+
+    it('traces login, refreshes inside requests, and logout', async () => {
+        setConfig({
+            baseURL: 'https://api.example.com',
+            auth: { login: '/auth/login', refresh: '/auth/refresh', logout: '/auth/logout' },
+            tracer,
+        });
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(jsonResponse({ access_token: 'at-1', refresh_token: 'rt-1', expires_in: -10 }))
+            .mockResolvedValueOnce(jsonResponse({ access_token: 'at-2', refresh_token: 'rt-2', expires_in: 3600 }))
+            .mockResolvedValueOnce(jsonResponse({ id: 'o-1' }))
+            .mockResolvedValueOnce(jsonResponse({}));
+        global.fetch = fetchMock;
+        const ctx = createCookieContext();
+
+        await runWithContext(ctx as any, async () => {
+            await api.login({ username: 'ada', password: 'pass' });
+            await api.get('/orders/o-1');
+            await api.logout();
+        });
+
+        const spans = exporter.getFinishedSpans();
+        expect(spans.map((span) => [span.name, parentName(span, spans)])).toEqual([
+            ['tokenkit.login', undefined],
+            ['tokenkit.refresh', 'GET'],
+            ['GET', 'tokenkit.request'],
+            ['tokenkit.request', undefined],
+            ['tokenkit.logout', undefined],
+        ]);
+        const [login, refresh, get, , logout] = spans;
+        expect(login.attributes).toMatchObject({ 'http.request.method': 'POST', 'url.full': 'https://api.example.com/auth/login', 'http.response.status_code': 200 });
+        expect(refresh.attributes).toMatchObject({ 'url.full': 'https://api.example.com/auth/refresh', 'http.response.status_code': 200 });
+
+        expect(fetchMock.mock.calls[0][1].headers.traceparent).toBe(traceparent(login));
+        expect(fetchMock.mock.calls[1][1].headers.traceparent).toBe(traceparent(refresh));
+        expect(fetchMock.mock.calls[2][1].headers.traceparent).toBe(traceparent(get));
+        expect(fetchMock.mock.calls[3][1].headers.traceparent).toBe(traceparent(logout));
+    });
+});